@@ -10,6 +10,13 @@
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
 -- Drop tables in reverse order of dependency to avoid foreign key errors
+DROP TABLE IF EXISTS dialing_limits CASCADE;
+DROP TABLE IF EXISTS audit_logs CASCADE;
+DROP TABLE IF EXISTS holiday_calendar_dates CASCADE;
+DROP TABLE IF EXISTS holiday_calendars CASCADE;
+DROP TABLE IF EXISTS phone_number_import_chunks CASCADE;
+DROP TABLE IF EXISTS phone_number_imports CASCADE;
+DROP TABLE IF EXISTS suppression_entries CASCADE;
 DROP TABLE IF EXISTS call_logs CASCADE;
 DROP TABLE IF EXISTS call_tasks CASCADE;
 DROP TABLE IF EXISTS call_campaigns CASCADE;
@@ -18,17 +25,30 @@ DROP TABLE IF EXISTS phone_numbers CASCADE;
 DROP TABLE IF EXISTS users CASCADE;
 
 -- Drop custom ENUM types
+DROP TYPE IF EXISTS campaign_status;
 DROP TYPE IF EXISTS task_status;
 DROP TYPE IF EXISTS call_log_status;
 DROP TYPE IF EXISTS phone_number_status;
+DROP TYPE IF EXISTS suppression_match_type;
+DROP TYPE IF EXISTS import_status;
+DROP TYPE IF EXISTS dialing_limit_scope;
 
 -- =============================================================================
 -- Custom ENUM Types for Status Fields
 -- =============================================================================
 
-CREATE TYPE task_status AS ENUM ('pending', 'in-progress', 'completed', 'failed');
-CREATE TYPE call_log_status AS ENUM ('initiated', 'in-progress', 'completed', 'failed');
+CREATE TYPE campaign_status AS ENUM (
+    'draft', 'scheduled', 'running', 'paused', 'completed', 'cancelled', 'archived'
+);
+CREATE TYPE task_status AS ENUM ('pending', 'in-progress', 'completed', 'failed', 'skipped', 'expired');
+CREATE TYPE call_log_status AS ENUM (
+    'initiated', 'in-progress', 'completed', 'failed',
+    'busy', 'no-answer', 'voicemail', 'rejected', 'invalid-number', 'carrier-error'
+);
 CREATE TYPE phone_number_status AS ENUM ('valid', 'invalid', 'do_not_call');
+CREATE TYPE suppression_match_type AS ENUM ('number', 'prefix');
+CREATE TYPE import_status AS ENUM ('pending', 'processing', 'completed', 'failed');
+CREATE TYPE dialing_limit_scope AS ENUM ('user', 'caller_id', 'trunk');
 
 -- =============================================================================
 -- 1. User Entity
@@ -38,6 +58,9 @@ CREATE TABLE users (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     name VARCHAR(255) NOT NULL,
     email VARCHAR(255) NOT NULL UNIQUE,
+    telephony_provider VARCHAR(50),
+    -- ISO 3166-1 alpha-2 country used to read phone numbers entered in national format
+    default_country VARCHAR(2),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -49,8 +72,14 @@ CREATE TABLE users (
 CREATE TABLE phone_numbers (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- E.164, e.g. +12125550123
     number VARCHAR(50) NOT NULL,
     status phone_number_status NOT NULL DEFAULT 'valid',
+    -- Derived from the number: ISO 3166-1 alpha-2 region and line type (mobile, fixed_line, toll_free, ...)
+    country_code VARCHAR(2),
+    number_type VARCHAR(30),
+    -- Contact's IANA time zone; when NULL it is derived from the number
+    time_zone VARCHAR(100),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     UNIQUE (user_id, number)
@@ -67,8 +96,16 @@ CREATE TABLE call_schedules (
     name VARCHAR(255) NOT NULL,
     time_zone VARCHAR(100) NOT NULL,
     schedule_rules JSONB NOT NULL,
+    -- Evaluate the windows in each contact's local time zone instead of time_zone
+    use_contact_time_zone BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Holidays and blackout dates on which no calls are made (foreign key added in section 9)
+    holiday_calendar_id UUID,
+    -- Optional period in which the schedule's windows apply, open-ended when NULL
+    valid_from TIMESTAMP WITH TIME ZONE,
+    valid_until TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
 );
 CREATE INDEX idx_call_schedules_on_user_id ON call_schedules(user_id);
 
@@ -80,21 +117,37 @@ CREATE TABLE call_campaigns (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     name VARCHAR(255) NOT NULL,
-    is_paused BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Lifecycle state, changed through the start/pause/resume/cancel/archive routes and the scheduler
+    status campaign_status NOT NULL DEFAULT 'draft',
     schedule_id UUID REFERENCES call_schedules(id) ON DELETE SET NULL,
     max_concurrent_calls INTEGER NOT NULL DEFAULT 5,
     max_retries INTEGER NOT NULL DEFAULT 3,
     retry_delay_seconds INTEGER NOT NULL DEFAULT 300,
+    -- Dispatch priority from 1 to 10, tasks of higher-priority campaigns are dialed first
+    priority INTEGER NOT NULL DEFAULT 5 CHECK (priority BETWEEN 1 AND 10),
+    -- Per-outcome retry rules, e.g. {"busy": {"retry": true, "delay_seconds": 600}}; NULL uses the defaults
+    retry_policy JSONB,
+    -- Outbound number (E.164) the campaign's calls are placed from, the provider's default when NULL
+    caller_id VARCHAR(50),
+    -- Optional period in which the campaign dials; tasks still pending at ends_at expire
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
     total_tasks INTEGER NOT NULL DEFAULT 0,
     completed_tasks INTEGER NOT NULL DEFAULT 0,
     failed_tasks INTEGER NOT NULL DEFAULT 0,
+    skipped_tasks INTEGER NOT NULL DEFAULT 0,
+    expired_tasks INTEGER NOT NULL DEFAULT 0,
     retries_attempted INTEGER NOT NULL DEFAULT 0,
+    -- Claims whose lease ran out before the task finished (lost job, crashed worker)
+    expired_leases INTEGER NOT NULL DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
 );
 CREATE INDEX idx_call_campaigns_on_user_id ON call_campaigns(user_id);
 CREATE INDEX idx_call_campaigns_on_schedule_id ON call_campaigns(schedule_id);
-CREATE INDEX idx_call_campaigns_on_is_paused ON call_campaigns(is_paused);
+CREATE INDEX idx_call_campaigns_on_status ON call_campaigns(status);
+CREATE INDEX idx_call_campaigns_on_ends_at ON call_campaigns(ends_at);
 
 -- =============================================================================
 -- 5. CallTask Entity
@@ -108,6 +161,15 @@ CREATE TABLE call_tasks (
     status task_status NOT NULL DEFAULT 'pending',
     scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
     retry_count INTEGER NOT NULL DEFAULT 0,
+    -- Priority within the campaign: 0 for the first attempt, 1 for retries, which go first
+    priority INTEGER NOT NULL DEFAULT 0,
+    -- Why a task ended as 'skipped' without dialing: 'do_not_call', 'invalid', 'suppressed', 'no_schedule_slot' or 'campaign_cancelled'
+    skip_reason VARCHAR(50),
+    -- Lease of the latest claim: when the scheduler claimed the task, until when the claim
+    -- holds while 'in-progress' and which scheduler or worker process holds it
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    claimed_by VARCHAR(255),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     UNIQUE (campaign_id, phone_number_id)
@@ -116,6 +178,9 @@ CREATE INDEX idx_call_tasks_on_user_id ON call_tasks(user_id);
 CREATE INDEX idx_call_tasks_on_campaign_id ON call_tasks(campaign_id);
 CREATE INDEX idx_call_tasks_on_phone_number_id ON call_tasks(campaign_id, phone_number_id);
 CREATE INDEX idx_call_tasks_on_status ON call_tasks(campaign_id, status);
+CREATE INDEX idx_call_tasks_on_lease_expires_at ON call_tasks(lease_expires_at) WHERE status = 'in-progress';
+-- The scheduler claims each campaign's due tasks by priority, then scheduled_at
+CREATE INDEX idx_call_tasks_on_dispatch_order ON call_tasks(campaign_id, priority DESC, scheduled_at) WHERE status = 'pending';
 
 -- =============================================================================
 -- 6. CallLog Entity
@@ -124,9 +189,16 @@ CREATE INDEX idx_call_tasks_on_status ON call_tasks(campaign_id, status);
 CREATE TABLE call_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- The task's campaign, kept on the log so metrics can be aggregated without joining call_tasks
+    campaign_id UUID NOT NULL REFERENCES call_campaigns(id) ON DELETE CASCADE,
     call_task_id UUID NOT NULL REFERENCES call_tasks(id) ON DELETE CASCADE,
     phone_number_id UUID NOT NULL REFERENCES phone_numbers(id) ON DELETE RESTRICT,
     dialed_number VARCHAR(50) NOT NULL,
+    -- The task's retry_count when the call was placed, 0 for the first attempt
+    attempt INTEGER NOT NULL DEFAULT 0,
+    -- The task's claimed_at when the call was placed; the call's outcome only moves the task
+    -- while it is still held by that claim
+    task_claimed_at TIMESTAMP WITH TIME ZONE,
     external_call_id VARCHAR(255) UNIQUE,
     status call_log_status NOT NULL,
     started_at TIMESTAMP WITH TIME ZONE,
@@ -134,10 +206,150 @@ CREATE TABLE call_logs (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
-CREATE INDEX idx_call_logs_on_user_id ON call_logs(user_id);
+CREATE INDEX idx_call_logs_on_user_id ON call_logs(user_id, created_at);
+CREATE INDEX idx_call_logs_on_campaign_id ON call_logs(campaign_id, created_at);
 CREATE INDEX idx_call_logs_on_call_task_id ON call_logs(call_task_id);
 CREATE INDEX idx_call_logs_on_external_call_id ON call_logs(external_call_id);
 
+-- =============================================================================
+-- 7. SuppressionEntry Entity
+-- =============================================================================
+
+CREATE TABLE suppression_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- NULL for tenant-wide entries that apply to every user
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    match_type suppression_match_type NOT NULL DEFAULT 'number',
+    -- A full number in E.164, or a prefix of one starting with '+' and the country calling code
+    value VARCHAR(50) NOT NULL,
+    reason VARCHAR(255),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+-- One entry per value and user, and one per value tenant-wide; a plain unique constraint
+-- would let tenant-wide duplicates through since their user_id is NULL
+CREATE UNIQUE INDEX idx_suppression_entries_on_user_entry ON suppression_entries(user_id, match_type, value) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_suppression_entries_on_tenant_entry ON suppression_entries(match_type, value) WHERE user_id IS NULL;
+CREATE INDEX idx_suppression_entries_on_user_id ON suppression_entries(user_id);
+CREATE INDEX idx_suppression_entries_on_value ON suppression_entries(value);
+
+-- =============================================================================
+-- 8. PhoneNumberImport Entity
+-- =============================================================================
+
+CREATE TABLE phone_number_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Campaign the imported numbers are added to, if any
+    campaign_id UUID REFERENCES call_campaigns(id) ON DELETE SET NULL,
+    format VARCHAR(10) NOT NULL,
+    status import_status NOT NULL DEFAULT 'pending',
+    -- Header row of a CSV upload, applied to each of its staged chunks
+    header TEXT,
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    processed_rows INTEGER NOT NULL DEFAULT 0,
+    created_count INTEGER NOT NULL DEFAULT 0,
+    updated_count INTEGER NOT NULL DEFAULT 0,
+    attached_count INTEGER NOT NULL DEFAULT 0,
+    error_count INTEGER NOT NULL DEFAULT 0,
+    -- Row-level errors, e.g. [{"row": 3, "message": "Missing number"}], capped at the first 1000
+    errors JSONB NOT NULL DEFAULT '[]',
+    failure_reason TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX idx_phone_number_imports_on_user_id ON phone_number_imports(user_id);
+
+-- Uploaded rows waiting to be imported, staged in runs of lines as the upload streams in.
+-- A chunk is deleted in the transaction that imports its rows.
+CREATE TABLE phone_number_import_chunks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    import_id UUID NOT NULL REFERENCES phone_number_imports(id) ON DELETE CASCADE,
+    -- Position of the chunk in the upload
+    seq INTEGER NOT NULL,
+    -- Line number of the chunk's first line in the uploaded file
+    first_line INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (import_id, seq)
+);
+
+-- =============================================================================
+-- 9. HolidayCalendar Entity
+-- =============================================================================
+
+CREATE TABLE holiday_calendars (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    -- Bundled public holidays to observe, e.g. US or GB-SCT; NULL for custom dates only
+    region VARCHAR(10),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX idx_holiday_calendars_on_user_id ON holiday_calendars(user_id);
+
+-- User-defined blackout dates, a single day has start_date = end_date
+CREATE TABLE holiday_calendar_dates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    calendar_id UUID NOT NULL REFERENCES holiday_calendars(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date)
+);
+CREATE INDEX idx_holiday_calendar_dates_on_calendar_id ON holiday_calendar_dates(calendar_id);
+
+ALTER TABLE call_schedules
+    ADD CONSTRAINT call_schedules_holiday_calendar_id_fkey
+    FOREIGN KEY (holiday_calendar_id) REFERENCES holiday_calendars(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- 10. AuditLog Entity
+-- =============================================================================
+
+-- One row per mutation of a campaign, schedule or phone number made through the API.
+-- entity_id has no foreign key so the history outlives deleted entities.
+CREATE TABLE audit_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Owner of the entity
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    entity_type VARCHAR(30) NOT NULL,
+    entity_id UUID NOT NULL,
+    -- create, update, delete or a campaign lifecycle action (start, pause, ...)
+    action VARCHAR(30) NOT NULL,
+    -- Who made the change: the X-Actor request header, 'api' without one, 'system' outside requests
+    actor VARCHAR(255) NOT NULL,
+    -- Changed fields, e.g. {"max_concurrent_calls": {"before": 5, "after": 10}}
+    changes JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX idx_audit_logs_on_entity ON audit_logs(entity_type, entity_id, created_at);
+CREATE INDEX idx_audit_logs_on_user_id ON audit_logs(user_id, created_at);
+
+-- =============================================================================
+-- 11. DialingLimit Entity
+-- =============================================================================
+
+-- Limits shared by every campaign dialing through the same account, caller ID or carrier
+-- trunk, enforced on top of each campaign's max_concurrent_calls. NULL means no limit.
+CREATE TABLE dialing_limits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope dialing_limit_scope NOT NULL,
+    -- The user's ID, the caller ID in E.164 or the telephony provider name (trunk)
+    target VARCHAR(255) NOT NULL,
+    max_concurrent_calls INTEGER,
+    max_calls_per_second INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (scope, target)
+);
+
 -- =============================================================================
 -- End of Schema
 -- =============================================================================
\ No newline at end of file
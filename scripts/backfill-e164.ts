@@ -0,0 +1,176 @@
+import 'dotenv/config';
+import { phone_number_status, suppression_match_type } from '@prisma/client';
+import { prisma } from '../src/lib/prisma';
+import { normalizePhoneNumber, resolveDefaultCountry } from '../src/lib/phone_number';
+import { normalizeSuppressionValue } from '../src/lib/suppression';
+
+// Rows read per query
+const PAGE_SIZE = 500;
+
+// When two rows turn out to be the same number, the merged row keeps the stricter status
+const statusRank: Record<phone_number_status, number> = { valid: 0, invalid: 1, do_not_call: 2 };
+
+/**
+ * Folds `duplicateId` into `keptId`, both rows of the same number: call logs move over, call
+ * tasks move over unless the campaign already calls the kept row (those tasks are deleted
+ * with the duplicate, their logs kept on the remaining task), and the duplicate is deleted.
+ * Campaign counters are left to counter reconciliation.
+ */
+async function mergeDuplicate(keptId: string, duplicateId: string, status: phone_number_status) {
+  await prisma.$transaction([
+    prisma.$executeRaw`
+      UPDATE call_logs cl
+      SET call_task_id = kept_task.id
+      FROM call_tasks duplicate_task
+      JOIN call_tasks kept_task
+        ON kept_task.campaign_id = duplicate_task.campaign_id AND kept_task.phone_number_id = ${keptId}::uuid
+      WHERE cl.call_task_id = duplicate_task.id
+      AND duplicate_task.phone_number_id = ${duplicateId}::uuid;
+    `,
+    prisma.$executeRaw`
+      UPDATE call_logs SET phone_number_id = ${keptId}::uuid WHERE phone_number_id = ${duplicateId}::uuid;
+    `,
+    prisma.$executeRaw`
+      UPDATE call_tasks ct
+      SET phone_number_id = ${keptId}::uuid, updated_at = NOW()
+      WHERE ct.phone_number_id = ${duplicateId}::uuid
+      AND NOT EXISTS (
+        SELECT 1 FROM call_tasks kept_task
+        WHERE kept_task.campaign_id = ct.campaign_id AND kept_task.phone_number_id = ${keptId}::uuid
+      );
+    `,
+    prisma.phone_numbers.update({ where: { id: keptId }, data: { status, updated_at: new Date() } }),
+    prisma.phone_numbers.delete({ where: { id: duplicateId } }),
+  ]);
+}
+
+/**
+ * Rewrites phone numbers stored before numbers were normalized to E.164, so they match the
+ * rows created since for deduplication and suppression. Numbers are read in their user's
+ * default_country; rows that still can't be parsed are reported and left as they are.
+ */
+async function backfillPhoneNumbers() {
+  const stats = { normalized: 0, merged: 0, unparseable: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    const page: { id: string; user_id: string; number: string; status: phone_number_status; default_country: string | null }[] =
+      await prisma.$queryRaw`
+        SELECT pn.id, pn.user_id, pn.number, pn.status, u.default_country
+        FROM phone_numbers pn
+        JOIN users u ON u.id = pn.user_id
+        WHERE pn.number !~ '^\\+[1-9][0-9]{6,14}$'
+        AND (${lastId}::uuid IS NULL OR pn.id > ${lastId}::uuid)
+        ORDER BY pn.id
+        LIMIT ${PAGE_SIZE};
+      `;
+    if (page.length === 0) {
+      break;
+    }
+    lastId = page[page.length - 1].id;
+
+    for (const row of page) {
+      const normalized = normalizePhoneNumber(row.number, resolveDefaultCountry(row.default_country));
+      if (!normalized) {
+        stats.unparseable++;
+        console.warn(`⚠️  Phone number ${row.id} (${row.number}) can't be normalized, left as is`);
+        continue;
+      }
+
+      const existing = await prisma.phone_numbers.findUnique({
+        where: { user_id_number: { user_id: row.user_id, number: normalized.number } },
+      });
+      if (existing) {
+        const status = statusRank[row.status] > statusRank[existing.status] ? row.status : existing.status;
+        await mergeDuplicate(existing.id, row.id, status);
+        stats.merged++;
+        continue;
+      }
+
+      await prisma.phone_numbers.update({
+        where: { id: row.id },
+        data: { ...normalized, updated_at: new Date() },
+      });
+      stats.normalized++;
+    }
+  }
+
+  console.log(
+    `✅ Phone numbers: ${stats.normalized} normalized, ${stats.merged} merged into an existing E.164 row, ${stats.unparseable} left as is`
+  );
+  return stats;
+}
+
+/**
+ * Rewrites suppression entries stored as bare digits, so they match the E.164 numbers they are
+ * meant to block. An entry that becomes a duplicate of an existing one is removed.
+ */
+async function backfillSuppressionEntries() {
+  const stats = { normalized: 0, removed: 0, unparseable: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    const page: {
+      id: string;
+      user_id: string | null;
+      match_type: suppression_match_type;
+      value: string;
+      default_country: string | null;
+    }[] = await prisma.$queryRaw`
+      SELECT se.id, se.user_id, se.match_type, se.value, u.default_country
+      FROM suppression_entries se
+      LEFT JOIN users u ON u.id = se.user_id
+      WHERE se.value !~ '^\\+[1-9][0-9]*$'
+      AND (${lastId}::uuid IS NULL OR se.id > ${lastId}::uuid)
+      ORDER BY se.id
+      LIMIT ${PAGE_SIZE};
+    `;
+    if (page.length === 0) {
+      break;
+    }
+    lastId = page[page.length - 1].id;
+
+    for (const entry of page) {
+      const value = normalizeSuppressionValue(entry.match_type, entry.value, resolveDefaultCountry(entry.default_country));
+      if (!value) {
+        stats.unparseable++;
+        console.warn(`⚠️  Suppression entry ${entry.id} (${entry.match_type} ${entry.value}) can't be normalized, left as is`);
+        continue;
+      }
+
+      const existing = await prisma.suppression_entries.findFirst({
+        where: { user_id: entry.user_id, match_type: entry.match_type, value },
+      });
+      if (existing) {
+        await prisma.suppression_entries.delete({ where: { id: entry.id } });
+        stats.removed++;
+        continue;
+      }
+
+      await prisma.suppression_entries.update({ where: { id: entry.id }, data: { value, updated_at: new Date() } });
+      stats.normalized++;
+    }
+  }
+
+  console.log(
+    `✅ Suppression entries: ${stats.normalized} normalized, ${stats.removed} removed as duplicates, ${stats.unparseable} left as is`
+  );
+}
+
+async function main() {
+  console.log('🔧 Backfilling E.164 numbers...');
+  await backfillSuppressionEntries();
+  const phoneNumbers = await backfillPhoneNumbers();
+  if (phoneNumbers.merged > 0) {
+    console.log('ℹ️  Merged numbers moved call tasks between rows, run counter reconciliation to correct campaign totals');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
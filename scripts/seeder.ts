@@ -98,7 +98,7 @@ async function main() {
           'Holiday Promotion',
           'Lead Generation',
         ]) + ` - ${faker.company.name()}`,
-        is_paused: true,
+        status: 'draft',
         schedule_id: faker.helpers.arrayElement(schedules).id,
         max_concurrent_calls: faker.number.int({ min: 3, max: 10 }),
         max_retries: faker.number.int({ min: 1, max: 5 }),
@@ -6,25 +6,35 @@ import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { ExpressAdapter } from '@bull-board/express';
 import { prisma } from './lib/prisma';
 import { callTaskQueue } from './queues/callTaskQueue';
+import { phoneNumberImportQueue } from './queues/phoneNumberImportQueue';
 import { generateOpenApiDocument } from './lib/openapi';
 import usersController from './controllers/users.controller';
 import phoneNumbersController from './controllers/phone-numbers.controller';
+import phoneNumberImportsController from './controllers/phone-number-imports.controller';
 import callSchedulesController from './controllers/call-schedules.controller';
 import callCampaignsController from './controllers/call-campaigns.controller';
+import telephonyWebhooksController from './controllers/telephony-webhooks.controller';
+import suppressionListsController from './controllers/suppression-lists.controller';
+import holidayCalendarsController from './controllers/holiday-calendars.controller';
+import dialingLimitsController from './controllers/dialing-limits.controller';
+import schedulerController from './controllers/scheduler.controller';
+import { auditActor } from './middleware/audit-actor';
 
 const app = express();
-app.use(express.json());
+// Large enough for bulk requests such as adding tens of thousands of numbers to a campaign
+app.use(express.json({ limit: '5mb' }));
 
 // Setup Bull Board for queue monitoring
 const serverAdapter = new ExpressAdapter();
 serverAdapter.setBasePath('/admin/queues');
 
 createBullBoard({
-  queues: [new BullMQAdapter(callTaskQueue)],
+  queues: [new BullMQAdapter(callTaskQueue), new BullMQAdapter(phoneNumberImportQueue)],
   serverAdapter: serverAdapter,
 });
 
 app.use('/admin/queues', serverAdapter.getRouter());
+app.use('/admin/scheduler', schedulerController);
 
 // Setup Swagger UI for API documentation
 const openApiDocument = generateOpenApiDocument();
@@ -49,11 +59,19 @@ app.get('/health', async (_req, res) => {
   }
 });
 
+// Record who made each change in the audit log
+app.use(auditActor);
+
 // Mount routers
 app.use('/users', usersController);
+app.use('/phone-numbers/import', phoneNumberImportsController); // before /phone-numbers/:id
 app.use('/phone-numbers', phoneNumbersController);
 app.use('/call-schedules', callSchedulesController);
+app.use('/holiday-calendars', holidayCalendarsController);
 app.use('/call-campaigns', callCampaignsController);
+app.use('/suppression-lists', suppressionListsController);
+app.use('/dialing-limits', dialingLimitsController);
+app.use('/webhooks/telephony', telephonyWebhooksController);
 
 // add test route GET to queue
 app.get('/test-queue', async (_req, res) => {
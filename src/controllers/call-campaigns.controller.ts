@@ -9,28 +9,78 @@ import {
   PhoneNumberNotFoundError,
   CallTaskAlreadyExistsError,
   InvalidScheduleError,
+  InvalidCampaignPeriodError,
+  CampaignEndedError,
+  InvalidCampaignTransitionError,
+  CampaignClosedError,
+  ConcurrencySlotNotFoundError,
+  InvalidCallerIdError,
 } from '../services/call-campaigns.service';
+import { CampaignAction } from '../lib/campaign_lifecycle';
+import { auditLogEntrySchema, auditLogQuerySchema, DEFAULT_AUDIT_LIMIT } from '../lib/audit';
+import {
+  InvalidMetricsRangeError,
+  MetricsInterval,
+  metricsQuerySchema,
+  metricsResponseSchema,
+} from '../lib/campaign_metrics';
+import { campaignCounterFields } from '../lib/campaign_counters';
+import { DEFAULT_CAMPAIGN_PRIORITY, MAX_CAMPAIGN_PRIORITY, MIN_CAMPAIGN_PRIORITY } from '../lib/dispatch_priority';
 import { validate } from '../middleware/validate';
 import { registry } from '../lib/openapi';
+import { retryPolicySchema } from '../lib/retry_policy';
+import { scheduleRulesSchema } from '../lib/schedule_utils';
 
 // Extend Zod with OpenAPI support
 extendZodWithOpenApi(z);
 
 const router = Router();
 
+// Optional datetime fields: undefined leaves the field unchanged, null clears it
+function parseOptionalDate(value?: string | null) {
+  return value === undefined || value === null ? value : new Date(value);
+}
+
+// Per-outcome retry rules; outcomes left out use the defaults
+const CampaignPrioritySchema = z
+  .number()
+  .int()
+  .min(MIN_CAMPAIGN_PRIORITY)
+  .max(MAX_CAMPAIGN_PRIORITY)
+  .openapi({
+    description: `Dispatch priority from ${MIN_CAMPAIGN_PRIORITY} to ${MAX_CAMPAIGN_PRIORITY}, due calls of higher-priority campaigns are dialed first (default ${DEFAULT_CAMPAIGN_PRIORITY})`,
+    example: 8,
+  });
+
+const RetryPolicySchema = retryPolicySchema.openapi({
+  description:
+    'Retry rules per call outcome (failed, busy, no_answer, voicemail, rejected, invalid_number, carrier_error). invalid_number is never retried and marks the phone number invalid.',
+  example: {
+    busy: { retry: true, delay_seconds: 600 },
+    voicemail: { retry: false },
+  },
+});
+
+// Persisted lifecycle state of a campaign
+const CampaignLifecycleStatusSchema = z
+  .enum(['draft', 'scheduled', 'running', 'paused', 'completed', 'cancelled', 'archived'])
+  .openapi({
+    description:
+      'Lifecycle state: draft until started, scheduled until starts_at, running while calls are placed, then completed (ends_at reached or every task finished), or paused / cancelled through their routes; finished campaigns can be archived',
+    example: 'running',
+  });
+
 // Reusable CallSchedule response schema (nested in campaign response)
 const CallScheduleNestedSchema = z.object({
   id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   name: z.string().openapi({ example: 'Business Hours Schedule' }),
   time_zone: z.string().openapi({ example: 'America/New_York' }),
-  schedule_rules: z.any().openapi({
-    example: {
-      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
-      start_time: '09:00',
-      end_time: '17:00',
-    },
-  }),
+  schedule_rules: scheduleRulesSchema,
+  use_contact_time_zone: z.boolean().openapi({ example: false }),
+  holiday_calendar_id: z.string().uuid().nullable().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  valid_from: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  valid_until: z.string().datetime().nullable().openapi({ example: '2024-03-31T23:59:59Z' }),
   created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
   updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
 });
@@ -40,15 +90,29 @@ const CallCampaignResponseSchema = z.object({
   id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   name: z.string().openapi({ example: 'Q1 Sales Campaign' }),
-  is_paused: z.boolean().openapi({ example: true }),
+  status: CampaignLifecycleStatusSchema,
   schedule_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   max_concurrent_calls: z.number().int().openapi({ example: 5 }),
   max_retries: z.number().int().openapi({ example: 3 }),
   retry_delay_seconds: z.number().int().openapi({ example: 300 }),
+  priority: z.number().int().openapi({ example: 5 }),
+  retry_policy: RetryPolicySchema.nullable(),
+  caller_id: z.string().nullable().openapi({ example: '+12125550100' }),
+  starts_at: z.string().datetime().nullable().openapi({ example: '2024-01-08T00:00:00Z' }),
+  ends_at: z.string().datetime().nullable().openapi({ example: '2024-01-31T23:59:59Z' }),
   total_tasks: z.number().int().openapi({ example: 0 }),
   completed_tasks: z.number().int().openapi({ example: 0 }),
   failed_tasks: z.number().int().openapi({ example: 0 }),
+  skipped_tasks: z.number().int().openapi({ example: 0 }),
+  expired_tasks: z.number().int().openapi({
+    description: 'Tasks still pending when the campaign reached ends_at',
+    example: 0,
+  }),
   retries_attempted: z.number().int().openapi({ example: 0 }),
+  expired_leases: z.number().int().openapi({
+    description: 'Claimed tasks that were handed back because their lease ran out (lost job, crashed worker)',
+    example: 0,
+  }),
   created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
   updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
   call_schedules: CallScheduleNestedSchema,
@@ -73,10 +137,6 @@ const createCallCampaignSchema = z.object({
       description: 'Schedule ID',
       example: '123e4567-e89b-12d3-a456-426614174000',
     }),
-    is_paused: z.boolean().optional().openapi({
-      description: 'Whether the campaign is paused',
-      example: true,
-    }),
     max_concurrent_calls: z
       .number()
       .int()
@@ -104,6 +164,20 @@ const createCallCampaignSchema = z.object({
         description: 'Delay between retries in seconds',
         example: 300,
       }),
+    priority: CampaignPrioritySchema.optional(),
+    retry_policy: RetryPolicySchema.optional(),
+    caller_id: z.string().min(1).max(50).nullable().optional().openapi({
+      description: "Number the calls are placed from, stored in E.164. Defaults to the provider's number",
+      example: '+12125550100',
+    }),
+    starts_at: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+      description: 'No calls are placed before this instant',
+      example: '2024-01-08T00:00:00Z',
+    }),
+    ends_at: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+      description: 'No calls are placed from this instant on, tasks still pending then expire',
+      example: '2024-01-31T23:59:59Z',
+    }),
   }),
 });
 
@@ -132,7 +206,7 @@ registry.registerPath({
       },
     },
     400: {
-      description: 'Validation error',
+      description: 'Validation error or ends_at not after starts_at',
     },
     404: {
       description: 'User or schedule not found',
@@ -143,15 +217,31 @@ registry.registerPath({
 // Create call campaign
 router.post('/', validate(createCallCampaignSchema), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { user_id, name, schedule_id, is_paused, max_concurrent_calls, max_retries, retry_delay_seconds } = req.body;
+    const {
+      user_id,
+      name,
+      schedule_id,
+      max_concurrent_calls,
+      max_retries,
+      retry_delay_seconds,
+      priority,
+      retry_policy,
+      caller_id,
+      starts_at,
+      ends_at,
+    } = req.body;
     const callCampaign = await callCampaignService.createCallCampaign({
       user_id,
       name,
       schedule_id,
-      is_paused,
       max_concurrent_calls,
       max_retries,
       retry_delay_seconds,
+      priority,
+      retry_policy,
+      caller_id,
+      starts_at: parseOptionalDate(starts_at),
+      ends_at: parseOptionalDate(ends_at),
     });
     res.status(201).json(callCampaign);
   } catch (error) {
@@ -159,6 +249,10 @@ router.post('/', validate(createCallCampaignSchema), async (req: Request, res: R
       res.status(404).json({ error: error.message });
       return;
     }
+    if (error instanceof InvalidCampaignPeriodError || error instanceof InvalidCallerIdError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     throw error;
   }
 });
@@ -294,10 +388,6 @@ const updateCallCampaignSchema = z.object({
           description: 'Campaign name',
           example: 'Updated Campaign',
         }),
-      is_paused: z.boolean().optional().openapi({
-        description: 'Whether the campaign is paused',
-        example: true,
-      }),
       schedule_id: z.string().uuid('Invalid schedule ID format').optional().openapi({
         description: 'Schedule ID',
         example: '123e4567-e89b-12d3-a456-426614174000',
@@ -329,15 +419,33 @@ const updateCallCampaignSchema = z.object({
           description: 'Delay between retries in seconds',
           example: 600,
         }),
+      priority: CampaignPrioritySchema.optional(),
+      retry_policy: RetryPolicySchema.optional(),
+      caller_id: z.string().min(1).max(50).nullable().optional().openapi({
+        description: "Number the calls are placed from, null to use the provider's number",
+        example: '+12125550100',
+      }),
+      starts_at: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+        description: 'No calls are placed before this instant, null to remove the bound',
+        example: '2024-01-08T00:00:00Z',
+      }),
+      ends_at: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+        description: 'No calls are placed from this instant on, null to remove the bound',
+        example: '2024-01-31T23:59:59Z',
+      }),
     })
     .refine(
       (data) =>
         data.name ||
-        data.is_paused !== undefined ||
         data.schedule_id ||
         data.max_concurrent_calls !== undefined ||
         data.max_retries !== undefined ||
-        data.retry_delay_seconds !== undefined,
+        data.retry_delay_seconds !== undefined ||
+        data.priority !== undefined ||
+        data.retry_policy !== undefined ||
+        data.caller_id !== undefined ||
+        data.starts_at !== undefined ||
+        data.ends_at !== undefined,
       {
         message: 'At least one field must be provided',
       }
@@ -370,7 +478,7 @@ registry.registerPath({
       },
     },
     400: {
-      description: 'Validation error',
+      description: 'Validation error or ends_at not after starts_at',
     },
     404: {
       description: 'Call campaign or schedule not found',
@@ -382,15 +490,30 @@ registry.registerPath({
 router.put('/:id', validate(updateCallCampaignSchema), async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, is_paused, schedule_id, max_concurrent_calls, max_retries, retry_delay_seconds } = req.body;
+    const {
+      name,
+      schedule_id,
+      max_concurrent_calls,
+      max_retries,
+      retry_delay_seconds,
+      priority,
+      retry_policy,
+      caller_id,
+      starts_at,
+      ends_at,
+    } = req.body;
 
     const callCampaign = await callCampaignService.updateCallCampaign(id, {
       name,
-      is_paused,
       schedule_id,
       max_concurrent_calls,
       max_retries,
       retry_delay_seconds,
+      priority,
+      retry_policy,
+      caller_id,
+      starts_at: parseOptionalDate(starts_at),
+      ends_at: parseOptionalDate(ends_at),
     });
     res.json(callCampaign);
   } catch (error) {
@@ -398,6 +521,10 @@ router.put('/:id', validate(updateCallCampaignSchema), async (req: Request, res:
       res.status(404).json({ error: error.message });
       return;
     }
+    if (error instanceof InvalidCampaignPeriodError || error instanceof InvalidCallerIdError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     throw error;
   }
 });
@@ -462,10 +589,7 @@ const getCampaignStatusSchema = z.object({
 // Response schema for campaign status
 const CampaignStatusResponseSchema = z.object({
   campaign_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
-  status: z.enum(['paused', 'pending', 'in-progress', 'completed', 'failed']).openapi({
-    description: 'Campaign status',
-    example: 'in-progress',
-  }),
+  status: CampaignLifecycleStatusSchema,
 });
 
 // Register GET /call-campaigns/:id/status endpoint
@@ -474,7 +598,7 @@ registry.registerPath({
   path: '/call-campaigns/{id}/status',
   tags: ['Call Campaigns'],
   summary: 'Get campaign status',
-  description: 'Returns the current status of a campaign based on its pause state and task statuses',
+  description: 'Returns the lifecycle status of a campaign',
   request: {
     params: getCampaignStatusSchema.shape.params,
   },
@@ -511,6 +635,545 @@ router.get('/:id/status', validate(getCampaignStatusSchema), async (req: Request
   }
 });
 
+// Schema for getting campaign statistics
+const getCampaignStatsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid call campaign ID format').openapi({
+      description: 'Call campaign ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Response schema for campaign statistics
+const CampaignStatsResponseSchema = z.object({
+  campaign: z.object({
+    id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+    name: z.string().openapi({ example: 'Q1 Sales Campaign' }),
+    status: CampaignLifecycleStatusSchema,
+    max_concurrent_calls: z.number().int().openapi({ example: 5 }),
+    total_tasks: z.number().int().openapi({ example: 1000 }),
+    completed_tasks: z.number().int().openapi({ example: 420 }),
+    failed_tasks: z.number().int().openapi({ example: 35 }),
+    skipped_tasks: z.number().int().openapi({ example: 12 }),
+    expired_tasks: z.number().int().openapi({ example: 0 }),
+    retries_attempted: z.number().int().openapi({ example: 180 }),
+    expired_leases: z.number().int().openapi({ example: 2 }),
+  }),
+  task_breakdown: z.array(
+    z.object({
+      status: z.enum(['pending', 'in_progress', 'completed', 'failed', 'skipped', 'expired']).openapi({ example: 'pending' }),
+      _count: z.number().int().openapi({ example: 533 }),
+    })
+  ),
+  total_call_logs: z.number().int().openapi({ example: 647 }),
+  attempts_histogram: z
+    .array(
+      z.object({
+        attempts: z.number().int().openapi({ example: 1 }),
+        tasks: z.number().int().openapi({ example: 300 }),
+      })
+    )
+    .openapi({ description: 'Number of tasks per number of dial attempts made for them' }),
+  connect_rate: z.number().nullable().openapi({
+    description: 'Share of finished calls that were answered (completed), null before the first call finishes',
+    example: 0.65,
+  }),
+  call_duration_seconds: z
+    .object({
+      average: z.number().nullable().openapi({ example: 48.2 }),
+      p50: z.number().nullable().openapi({ example: 41 }),
+      p90: z.number().nullable().openapi({ example: 95 }),
+      p99: z.number().nullable().openapi({ example: 240 }),
+    })
+    .openapi({ description: 'Duration of calls from started_at to ended_at, null without any timed call' }),
+  eta: z
+    .object({
+      remaining_tasks: z.number().int().openapi({ description: 'Pending and in-progress tasks', example: 533 }),
+      estimated_attempts: z.number().int().openapi({
+        description: 'Dial attempts the remaining tasks are expected to take, from the attempts per task so far',
+        example: 800,
+      }),
+      estimated_completion_at: z.string().datetime().nullable().openapi({ example: '2024-01-18T15:30:00Z' }),
+      unavailable_reason: z
+        .enum(['campaign_closed', 'no_call_data', 'no_schedule', 'after_campaign_end', 'beyond_horizon'])
+        .nullable()
+        .openapi({ description: 'Why there is no estimated_completion_at', example: null }),
+    })
+    .openapi({
+      description:
+        "Estimate of when the remaining tasks are done, dialing max_concurrent_calls at a time in the schedule's calling windows",
+    }),
+});
+
+// Register GET /call-campaigns/:id/stats endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/call-campaigns/{id}/stats',
+  tags: ['Call Campaigns'],
+  summary: 'Get campaign statistics',
+  description:
+    'Returns the task breakdown by status, attempts histogram, connect rate, call duration percentiles and an estimated completion time of a campaign',
+  request: {
+    params: getCampaignStatsSchema.shape.params,
+  },
+  responses: {
+    200: {
+      description: 'Campaign statistics retrieved successfully',
+      content: {
+        'application/json': {
+          schema: CampaignStatsResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid call campaign ID format',
+    },
+    404: {
+      description: 'Call campaign not found',
+    },
+  },
+});
+
+// Get campaign statistics
+router.get('/:id/stats', validate(getCampaignStatsSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stats = await callCampaignService.getCampaignStats(req.params.id);
+    res.json(stats);
+  } catch (error) {
+    if (error instanceof CallCampaignNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for getting campaign metrics
+const getCampaignMetricsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid call campaign ID format').openapi({
+      description: 'Call campaign ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+  query: metricsQuerySchema,
+});
+
+// Register GET /call-campaigns/:id/metrics endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/call-campaigns/{id}/metrics',
+  tags: ['Call Campaigns'],
+  summary: 'Get campaign call metrics over time',
+  description:
+    'Returns attempts, completions, failures, retries and average call duration of the campaign per 5m, 1h or 1d bucket',
+  request: {
+    params: getCampaignMetricsSchema.shape.params,
+    query: getCampaignMetricsSchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'Campaign metrics retrieved successfully',
+      content: {
+        'application/json': {
+          schema: metricsResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error, or the range is empty or has too many buckets',
+    },
+    404: {
+      description: 'Call campaign not found',
+    },
+  },
+});
+
+// Get campaign metrics
+router.get('/:id/metrics', validate(getCampaignMetricsSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { interval, from, to } = req.query;
+
+    const metrics = await callCampaignService.getCampaignMetrics(id, {
+      interval: interval as MetricsInterval | undefined,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+    });
+    res.json(metrics);
+  } catch (error) {
+    if (error instanceof CallCampaignNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof InvalidMetricsRangeError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+const changeCampaignStatusSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid call campaign ID format').openapi({
+      description: 'Call campaign ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+const lifecycleRoutes: { action: CampaignAction; summary: string; description: string }[] = [
+  {
+    action: 'start',
+    summary: 'Start a draft campaign',
+    description: 'Moves a draft campaign to running, or to scheduled when its starts_at is still ahead. Requires a schedule.',
+  },
+  {
+    action: 'pause',
+    summary: 'Pause a campaign',
+    description: 'Stops placing calls for a scheduled or running campaign. Queued tasks are handed back when a worker picks them up.',
+  },
+  {
+    action: 'resume',
+    summary: 'Resume a paused campaign',
+    description: 'Moves a paused campaign back to running, or to scheduled when its starts_at is still ahead.',
+  },
+  {
+    action: 'cancel',
+    summary: 'Cancel a campaign',
+    description:
+      'Cancels a campaign that has not finished. Jobs still waiting in the call task queue are removed. Their tasks and the pending ones end as skipped with skip_reason campaign_cancelled instead of being released back to pending, so a cancelled campaign keeps no open tasks and every undialed task is counted. Calls already in progress finish.',
+  },
+  {
+    action: 'archive',
+    summary: 'Archive a finished campaign',
+    description: 'Archives a completed or cancelled campaign.',
+  },
+];
+
+for (const { action, summary, description } of lifecycleRoutes) {
+  // Register POST /call-campaigns/:id/<action> endpoint
+  registry.registerPath({
+    method: 'post',
+    path: `/call-campaigns/{id}/${action}`,
+    tags: ['Call Campaigns'],
+    summary,
+    description,
+    request: {
+      params: changeCampaignStatusSchema.shape.params,
+    },
+    responses: {
+      200: {
+        description: 'Campaign status changed',
+        content: {
+          'application/json': {
+            schema: CallCampaignResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid call campaign ID format, or starting a campaign without a schedule',
+      },
+      404: {
+        description: 'Call campaign not found',
+      },
+      409: {
+        description: `The campaign's current status does not allow ${action}, or the campaign has ended`,
+      },
+    },
+  });
+
+  router.post(`/:id/${action}`, validate(changeCampaignStatusSchema), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const callCampaign = await callCampaignService.changeCampaignStatus(req.params.id, action);
+      res.json(callCampaign);
+    } catch (error) {
+      if (error instanceof CallCampaignNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof InvalidCampaignTransitionError || error instanceof CampaignEndedError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error instanceof InvalidScheduleError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  });
+}
+
+// Schema for reconciling campaign counters
+const reconcileCampaignSchema = z.object({
+  params: changeCampaignStatusSchema.shape.params,
+  body: z
+    .object({
+      repair: z.boolean().optional().openapi({
+        description: 'Overwrite the drifted counters with the recomputed values, defaults to false (report only)',
+        example: true,
+      }),
+    })
+    .optional(),
+});
+
+const CounterNameSchema = z.enum(campaignCounterFields);
+
+// Response schema for a counter reconciliation
+const ReconcileCampaignResponseSchema = z.object({
+  campaign_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  counters: z.record(CounterNameSchema, z.number().int()).openapi({
+    description: "Counters recomputed from the campaign's call tasks",
+    example: {
+      total_tasks: 1000,
+      completed_tasks: 420,
+      failed_tasks: 35,
+      skipped_tasks: 12,
+      expired_tasks: 0,
+      retries_attempted: 180,
+    },
+  }),
+  discrepancies: z
+    .array(
+      z.object({
+        counter: CounterNameSchema,
+        stored: z.number().int().openapi({ example: 421 }),
+        actual: z.number().int().openapi({ example: 420 }),
+      })
+    )
+    .openapi({ description: 'Counters whose stored value differs from the recomputed one' }),
+  repaired: z.boolean().openapi({ description: 'Whether the stored counters were overwritten', example: true }),
+});
+
+// Register POST /call-campaigns/:id/reconcile endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/call-campaigns/{id}/reconcile',
+  tags: ['Call Campaigns'],
+  summary: 'Reconcile campaign counters',
+  description:
+    'Recomputes total, completed, failed, skipped and expired tasks and retries attempted from the call tasks, reports the counters that drifted and optionally repairs them',
+  request: {
+    params: reconcileCampaignSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: reconcileCampaignSchema.shape.body,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Counters reconciled',
+      content: {
+        'application/json': {
+          schema: ReconcileCampaignResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error',
+    },
+    404: {
+      description: 'Call campaign not found',
+    },
+  },
+});
+
+// Reconcile campaign counters
+router.post('/:id/reconcile', validate(reconcileCampaignSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await callCampaignService.reconcileCampaignCounters(req.params.id, {
+      repair: req.body?.repair ?? false,
+    });
+    res.json(result);
+  } catch (error) {
+    if (error instanceof CallCampaignNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Response schema for the concurrency slots of a campaign
+const ConcurrencySlotsResponseSchema = z.object({
+  campaign_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  max_concurrent_calls: z.number().int().openapi({ example: 5 }),
+  slots: z.array(
+    z.object({
+      call_task_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+      claimed_at: z.string().datetime().nullable().openapi({
+        description: 'Claim of the task the slot was taken for',
+        example: '2024-01-15T09:29:12Z',
+      }),
+      holder: z.string().nullable().openapi({ description: 'Worker process that took the slot', example: 'worker-1:4242' }),
+      acquired_at: z.string().datetime().nullable().openapi({ example: '2024-01-15T09:30:00Z' }),
+      expires_at: z.string().datetime().openapi({
+        description: 'The slot frees up at this instant unless its holder refreshes it',
+        example: '2024-01-15T09:31:00Z',
+      }),
+    })
+  ),
+});
+
+// Register GET /call-campaigns/:id/concurrency-slots endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/call-campaigns/{id}/concurrency-slots',
+  tags: ['Call Campaigns'],
+  summary: "List the holders of a campaign's concurrency slots",
+  description:
+    'Each call in progress holds one of the max_concurrent_calls slots of its campaign. Slots expire unless their worker keeps refreshing them, so a crashed worker cannot leak one.',
+  request: {
+    params: changeCampaignStatusSchema.shape.params,
+  },
+  responses: {
+    200: {
+      description: 'Slots currently held',
+      content: {
+        'application/json': {
+          schema: ConcurrencySlotsResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid call campaign ID format',
+    },
+    404: {
+      description: 'Call campaign not found',
+    },
+  },
+});
+
+// List campaign concurrency slots
+router.get(
+  '/:id/concurrency-slots',
+  validate(changeCampaignStatusSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const slots = await callCampaignService.getConcurrencySlots(req.params.id);
+      res.json(slots);
+    } catch (error) {
+      if (error instanceof CallCampaignNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+// Schema for force-releasing a concurrency slot
+const releaseConcurrencySlotSchema = z.object({
+  params: changeCampaignStatusSchema.shape.params.extend({
+    callTaskId: z.string().uuid('Invalid call task ID format').openapi({
+      description: 'Call task holding the slot',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register DELETE /call-campaigns/:id/concurrency-slots/:callTaskId endpoint
+registry.registerPath({
+  method: 'delete',
+  path: '/call-campaigns/{id}/concurrency-slots/{callTaskId}',
+  tags: ['Call Campaigns'],
+  summary: 'Force-release a concurrency slot',
+  description: 'Frees the slot held by a call task, e.g. for a call known to be over whose outcome never arrived',
+  request: {
+    params: releaseConcurrencySlotSchema.shape.params,
+  },
+  responses: {
+    204: {
+      description: 'Slot released',
+    },
+    400: {
+      description: 'Invalid call campaign or call task ID format',
+    },
+    404: {
+      description: 'Call campaign not found, or the call task holds no slot',
+    },
+  },
+});
+
+// Force-release a concurrency slot
+router.delete(
+  '/:id/concurrency-slots/:callTaskId',
+  validate(releaseConcurrencySlotSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await callCampaignService.releaseConcurrencySlot(req.params.id, req.params.callTaskId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof CallCampaignNotFoundError || error instanceof ConcurrencySlotNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+const getCampaignHistorySchema = z.object({
+  params: changeCampaignStatusSchema.shape.params,
+  query: auditLogQuerySchema,
+});
+
+// Register GET /call-campaigns/:id/history endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/call-campaigns/{id}/history',
+  tags: ['Call Campaigns'],
+  summary: 'Get the audit trail of a campaign',
+  description: 'Every change made to the campaign through the API, with the actor and the fields before and after',
+  request: {
+    params: getCampaignHistorySchema.shape.params,
+    query: getCampaignHistorySchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'Audit log entries, newest first',
+      content: {
+        'application/json': {
+          schema: z.array(auditLogEntrySchema),
+        },
+      },
+    },
+    400: {
+      description: 'Validation error',
+    },
+    404: {
+      description: 'Call campaign not found',
+    },
+  },
+});
+
+// Get campaign history
+router.get('/:id/history', validate(getCampaignHistorySchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { from, to, limit } = req.query;
+
+    const history = await callCampaignService.getCampaignHistory(id, {
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+      limit: limit ? Number(limit) : DEFAULT_AUDIT_LIMIT,
+    });
+    res.json(history);
+  } catch (error) {
+    if (error instanceof CallCampaignNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
 // Schema for adding phone number to campaign
 const addPhoneNumberToCampaignSchema = z.object({
   params: z.object({
@@ -533,9 +1196,17 @@ const CallTaskResponseSchema = z.object({
   user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   campaign_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   phone_number_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
-  status: z.enum(['pending', 'in-progress', 'completed', 'failed']).openapi({ example: 'pending' }),
+  status: z.enum(['pending', 'in-progress', 'completed', 'failed', 'skipped', 'expired']).openapi({ example: 'pending' }),
   scheduled_at: z.string().datetime().openapi({ example: '2024-01-01T09:00:00Z' }),
   retry_count: z.number().int().openapi({ example: 0 }),
+  priority: z.number().int().openapi({
+    description: 'Priority within the campaign, 1 for retries which are dialed before new calls, else 0',
+    example: 0,
+  }),
+  skip_reason: z.string().nullable().openapi({
+    description: 'Why the task was skipped without dialing (do_not_call, invalid, suppressed, no_schedule_slot or campaign_cancelled)',
+    example: 'do_not_call',
+  }),
   created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
   updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
 });
@@ -546,7 +1217,7 @@ registry.registerPath({
   path: '/call-campaigns/{id}/add-phone-number',
   tags: ['Call Campaigns'],
   summary: 'Add a phone number to a campaign',
-  description: 'Creates a call task for the given phone number in the campaign. The task will be scheduled based on the campaign\'s schedule rules.',
+  description: 'Creates a call task for the given phone number in the campaign. The task will be scheduled based on the campaign\'s schedule rules. Numbers marked do_not_call or invalid get a task with status skipped that is never dialed.',
   request: {
     params: addPhoneNumberToCampaignSchema.shape.params,
     body: {
@@ -573,7 +1244,7 @@ registry.registerPath({
       description: 'Campaign or phone number not found',
     },
     409: {
-      description: 'Call task already exists for this phone number in the campaign',
+      description: 'Call task already exists for this phone number in the campaign, or the campaign is closed or has ended',
     },
   },
 });
@@ -593,7 +1264,135 @@ router.post(
         res.status(404).json({ error: error.message });
         return;
       }
-      if (error instanceof CallTaskAlreadyExistsError) {
+      if (
+        error instanceof CallTaskAlreadyExistsError ||
+        error instanceof CampaignEndedError ||
+        error instanceof CampaignClosedError
+      ) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error instanceof InvalidScheduleError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+// Schema for adding many phone numbers to a campaign
+const addPhoneNumbersToCampaignSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid call campaign ID format').openapi({
+      description: 'Call campaign ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+  body: z
+    .object({
+      phone_number_ids: z
+        .array(z.string().uuid('Invalid phone number ID format'))
+        .min(1, 'At least one phone number ID is required')
+        .max(100000, 'Too many phone number IDs')
+        .optional()
+        .openapi({
+          description: 'Phone number IDs to add to the campaign',
+          example: ['123e4567-e89b-12d3-a456-426614174000'],
+        }),
+      filter: z
+        .object({
+          status: z.enum(['valid', 'invalid', 'do_not_call']).optional().openapi({
+            description: 'Only numbers with this status',
+            example: 'valid',
+          }),
+        })
+        .optional()
+        .openapi({ description: "Select the campaign owner's phone numbers instead of listing IDs" }),
+    })
+    .refine((data) => Boolean(data.phone_number_ids) !== Boolean(data.filter), {
+      message: 'Provide either phone_number_ids or filter',
+    }),
+});
+
+// Response schema for a bulk add
+const BulkAddResponseSchema = z.object({
+  campaign_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  summary: z.object({
+    created: z.number().int().openapi({ example: 2 }),
+    skipped: z.number().int().openapi({ example: 1 }),
+    duplicate: z.number().int().openapi({ example: 0 }),
+    not_owned: z.number().int().openapi({ example: 0 }),
+    not_found: z.number().int().openapi({ example: 0 }),
+  }),
+  results: z.array(
+    z.object({
+      phone_number_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+      result: z.enum(['created', 'skipped', 'duplicate', 'not_owned', 'not_found']).openapi({
+        description: 'skipped: added as a skipped task because the number is do_not_call or invalid',
+        example: 'created',
+      }),
+      call_task_id: z.string().uuid().optional().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+      skip_reason: z.string().optional().openapi({ example: 'do_not_call' }),
+    })
+  ),
+});
+
+// Register POST /call-campaigns/:id/add-phone-numbers endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/call-campaigns/{id}/add-phone-numbers',
+  tags: ['Call Campaigns'],
+  summary: 'Add many phone numbers to a campaign',
+  description:
+    "Creates call tasks for a list of phone numbers, or for all of the campaign owner's numbers matching a filter, in bulk. Numbers already in the campaign are reported as duplicates and numbers owned by another user as not_owned; do_not_call and invalid numbers get skipped tasks.",
+  request: {
+    params: addPhoneNumbersToCampaignSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: addPhoneNumbersToCampaignSchema.shape.body,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Per-number report',
+      content: {
+        'application/json': {
+          schema: BulkAddResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error or invalid schedule',
+    },
+    404: {
+      description: 'Campaign not found',
+    },
+    409: {
+      description: 'The campaign is closed or has ended',
+    },
+  },
+});
+
+// Add many phone numbers to campaign
+router.post(
+  '/:id/add-phone-numbers',
+  validate(addPhoneNumbersToCampaignSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { phone_number_ids, filter } = req.body;
+      const report = await callCampaignService.addPhoneNumbersToCampaign(id, { phone_number_ids, filter });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof CallCampaignNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof CampaignEndedError || error instanceof CampaignClosedError) {
         res.status(409).json({ error: error.message });
         return;
       }
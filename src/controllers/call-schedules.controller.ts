@@ -4,29 +4,37 @@ import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
 import {
   callScheduleService,
   CallScheduleNotFoundError,
+  HolidayCalendarNotFoundError,
+  InvalidHolidayCalendarError,
+  InvalidSchedulePeriodError,
   UserNotFoundError,
 } from '../services/call-schedules.service';
 import { validate } from '../middleware/validate';
 import { registry } from '../lib/openapi';
+import { scheduleRulesSchema } from '../lib/schedule_utils';
+import { isValidTimeZone } from '../lib/contact_time_zone';
 
 // Extend Zod with OpenAPI support
 extendZodWithOpenApi(z);
 
 const router = Router();
 
+// Optional datetime fields: undefined leaves the field unchanged, null clears it
+function parseOptionalDate(value?: string | null) {
+  return value === undefined || value === null ? value : new Date(value);
+}
+
 // Reusable CallSchedule response schema
 const CallScheduleResponseSchema = z.object({
   id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   name: z.string().openapi({ example: 'Business Hours Schedule' }),
   time_zone: z.string().openapi({ example: 'America/New_York' }),
-  schedule_rules: z.any().openapi({
-    example: {
-      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
-      start_time: '09:00',
-      end_time: '17:00',
-    },
-  }),
+  schedule_rules: scheduleRulesSchema,
+  use_contact_time_zone: z.boolean().openapi({ example: false }),
+  holiday_calendar_id: z.string().uuid().nullable().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  valid_from: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  valid_until: z.string().datetime().nullable().openapi({ example: '2024-03-31T23:59:59Z' }),
   created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
   updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
 });
@@ -54,13 +62,23 @@ const createCallScheduleSchema = z.object({
         description: 'Time zone (IANA format)',
         example: 'America/New_York',
       }),
-    schedule_rules: z.any().openapi({
-      description: 'Schedule rules (JSON object)',
-      example: {
-        days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
-        start_time: '09:00',
-        end_time: '17:00',
-      },
+    schedule_rules: scheduleRulesSchema,
+    use_contact_time_zone: z.boolean().optional().openapi({
+      description:
+        "Evaluate the schedule in each contact's local time zone (explicit phone number time_zone, else derived from the number), falling back to time_zone",
+      example: true,
+    }),
+    holiday_calendar_id: z.string().uuid('Invalid holiday calendar ID format').nullable().optional().openapi({
+      description: 'Holiday calendar whose holidays and blackout dates are skipped',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+    valid_from: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+      description: 'No windows open before this instant',
+      example: '2024-01-01T00:00:00Z',
+    }),
+    valid_until: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+      description: 'No windows open from this instant on',
+      example: '2024-03-31T23:59:59Z',
     }),
   }),
 });
@@ -90,10 +108,10 @@ registry.registerPath({
       },
     },
     400: {
-      description: 'Validation error',
+      description: 'Validation error, holiday calendar of another user or valid_until not after valid_from',
     },
     404: {
-      description: 'User not found',
+      description: 'User or holiday calendar not found',
     },
   },
 });
@@ -101,19 +119,28 @@ registry.registerPath({
 // Create call schedule
 router.post('/', validate(createCallScheduleSchema), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { user_id, name, time_zone, schedule_rules } = req.body;
+    const { user_id, name, time_zone, schedule_rules, use_contact_time_zone, holiday_calendar_id, valid_from, valid_until } =
+      req.body;
     const callSchedule = await callScheduleService.createCallSchedule({
       user_id,
       name,
       time_zone,
       schedule_rules,
+      use_contact_time_zone,
+      holiday_calendar_id,
+      valid_from: parseOptionalDate(valid_from),
+      valid_until: parseOptionalDate(valid_until),
     });
     res.status(201).json(callSchedule);
   } catch (error) {
-    if (error instanceof UserNotFoundError) {
+    if (error instanceof UserNotFoundError || error instanceof HolidayCalendarNotFoundError) {
       res.status(404).json({ error: error.message });
       return;
     }
+    if (error instanceof InvalidHolidayCalendarError || error instanceof InvalidSchedulePeriodError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     throw error;
   }
 });
@@ -230,6 +257,125 @@ router.get('/:id', validate(getCallScheduleByIdSchema), async (req: Request, res
   }
 });
 
+// Preview length in days when not given, and the most that can be requested
+const DEFAULT_PREVIEW_DAYS = 7;
+const MAX_PREVIEW_DAYS = 90;
+
+const ScheduleWindowOccurrenceSchema = z.object({
+  date: z.string().openapi({ description: 'Local date the window opens on', example: '2024-03-11' }),
+  weekday: z.string().openapi({ example: 'monday' }),
+  local_start: z.string().openapi({ example: '2024-03-11T09:00' }),
+  local_end: z.string().openapi({ example: '2024-03-11T17:00' }),
+  start: z.string().datetime().openapi({ example: '2024-03-11T13:00:00Z' }),
+  end: z.string().datetime().openapi({ example: '2024-03-11T21:00:00Z' }),
+  utc_offset: z.string().openapi({ example: '-04:00' }),
+  dst_transition: z.boolean().openapi({ description: 'The UTC offset changes while the window is open' }),
+  holiday: z.string().nullable().openapi({
+    description: 'Holiday or blackout period the window falls on; no calls are made in it',
+    example: null,
+  }),
+});
+
+const CallSchedulePreviewResponseSchema = z.object({
+  schedule_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  time_zone: z.string().openapi({ example: 'America/New_York' }),
+  from: z.string().datetime().openapi({ example: '2024-03-08T00:00:00Z' }),
+  days: z.number().int().openapi({ example: 7 }),
+  next_slot: z.string().datetime().nullable().openapi({
+    description: 'When a number added now would be scheduled, null if there is no slot within the scheduling horizon',
+    example: '2024-03-08T14:00:00Z',
+  }),
+  windows: z.array(ScheduleWindowOccurrenceSchema),
+  dst_transitions: z.array(
+    z.object({
+      at: z.string().datetime().openapi({ example: '2024-03-10T07:00:00Z' }),
+      offset_before: z.string().openapi({ example: '-05:00' }),
+      offset_after: z.string().openapi({ example: '-04:00' }),
+    })
+  ),
+  warnings: z.array(z.string()),
+});
+
+// Schema for previewing a call schedule
+const previewCallScheduleSchema = z.object({
+  params: getCallScheduleByIdSchema.shape.params,
+  query: z.object({
+    from: z.string().datetime('Invalid datetime').optional().openapi({
+      description: 'Start of the preview, defaults to now',
+      example: '2024-03-08T00:00:00Z',
+    }),
+    days: z
+      .string()
+      .regex(/^\d+$/, 'days must be a positive integer')
+      .refine((days) => Number(days) >= 1 && Number(days) <= MAX_PREVIEW_DAYS, {
+        message: `days must be between 1 and ${MAX_PREVIEW_DAYS}`,
+      })
+      .optional()
+      .openapi({ description: `Number of days to expand, defaults to ${DEFAULT_PREVIEW_DAYS}`, example: '14' }),
+    time_zone: z
+      .string()
+      .refine(isValidTimeZone, { message: 'Unknown IANA time zone' })
+      .optional()
+      .openapi({
+        description: "Evaluate in this time zone instead of the schedule's, e.g. to preview a contact's local windows",
+        example: 'America/Los_Angeles',
+      }),
+  }),
+});
+
+// Register GET /call-schedules/:id/preview endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/call-schedules/{id}/preview',
+  tags: ['Call Schedules'],
+  summary: 'Preview the upcoming calling windows of a schedule',
+  request: {
+    params: previewCallScheduleSchema.shape.params,
+    query: previewCallScheduleSchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'Upcoming windows in UTC and local time, with DST transitions, holidays and warnings',
+      content: {
+        'application/json': {
+          schema: CallSchedulePreviewResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error',
+    },
+    404: {
+      description: 'Call schedule not found',
+    },
+  },
+});
+
+// Preview call schedule
+router.get(
+  '/:id/preview',
+  validate(previewCallScheduleSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { from, days, time_zone } = req.query;
+
+      const preview = await callScheduleService.previewCallSchedule(id, {
+        from: from ? new Date(from as string) : undefined,
+        days: days ? Number(days) : DEFAULT_PREVIEW_DAYS,
+        time_zone: time_zone as string | undefined,
+      });
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof CallScheduleNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
 // Schema for updating a call schedule
 const updateCallScheduleSchema = z.object({
   params: z.object({
@@ -258,18 +404,37 @@ const updateCallScheduleSchema = z.object({
           description: 'Time zone (IANA format)',
           example: 'America/Los_Angeles',
         }),
-      schedule_rules: z.any().optional().openapi({
-        description: 'Schedule rules (JSON object)',
-        example: {
-          days: ['monday', 'wednesday', 'friday'],
-          start_time: '10:00',
-          end_time: '16:00',
-        },
+      schedule_rules: scheduleRulesSchema.optional(),
+      use_contact_time_zone: z.boolean().optional().openapi({
+        description: "Evaluate the schedule in each contact's local time zone, falling back to time_zone",
+        example: true,
+      }),
+      holiday_calendar_id: z.string().uuid('Invalid holiday calendar ID format').nullable().optional().openapi({
+        description: 'Holiday calendar whose holidays and blackout dates are skipped, null to detach',
+        example: '123e4567-e89b-12d3-a456-426614174000',
+      }),
+      valid_from: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+        description: 'No windows open before this instant, null to remove the bound',
+        example: '2024-01-01T00:00:00Z',
+      }),
+      valid_until: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+        description: 'No windows open from this instant on, null to remove the bound',
+        example: '2024-03-31T23:59:59Z',
       }),
     })
-    .refine((data) => data.name || data.time_zone || data.schedule_rules, {
-      message: 'At least one field must be provided',
-    }),
+    .refine(
+      (data) =>
+        data.name ||
+        data.time_zone ||
+        data.schedule_rules ||
+        data.use_contact_time_zone !== undefined ||
+        data.holiday_calendar_id !== undefined ||
+        data.valid_from !== undefined ||
+        data.valid_until !== undefined,
+      {
+        message: 'At least one field must be provided',
+      }
+    ),
 });
 
 // Register PUT /call-schedules/:id endpoint
@@ -298,10 +463,10 @@ registry.registerPath({
       },
     },
     400: {
-      description: 'Validation error',
+      description: 'Validation error, holiday calendar of another user or valid_until not after valid_from',
     },
     404: {
-      description: 'Call schedule not found',
+      description: 'Call schedule or holiday calendar not found',
     },
   },
 });
@@ -310,19 +475,27 @@ registry.registerPath({
 router.put('/:id', validate(updateCallScheduleSchema), async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, time_zone, schedule_rules } = req.body;
+    const { name, time_zone, schedule_rules, use_contact_time_zone, holiday_calendar_id, valid_from, valid_until } = req.body;
 
     const callSchedule = await callScheduleService.updateCallSchedule(id, {
       name,
       time_zone,
       schedule_rules,
+      use_contact_time_zone,
+      holiday_calendar_id,
+      valid_from: parseOptionalDate(valid_from),
+      valid_until: parseOptionalDate(valid_until),
     });
     res.json(callSchedule);
   } catch (error) {
-    if (error instanceof CallScheduleNotFoundError) {
+    if (error instanceof CallScheduleNotFoundError || error instanceof HolidayCalendarNotFoundError) {
       res.status(404).json({ error: error.message });
       return;
     }
+    if (error instanceof InvalidHolidayCalendarError || error instanceof InvalidSchedulePeriodError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     throw error;
   }
 });
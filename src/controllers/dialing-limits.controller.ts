@@ -0,0 +1,258 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { dialing_limit_scope } from '@prisma/client';
+import {
+  dialingLimitService,
+  DialingLimitNotFoundError,
+  InvalidDialingLimitTargetError,
+} from '../services/dialing-limits.service';
+import { validate } from '../middleware/validate';
+import { registry } from '../lib/openapi';
+import { telephonyProviderNames } from '../telephony';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+const router = Router();
+
+const DialingLimitScopeSchema = z.enum(['user', 'caller_id', 'trunk']).openapi({
+  description: 'What the limit applies to: every call of a user, every call from a caller ID, or every call through a trunk',
+  example: 'user',
+});
+
+// Reusable DialingLimit response schema
+const DialingLimitResponseSchema = z.object({
+  id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  scope: DialingLimitScopeSchema,
+  target: z.string().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  max_concurrent_calls: z.number().int().nullable().openapi({ example: 100 }),
+  max_calls_per_second: z.number().int().nullable().openapi({ example: 10 }),
+  created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+});
+
+const DialingLimitWithSlotsResponseSchema = DialingLimitResponseSchema.extend({
+  slots: z.array(
+    z.object({
+      call_task_id: z.string().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+      claimed_at: z.string().datetime().nullable().openapi({
+        description: 'Claim of the task the slot was taken for',
+        example: '2024-01-01T11:59:40Z',
+      }),
+      holder: z.string().nullable().openapi({ description: 'Worker process that took the slot', example: 'worker-1:4242' }),
+      acquired_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T12:00:00Z' }),
+      expires_at: z.string().datetime().openapi({
+        description: 'The slot frees up at this instant unless its holder refreshes it',
+        example: '2024-01-01T12:01:00Z',
+      }),
+    })
+  ),
+});
+
+// Schema for the scope and target in the path
+const dialingLimitTargetSchema = z.object({
+  params: z
+    .object({
+      scope: DialingLimitScopeSchema,
+      target: z.string().min(1).max(255).openapi({
+        description: `User ID, caller ID (E.164) or trunk (${telephonyProviderNames.join(', ')})`,
+        example: '123e4567-e89b-12d3-a456-426614174000',
+      }),
+    })
+    .refine((params) => params.scope !== 'user' || z.string().uuid().safeParse(params.target).success, {
+      message: 'Invalid user ID format',
+      path: ['target'],
+    }),
+});
+
+// Schema for query params
+const getDialingLimitsQuerySchema = z.object({
+  query: z.object({
+    scope: DialingLimitScopeSchema.optional(),
+  }),
+});
+
+// Register GET /dialing-limits endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/dialing-limits',
+  tags: ['Dialing Limits'],
+  summary: 'Get all dialing limits (optionally filtered by scope)',
+  request: {
+    query: getDialingLimitsQuerySchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'List of dialing limits',
+      content: {
+        'application/json': {
+          schema: z.array(DialingLimitResponseSchema),
+        },
+      },
+    },
+  },
+});
+
+// Get all dialing limits (with optional scope filter)
+router.get('/', validate(getDialingLimitsQuerySchema), async (req: Request, res: Response): Promise<void> => {
+  const limits = await dialingLimitService.getDialingLimits(req.query.scope as dialing_limit_scope | undefined);
+  res.json(limits);
+});
+
+// Register GET /dialing-limits/:scope/:target endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/dialing-limits/{scope}/{target}',
+  tags: ['Dialing Limits'],
+  summary: 'Get a dialing limit with the calls holding its slots',
+  request: {
+    params: dialingLimitTargetSchema.shape.params,
+  },
+  responses: {
+    200: {
+      description: 'Dialing limit found',
+      content: {
+        'application/json': {
+          schema: DialingLimitWithSlotsResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid target',
+    },
+    404: {
+      description: 'No limit set for the target',
+    },
+  },
+});
+
+// Get dialing limit
+router.get('/:scope/:target', validate(dialingLimitTargetSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = await dialingLimitService.getDialingLimit(req.params.scope as dialing_limit_scope, req.params.target);
+    res.json(limit);
+  } catch (error) {
+    if (error instanceof InvalidDialingLimitTargetError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof DialingLimitNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for setting a dialing limit
+const setDialingLimitSchema = z.object({
+  params: dialingLimitTargetSchema.shape.params,
+  body: z
+    .object({
+      max_concurrent_calls: z.number().int().min(1).nullable().openapi({
+        description: 'Calls in progress at once, null for no limit',
+        example: 100,
+      }),
+      max_calls_per_second: z.number().int().min(1).nullable().openapi({
+        description: 'Calls dialed within any one second, null for no limit',
+        example: 10,
+      }),
+    })
+    .refine((data) => data.max_concurrent_calls !== null || data.max_calls_per_second !== null, {
+      message: 'At least one of max_concurrent_calls and max_calls_per_second must be set',
+    }),
+});
+
+// Register PUT /dialing-limits/:scope/:target endpoint
+registry.registerPath({
+  method: 'put',
+  path: '/dialing-limits/{scope}/{target}',
+  tags: ['Dialing Limits'],
+  summary: 'Set the dialing limit of a user, caller ID or trunk',
+  description:
+    'Every call has to fit in the limits of its user, caller ID and trunk as well as its campaign before it is dialed. Calls over a concurrency limit are put back and retried later, calls over a calls-per-second limit are retried about a second later.',
+  request: {
+    params: dialingLimitTargetSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: setDialingLimitSchema.shape.body,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Dialing limit set',
+      content: {
+        'application/json': {
+          schema: DialingLimitResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error or invalid target',
+    },
+  },
+});
+
+// Set dialing limit
+router.put('/:scope/:target', validate(setDialingLimitSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { max_concurrent_calls, max_calls_per_second } = req.body;
+    const limit = await dialingLimitService.setDialingLimit(req.params.scope as dialing_limit_scope, req.params.target, {
+      max_concurrent_calls,
+      max_calls_per_second,
+    });
+    res.json(limit);
+  } catch (error) {
+    if (error instanceof InvalidDialingLimitTargetError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Register DELETE /dialing-limits/:scope/:target endpoint
+registry.registerPath({
+  method: 'delete',
+  path: '/dialing-limits/{scope}/{target}',
+  tags: ['Dialing Limits'],
+  summary: 'Remove a dialing limit',
+  request: {
+    params: dialingLimitTargetSchema.shape.params,
+  },
+  responses: {
+    204: {
+      description: 'Dialing limit removed',
+    },
+    400: {
+      description: 'Invalid target',
+    },
+    404: {
+      description: 'No limit set for the target',
+    },
+  },
+});
+
+// Delete dialing limit
+router.delete('/:scope/:target', validate(dialingLimitTargetSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    await dialingLimitService.deleteDialingLimit(req.params.scope as dialing_limit_scope, req.params.target);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof InvalidDialingLimitTargetError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof DialingLimitNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+export default router;
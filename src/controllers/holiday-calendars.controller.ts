@@ -0,0 +1,467 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import {
+  holidayCalendarService,
+  HolidayCalendarNotFoundError,
+  HolidayCalendarDateNotFoundError,
+  UnsupportedHolidayRegionError,
+  UserNotFoundError,
+} from '../services/holiday-calendars.service';
+import { validate } from '../middleware/validate';
+import { registry } from '../lib/openapi';
+import { holidayRegions } from '../lib/holidays';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+const router = Router();
+
+const RegionSchema = z
+  .string()
+  .max(10, 'Region too long')
+  .openapi({
+    description: `Bundled public holidays to observe: ${holidayRegions.join(', ')}`,
+    example: 'US',
+  });
+
+// A blackout period in the schedule's (or contact's) local time, end_date inclusive
+const BlackoutDateSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(255, 'Name too long').openapi({ example: 'Company offsite' }),
+    start_date: z.string().date('Invalid date, expected YYYY-MM-DD').openapi({ example: '2024-08-12' }),
+    end_date: z
+      .string()
+      .date('Invalid date, expected YYYY-MM-DD')
+      .optional()
+      .openapi({ description: 'Last blackout day, defaults to start_date', example: '2024-08-16' }),
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: 'end_date must not be before start_date',
+  });
+
+const BlackoutDateResponseSchema = z.object({
+  id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  calendar_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  name: z.string().openapi({ example: 'Company offsite' }),
+  start_date: z.string().datetime().openapi({ example: '2024-08-12T00:00:00Z' }),
+  end_date: z.string().datetime().openapi({ example: '2024-08-16T00:00:00Z' }),
+  created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+});
+
+// Reusable HolidayCalendar response schema
+const HolidayCalendarResponseSchema = z.object({
+  id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  name: z.string().openapi({ example: 'US holidays' }),
+  region: z.string().nullable().openapi({ example: 'US' }),
+  holiday_calendar_dates: z.array(BlackoutDateResponseSchema),
+  created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+});
+
+// Register GET /holiday-calendars/regions endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/holiday-calendars/regions',
+  tags: ['Holiday Calendars'],
+  summary: 'List the regions with bundled public holidays',
+  responses: {
+    200: {
+      description: 'Supported regions',
+      content: {
+        'application/json': {
+          schema: z.array(z.string()).openapi({ example: ['US', 'CA', 'GB-SCT'] }),
+        },
+      },
+    },
+  },
+});
+
+// List bundled regions
+router.get('/regions', (_req: Request, res: Response) => {
+  res.json(holidayRegions);
+});
+
+// Schema for creating a holiday calendar
+const createHolidayCalendarSchema = z.object({
+  body: z.object({
+    user_id: z.string().uuid('Invalid user ID format').openapi({
+      description: 'User ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+    name: z.string().min(1, 'Name is required').max(255, 'Name too long').openapi({
+      description: 'Calendar name',
+      example: 'US holidays',
+    }),
+    region: RegionSchema.nullable().optional(),
+    dates: z.array(BlackoutDateSchema).optional().openapi({ description: 'Custom blackout dates and ranges' }),
+  }),
+});
+
+// Register POST /holiday-calendars endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/holiday-calendars',
+  tags: ['Holiday Calendars'],
+  summary: 'Create a holiday calendar',
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: createHolidayCalendarSchema.shape.body,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Holiday calendar created successfully',
+      content: {
+        'application/json': {
+          schema: HolidayCalendarResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error or unsupported region',
+    },
+    404: {
+      description: 'User not found',
+    },
+  },
+});
+
+// Create holiday calendar
+router.post('/', validate(createHolidayCalendarSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { user_id, name, region, dates } = req.body;
+    const calendar = await holidayCalendarService.createHolidayCalendar({ user_id, name, region, dates });
+    res.status(201).json(calendar);
+  } catch (error) {
+    if (error instanceof UnsupportedHolidayRegionError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof UserNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for query params
+const getHolidayCalendarsQuerySchema = z.object({
+  query: z.object({
+    user_id: z.string().uuid('Invalid user ID format').optional().openapi({
+      description: 'Filter by user ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register GET /holiday-calendars endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/holiday-calendars',
+  tags: ['Holiday Calendars'],
+  summary: 'Get all holiday calendars (optionally filtered by user_id)',
+  request: {
+    query: getHolidayCalendarsQuerySchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'List of holiday calendars',
+      content: {
+        'application/json': {
+          schema: z.array(HolidayCalendarResponseSchema),
+        },
+      },
+    },
+    404: {
+      description: 'User not found',
+    },
+  },
+});
+
+// Get all holiday calendars (with optional user_id filter)
+router.get('/', validate(getHolidayCalendarsQuerySchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { user_id } = req.query;
+
+    if (user_id) {
+      res.json(await holidayCalendarService.getHolidayCalendarsByUserId(user_id as string));
+    } else {
+      res.json(await holidayCalendarService.getAllHolidayCalendars());
+    }
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for holiday calendar ID params
+const holidayCalendarIdSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid holiday calendar ID format').openapi({
+      description: 'Holiday calendar ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register GET /holiday-calendars/:id endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/holiday-calendars/{id}',
+  tags: ['Holiday Calendars'],
+  summary: 'Get holiday calendar by ID',
+  request: {
+    params: holidayCalendarIdSchema.shape.params,
+  },
+  responses: {
+    200: {
+      description: 'Holiday calendar found',
+      content: {
+        'application/json': {
+          schema: HolidayCalendarResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid holiday calendar ID format',
+    },
+    404: {
+      description: 'Holiday calendar not found',
+    },
+  },
+});
+
+// Get holiday calendar by ID
+router.get('/:id', validate(holidayCalendarIdSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const calendar = await holidayCalendarService.getHolidayCalendar(req.params.id);
+    res.json(calendar);
+  } catch (error) {
+    if (error instanceof HolidayCalendarNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for updating a holiday calendar
+const updateHolidayCalendarSchema = z.object({
+  params: holidayCalendarIdSchema.shape.params,
+  body: z
+    .object({
+      name: z.string().min(1, 'Name cannot be empty').max(255, 'Name too long').optional().openapi({
+        description: 'Calendar name',
+        example: 'Scotland holidays',
+      }),
+      region: RegionSchema.nullable().optional(),
+    })
+    .refine((data) => data.name || data.region !== undefined, {
+      message: 'At least one field (name or region) must be provided',
+    }),
+});
+
+// Register PUT /holiday-calendars/:id endpoint
+registry.registerPath({
+  method: 'put',
+  path: '/holiday-calendars/{id}',
+  tags: ['Holiday Calendars'],
+  summary: 'Update holiday calendar',
+  request: {
+    params: updateHolidayCalendarSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: updateHolidayCalendarSchema.shape.body,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Holiday calendar updated successfully',
+      content: {
+        'application/json': {
+          schema: HolidayCalendarResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error or unsupported region',
+    },
+    404: {
+      description: 'Holiday calendar not found',
+    },
+  },
+});
+
+// Update holiday calendar
+router.put('/:id', validate(updateHolidayCalendarSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, region } = req.body;
+    const calendar = await holidayCalendarService.updateHolidayCalendar(req.params.id, { name, region });
+    res.json(calendar);
+  } catch (error) {
+    if (error instanceof HolidayCalendarNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof UnsupportedHolidayRegionError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Register DELETE /holiday-calendars/:id endpoint
+registry.registerPath({
+  method: 'delete',
+  path: '/holiday-calendars/{id}',
+  tags: ['Holiday Calendars'],
+  summary: 'Delete holiday calendar, schedules using it no longer skip holidays',
+  request: {
+    params: holidayCalendarIdSchema.shape.params,
+  },
+  responses: {
+    204: {
+      description: 'Holiday calendar deleted successfully',
+    },
+    400: {
+      description: 'Invalid holiday calendar ID format',
+    },
+    404: {
+      description: 'Holiday calendar not found',
+    },
+  },
+});
+
+// Delete holiday calendar
+router.delete('/:id', validate(holidayCalendarIdSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    await holidayCalendarService.deleteHolidayCalendar(req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof HolidayCalendarNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for adding a blackout date
+const addBlackoutDateSchema = z.object({
+  params: holidayCalendarIdSchema.shape.params,
+  body: BlackoutDateSchema,
+});
+
+// Register POST /holiday-calendars/:id/dates endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/holiday-calendars/{id}/dates',
+  tags: ['Holiday Calendars'],
+  summary: 'Add a blackout date or date range to a holiday calendar',
+  request: {
+    params: addBlackoutDateSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: BlackoutDateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Blackout date added',
+      content: {
+        'application/json': {
+          schema: BlackoutDateResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error',
+    },
+    404: {
+      description: 'Holiday calendar not found',
+    },
+  },
+});
+
+// Add blackout date
+router.post('/:id/dates', validate(addBlackoutDateSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, start_date, end_date } = req.body;
+    const date = await holidayCalendarService.addBlackoutDate(req.params.id, { name, start_date, end_date });
+    res.status(201).json(date);
+  } catch (error) {
+    if (error instanceof HolidayCalendarNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for deleting a blackout date
+const deleteBlackoutDateSchema = z.object({
+  params: z.object({
+    id: holidayCalendarIdSchema.shape.params.shape.id,
+    dateId: z.string().uuid('Invalid blackout date ID format').openapi({
+      description: 'Blackout date ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register DELETE /holiday-calendars/:id/dates/:dateId endpoint
+registry.registerPath({
+  method: 'delete',
+  path: '/holiday-calendars/{id}/dates/{dateId}',
+  tags: ['Holiday Calendars'],
+  summary: 'Remove a blackout date from a holiday calendar',
+  request: {
+    params: deleteBlackoutDateSchema.shape.params,
+  },
+  responses: {
+    204: {
+      description: 'Blackout date removed',
+    },
+    404: {
+      description: 'Blackout date not found',
+    },
+  },
+});
+
+// Delete blackout date
+router.delete(
+  '/:id/dates/:dateId',
+  validate(deleteBlackoutDateSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      await holidayCalendarService.deleteBlackoutDate(req.params.id, req.params.dateId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof HolidayCalendarDateNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+export default router;
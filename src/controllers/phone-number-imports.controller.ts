@@ -0,0 +1,283 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import {
+  phoneNumberImportService,
+  PhoneNumberImportNotFoundError,
+  UserNotFoundError,
+  CallCampaignNotFoundError,
+  InvalidImportCampaignError,
+  EmptyImportError,
+  ImportTooLargeError,
+} from '../services/phone-number-imports.service';
+import { contactImportFormats } from '../lib/contact_import';
+import { validate } from '../middleware/validate';
+import { registry } from '../lib/openapi';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+const router = Router();
+
+// Content types an upload may be sent as; the body is streamed, not parsed up front
+const importContentTypes = ['text/csv', 'text/plain', 'application/x-ndjson', 'application/ndjson'];
+
+// Import status enum
+const ImportStatusEnum = z.enum(['pending', 'processing', 'completed', 'failed']).openapi({
+  description: 'Import status',
+  example: 'completed',
+});
+
+// Reusable PhoneNumberImport response schema
+const PhoneNumberImportResponseSchema = z.object({
+  id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  campaign_id: z.string().uuid().nullable().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  format: z.enum(contactImportFormats).openapi({ example: 'csv' }),
+  status: ImportStatusEnum,
+  total_rows: z.number().int().openapi({ example: 3 }),
+  processed_rows: z.number().int().openapi({ example: 3 }),
+  created_count: z.number().int().openapi({ example: 1 }),
+  updated_count: z.number().int().openapi({
+    description: 'Numbers that already existed',
+    example: 1,
+  }),
+  attached_count: z.number().int().openapi({
+    description: 'Numbers added to the campaign',
+    example: 2,
+  }),
+  error_count: z.number().int().openapi({
+    description: 'Rows that failed validation or repeat a number of an earlier row',
+    example: 1,
+  }),
+  errors: z
+    .array(
+      z.object({
+        row: z.number().int().openapi({ example: 3 }),
+        message: z.string().openapi({ example: 'Missing number' }),
+      })
+    )
+    .openapi({ description: 'Row-level errors and duplicate rows, the first 1000 are kept' }),
+  failure_reason: z.string().nullable().openapi({ example: null }),
+  started_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  completed_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:05Z' }),
+  created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:05Z' }),
+});
+
+// Schema for uploading a contact list
+const createImportSchema = z.object({
+  query: z.object({
+    user_id: z.string().uuid('Invalid user ID format').openapi({
+      description: 'User the phone numbers belong to',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+    campaign_id: z.string().uuid('Invalid call campaign ID format').optional().openapi({
+      description: 'Also add every imported number to this campaign',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+    format: z.enum(contactImportFormats).optional().openapi({
+      description: 'Defaults to ndjson for application/x-ndjson uploads and csv otherwise',
+      example: 'csv',
+    }),
+  }),
+});
+
+// Documented body of an upload
+const ImportFileSchema = z.string().openapi({
+  description:
+    'CSV with a header row containing number and optionally status, or NDJSON with one {"number", "status"} object per line',
+  example: 'number,status\n+15550100199,valid\n+15550100200,do_not_call',
+});
+
+// Register POST /phone-numbers/import endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/phone-numbers/import',
+  tags: ['Phone Numbers'],
+  summary: 'Import phone numbers from a CSV or NDJSON file',
+  description:
+    'The upload is streamed into staged chunks of rows, which are validated and normalized, then inserted or, for numbers the user already has, updated. Small files are imported within the request (201); larger ones are processed by the import worker (202), poll the returned import for progress. A CSV file whose header has no number column is recorded as a failed import.',
+  request: {
+    query: createImportSchema.shape.query,
+    body: {
+      content: {
+        'text/csv': {
+          schema: ImportFileSchema,
+        },
+        'application/x-ndjson': {
+          schema: ImportFileSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Import processed',
+      content: {
+        'application/json': {
+          schema: PhoneNumberImportResponseSchema,
+        },
+      },
+    },
+    202: {
+      description: 'Import accepted and queued',
+      content: {
+        'application/json': {
+          schema: PhoneNumberImportResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error, empty file or campaign not usable for the import',
+    },
+    404: {
+      description: 'User or campaign not found',
+    },
+    413: {
+      description: 'File larger than PHONE_IMPORT_MAX_BYTES (20 MiB by default)',
+    },
+    415: {
+      description: 'Unsupported content type',
+    },
+  },
+});
+
+// Upload contact list
+router.post(
+  '/',
+  validate(createImportSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.is(importContentTypes)) {
+      res.status(415).json({ error: `Content type must be one of ${importContentTypes.join(', ')}` });
+      return;
+    }
+
+    try {
+      const { user_id, campaign_id, format } = req.query;
+      const ndjsonUpload = Boolean(req.is(['application/x-ndjson', 'application/ndjson']));
+      const { phoneNumberImport, background } = await phoneNumberImportService.createImport({
+        user_id: user_id as string,
+        campaign_id: campaign_id as string | undefined,
+        format: (format as 'csv' | 'ndjson' | undefined) ?? (ndjsonUpload ? 'ndjson' : 'csv'),
+        content: req,
+      });
+      res.status(background ? 202 : 201).json(phoneNumberImport);
+    } catch (error) {
+      if (error instanceof UserNotFoundError || error instanceof CallCampaignNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof InvalidImportCampaignError || error instanceof EmptyImportError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (error instanceof ImportTooLargeError) {
+        res.status(413).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+// Schema for listing imports
+const getImportsQuerySchema = z.object({
+  query: z.object({
+    user_id: z.string().uuid('Invalid user ID format').openapi({
+      description: 'User whose imports to list',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register GET /phone-numbers/import endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/phone-numbers/import',
+  tags: ['Phone Numbers'],
+  summary: "List a user's phone number imports",
+  request: {
+    query: getImportsQuerySchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'List of imports',
+      content: {
+        'application/json': {
+          schema: z.array(PhoneNumberImportResponseSchema),
+        },
+      },
+    },
+    404: {
+      description: 'User not found',
+    },
+  },
+});
+
+// Get imports of a user
+router.get('/', validate(getImportsQuerySchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const imports = await phoneNumberImportService.getImportsByUserId(req.query.user_id as string);
+    res.json(imports);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for getting an import by ID
+const getImportByIdSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid import ID format').openapi({
+      description: 'Import ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register GET /phone-numbers/import/:id endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/phone-numbers/import/{id}',
+  tags: ['Phone Numbers'],
+  summary: 'Get an import with its progress and row-level errors',
+  request: {
+    params: getImportByIdSchema.shape.params,
+  },
+  responses: {
+    200: {
+      description: 'Import found',
+      content: {
+        'application/json': {
+          schema: PhoneNumberImportResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid import ID format',
+    },
+    404: {
+      description: 'Import not found',
+    },
+  },
+});
+
+// Get import by ID
+router.get('/:id', validate(getImportByIdSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const phoneNumberImport = await phoneNumberImportService.getImport(req.params.id);
+    res.json(phoneNumberImport);
+  } catch (error) {
+    if (error instanceof PhoneNumberImportNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+export default router;
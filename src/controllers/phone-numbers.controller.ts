@@ -5,10 +5,12 @@ import {
   phoneNumberService,
   PhoneNumberNotFoundError,
   PhoneNumberAlreadyExistsError,
+  InvalidPhoneNumberError,
   UserNotFoundError,
 } from '../services/phone-numbers.service';
 import { validate } from '../middleware/validate';
 import { registry } from '../lib/openapi';
+import { isValidTimeZone } from '../lib/contact_time_zone';
 
 // Extend Zod with OpenAPI support
 extendZodWithOpenApi(z);
@@ -21,12 +23,34 @@ const PhoneNumberStatusEnum = z.enum(['valid', 'invalid', 'do_not_call']).openap
   example: 'valid',
 });
 
+// Contact's local time zone, used by schedules with use_contact_time_zone
+const ContactTimeZoneSchema = z
+  .string()
+  .max(100, 'Time zone too long')
+  .refine(isValidTimeZone, { message: 'Unknown IANA time zone' })
+  .openapi({
+    description: "Contact's IANA time zone; when unset it is derived from the number's area code or country",
+    example: 'America/Los_Angeles',
+  });
+
 // Reusable PhoneNumber response schema
 const PhoneNumberResponseSchema = z.object({
   id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
-  number: z.string().openapi({ example: '+1234567890' }),
+  number: z.string().openapi({ description: 'E.164 format', example: '+12125550123' }),
   status: PhoneNumberStatusEnum,
+  country_code: z.string().nullable().openapi({
+    description: 'ISO 3166-1 alpha-2 region of the number',
+    example: 'US',
+  }),
+  number_type: z.string().nullable().openapi({
+    description: 'Line type, e.g. mobile, fixed_line, fixed_line_or_mobile, toll_free, voip',
+    example: 'fixed_line_or_mobile',
+  }),
+  time_zone: z.string().nullable().openapi({
+    description: "Contact's explicit IANA time zone",
+    example: 'America/Los_Angeles',
+  }),
   created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
   updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
 });
@@ -43,10 +67,11 @@ const createPhoneNumberSchema = z.object({
       .min(1, 'Phone number is required')
       .max(50, 'Phone number too long')
       .openapi({
-        description: 'Phone number',
-        example: '+1234567890',
+        description: "Phone number, normalized to E.164; national format is read in the user's default_country",
+        example: '+1 (212) 555-0123',
       }),
     status: PhoneNumberStatusEnum.optional(),
+    time_zone: ContactTimeZoneSchema.optional(),
   }),
 });
 
@@ -75,7 +100,7 @@ registry.registerPath({
       },
     },
     400: {
-      description: 'Validation error',
+      description: 'Validation error or unparseable phone number',
     },
     404: {
       description: 'User not found',
@@ -89,14 +114,18 @@ registry.registerPath({
 // Create phone number
 router.post('/', validate(createPhoneNumberSchema), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { user_id, number, status } = req.body;
-    const phoneNumber = await phoneNumberService.createPhoneNumber({ user_id, number, status });
+    const { user_id, number, status, time_zone } = req.body;
+    const phoneNumber = await phoneNumberService.createPhoneNumber({ user_id, number, status, time_zone });
     res.status(201).json(phoneNumber);
   } catch (error) {
     if (error instanceof PhoneNumberAlreadyExistsError) {
       res.status(409).json({ error: error.message });
       return;
     }
+    if (error instanceof InvalidPhoneNumberError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     if (error instanceof UserNotFoundError) {
       res.status(404).json({ error: error.message });
       return;
@@ -233,13 +262,14 @@ const updatePhoneNumberSchema = z.object({
         .max(50, 'Phone number too long')
         .optional()
         .openapi({
-          description: 'Phone number',
-          example: '+1987654321',
+          description: "Phone number, normalized to E.164; national format is read in the user's default_country",
+          example: '+12125550199',
         }),
       status: PhoneNumberStatusEnum.optional(),
+      time_zone: ContactTimeZoneSchema.nullable().optional(),
     })
-    .refine((data) => data.number || data.status, {
-      message: 'At least one field (number or status) must be provided',
+    .refine((data) => data.number || data.status || data.time_zone !== undefined, {
+      message: 'At least one field (number, status or time_zone) must be provided',
     }),
 });
 
@@ -269,7 +299,7 @@ registry.registerPath({
       },
     },
     400: {
-      description: 'Validation error',
+      description: 'Validation error or unparseable phone number',
     },
     404: {
       description: 'Phone number not found',
@@ -284,9 +314,9 @@ registry.registerPath({
 router.put('/:id', validate(updatePhoneNumberSchema), async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { number, status } = req.body;
+    const { number, status, time_zone } = req.body;
 
-    const phoneNumber = await phoneNumberService.updatePhoneNumber(id, { number, status });
+    const phoneNumber = await phoneNumberService.updatePhoneNumber(id, { number, status, time_zone });
     res.json(phoneNumber);
   } catch (error) {
     if (error instanceof PhoneNumberNotFoundError) {
@@ -297,6 +327,10 @@ router.put('/:id', validate(updatePhoneNumberSchema), async (req: Request, res:
       res.status(409).json({ error: error.message });
       return;
     }
+    if (error instanceof InvalidPhoneNumberError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     throw error;
   }
 });
@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { schedulerService } from '../services/scheduler.service';
+import { registry } from '../lib/openapi';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+const router = Router();
+
+const SchedulerRunSchema = z.object({
+  tick_at: z.string().datetime().openapi({ description: 'Tick of the cadence the run belongs to', example: '2024-01-01T12:00:00Z' }),
+  started_at: z.string().datetime().openapi({ example: '2024-01-01T12:00:03Z' }),
+  finished_at: z.string().datetime().openapi({ example: '2024-01-01T12:00:04Z' }),
+  duration_ms: z.number().int().openapi({ example: 850 }),
+  missed_ticks: z.number().int().openapi({
+    description: 'Ticks without a run before this one, caught up by it (no leader, or the previous run overran)',
+    example: 0,
+  }),
+  tasks_claimed: z.number().int().openapi({ example: 120 }),
+  tasks_enqueued: z.number().int().openapi({
+    description: 'Claimed tasks pushed to the call task queue, the others are reclaimed once their lease runs out',
+    example: 120,
+  }),
+  batches: z.number().int().openapi({ example: 1 }),
+  error: z.string().nullable().openapi({ example: null }),
+});
+
+// Response schema for the scheduler status
+const SchedulerStatusResponseSchema = z.object({
+  leader: z.string().nullable().openapi({
+    description: 'Scheduler replica holding the leader lock, null when none does',
+    example: 'scheduler-1:4242',
+  }),
+  leader_expires_at: z.string().datetime().nullable().openapi({
+    description: 'The lock lapses at this instant unless the leader renews it',
+    example: '2024-01-01T12:00:30Z',
+  }),
+  interval_seconds: z.number().int().nullable().openapi({ example: 60 }),
+  jitter_seconds: z.number().int().nullable().openapi({ example: 5 }),
+  last_run: SchedulerRunSchema.nullable(),
+  next_run_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T12:01:02Z' }),
+});
+
+// Register GET /admin/scheduler endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/admin/scheduler',
+  tags: ['Admin'],
+  summary: 'Get the status of the call scheduler',
+  description:
+    'Scheduler replicas elect a leader through a lock in Redis; only the leader runs. Shows the leader, its last run with the tasks it claimed and enqueued, and when it runs next.',
+  responses: {
+    200: {
+      description: 'Scheduler status',
+      content: {
+        'application/json': {
+          schema: SchedulerStatusResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Get scheduler status
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+  res.json(await schedulerService.getStatus());
+});
+
+export default router;
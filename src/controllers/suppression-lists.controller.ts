@@ -0,0 +1,371 @@
+import express, { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import {
+  suppressionService,
+  SuppressionEntryNotFoundError,
+  SuppressionEntryAlreadyExistsError,
+  InvalidSuppressionValueError,
+  UserNotFoundError,
+} from '../services/suppression.service';
+import { validate } from '../middleware/validate';
+import { registry } from '../lib/openapi';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+const router = Router();
+
+// Suppression match type enum
+const MatchTypeEnum = z.enum(['number', 'prefix']).openapi({
+  description: 'number blocks one exact number, prefix blocks every number starting with the value',
+  example: 'number',
+});
+
+// Reusable SuppressionEntry response schema
+const SuppressionEntryResponseSchema = z.object({
+  id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  user_id: z.string().uuid().nullable().openapi({
+    description: 'Owning user, null for tenant-wide entries',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  }),
+  match_type: MatchTypeEnum,
+  value: z.string().openapi({ example: '+1234567890' }),
+  reason: z.string().nullable().openapi({ example: 'Opted out by phone' }),
+  expires_at: z.string().datetime().nullable().openapi({ example: '2025-01-01T00:00:00Z' }),
+  created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+  updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+});
+
+// Pending call tasks that the new entries will skip
+const AffectedTasksSchema = z.object({
+  pending_tasks: z.number().int().openapi({ example: 3 }),
+  campaigns: z.array(
+    z.object({
+      campaign_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+      pending_tasks: z.number().int().openapi({ example: 3 }),
+    })
+  ),
+});
+
+// Schema for creating a suppression entry
+const createSuppressionEntrySchema = z.object({
+  body: z.object({
+    user_id: z.string().uuid('Invalid user ID format').nullable().optional().openapi({
+      description: 'User the entry applies to; omit for a tenant-wide entry',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+    match_type: MatchTypeEnum.optional(),
+    value: z
+      .string()
+      .min(1, 'Value is required')
+      .max(50, 'Value too long')
+      .openapi({
+        description:
+          "Number or prefix, stored in E.164; national numbers are read in the user's default_country, prefixes must start with the country calling code",
+        example: '+1234567890',
+      }),
+    reason: z.string().max(255, 'Reason too long').nullable().optional().openapi({
+      example: 'Opted out by phone',
+    }),
+    expires_at: z.string().datetime('Invalid datetime').nullable().optional().openapi({
+      description: 'When the entry stops applying; omit to suppress indefinitely',
+      example: '2025-01-01T00:00:00Z',
+    }),
+  }),
+});
+
+// Register POST /suppression-lists endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/suppression-lists',
+  tags: ['Suppression Lists'],
+  summary: 'Add a number or prefix to the suppression list',
+  description: 'Suppressed numbers are skipped by the call task worker right before dialing.',
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: createSuppressionEntrySchema.shape.body,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Suppression entry created',
+      content: {
+        'application/json': {
+          schema: z.object({
+            entry: SuppressionEntryResponseSchema,
+            affected_tasks: AffectedTasksSchema,
+          }),
+        },
+      },
+    },
+    400: {
+      description: 'Validation error',
+    },
+    404: {
+      description: 'User not found',
+    },
+    409: {
+      description: 'Entry already on the list',
+    },
+  },
+});
+
+// Create suppression entry
+router.post('/', validate(createSuppressionEntrySchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { user_id, match_type, value, reason, expires_at } = req.body;
+    const result = await suppressionService.createEntry({
+      user_id,
+      match_type,
+      value,
+      reason,
+      expires_at: expires_at ? new Date(expires_at) : null,
+    });
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof SuppressionEntryAlreadyExistsError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    if (error instanceof InvalidSuppressionValueError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof UserNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for importing a CSV file
+const importSuppressionListSchema = z.object({
+  query: z.object({
+    user_id: z.string().uuid('Invalid user ID format').optional().openapi({
+      description: 'User the entries apply to; omit for tenant-wide entries',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+  body: z.string().min(1, 'CSV body is required').openapi({
+    description: 'CSV with a header row: value (or number), and optionally match_type, reason, expires_at',
+    example: 'value,match_type,reason\n+1234567890,number,Opted out\n+1900,prefix,Premium rate',
+  }),
+});
+
+// Register POST /suppression-lists/import endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/suppression-lists/import',
+  tags: ['Suppression Lists'],
+  summary: 'Import suppression entries from a CSV file',
+  description: 'Entries already on the list are counted as duplicates; invalid rows are reported and skipped.',
+  request: {
+    query: importSuppressionListSchema.shape.query,
+    body: {
+      content: {
+        'text/csv': {
+          schema: importSuppressionListSchema.shape.body,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Import report',
+      content: {
+        'application/json': {
+          schema: z.object({
+            imported: z.number().int().openapi({ example: 2 }),
+            duplicates: z.number().int().openapi({ example: 0 }),
+            errors: z.array(
+              z.object({
+                row: z.number().int().openapi({ example: 4 }),
+                message: z.string().openapi({ example: 'Missing number' }),
+              })
+            ),
+            affected_tasks: AffectedTasksSchema,
+          }),
+        },
+      },
+    },
+    400: {
+      description: 'Validation error',
+    },
+    404: {
+      description: 'User not found',
+    },
+  },
+});
+
+// Import suppression entries from CSV
+router.post(
+  '/import',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }),
+  validate(importSuppressionListSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { user_id } = req.query;
+      const report = await suppressionService.importCsv(req.body, user_id as string | undefined);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof UserNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+// Schema for query params
+const getSuppressionEntriesQuerySchema = z.object({
+  query: z.object({
+    user_id: z.string().uuid('Invalid user ID format').optional().openapi({
+      description: 'Only entries applying to this user (theirs and the tenant-wide ones)',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+    include_expired: z.enum(['true', 'false']).optional().openapi({
+      description: 'Also list entries whose expires_at has passed',
+      example: 'false',
+    }),
+  }),
+});
+
+// Register GET /suppression-lists endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/suppression-lists',
+  tags: ['Suppression Lists'],
+  summary: 'List suppression entries (optionally filtered by user_id)',
+  request: {
+    query: getSuppressionEntriesQuerySchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'List of suppression entries',
+      content: {
+        'application/json': {
+          schema: z.array(SuppressionEntryResponseSchema),
+        },
+      },
+    },
+    404: {
+      description: 'User not found',
+    },
+  },
+});
+
+// Get suppression entries
+router.get('/', validate(getSuppressionEntriesQuerySchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { user_id, include_expired } = req.query;
+    const entries = await suppressionService.getEntries({
+      user_id: user_id as string | undefined,
+      include_expired: include_expired === 'true',
+    });
+    res.json(entries);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for suppression entry ID param
+const suppressionEntryIdSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid suppression entry ID format').openapi({
+      description: 'Suppression entry ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register GET /suppression-lists/:id endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/suppression-lists/{id}',
+  tags: ['Suppression Lists'],
+  summary: 'Get suppression entry by ID',
+  request: {
+    params: suppressionEntryIdSchema.shape.params,
+  },
+  responses: {
+    200: {
+      description: 'Suppression entry found',
+      content: {
+        'application/json': {
+          schema: SuppressionEntryResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid suppression entry ID format',
+    },
+    404: {
+      description: 'Suppression entry not found',
+    },
+  },
+});
+
+// Get suppression entry by ID
+router.get('/:id', validate(suppressionEntryIdSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const entry = await suppressionService.getEntry(id);
+    res.json(entry);
+  } catch (error) {
+    if (error instanceof SuppressionEntryNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Register DELETE /suppression-lists/:id endpoint
+registry.registerPath({
+  method: 'delete',
+  path: '/suppression-lists/{id}',
+  tags: ['Suppression Lists'],
+  summary: 'Remove an entry from the suppression list',
+  request: {
+    params: suppressionEntryIdSchema.shape.params,
+  },
+  responses: {
+    204: {
+      description: 'Suppression entry deleted successfully',
+    },
+    400: {
+      description: 'Invalid suppression entry ID format',
+    },
+    404: {
+      description: 'Suppression entry not found',
+    },
+  },
+});
+
+// Delete suppression entry
+router.delete('/:id', validate(suppressionEntryIdSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    await suppressionService.deleteEntry(id);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof SuppressionEntryNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+export default router;
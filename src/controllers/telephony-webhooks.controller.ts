@@ -0,0 +1,129 @@
+import express, { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { callLogService, CallLogNotFoundError } from '../services/call-logs.service';
+import { UnknownTelephonyProviderError, InvalidStatusCallbackError, providerCallStatuses } from '../telephony';
+import { validate } from '../middleware/validate';
+import { registry } from '../lib/openapi';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+const router = Router();
+
+// Carriers commonly post callbacks as form data rather than JSON
+router.use(express.urlencoded({ extended: false }));
+
+// Schema for a provider status callback
+const statusCallbackSchema = z.object({
+  params: z.object({
+    provider: z.string().min(1).max(50).openapi({
+      description: 'Telephony provider name',
+      example: 'http',
+    }),
+  }),
+});
+
+// Documented wire format of the built-in providers
+const StatusCallbackBodySchema = z.object({
+  external_call_id: z.string().openapi({ example: 'fake-123e4567-e89b-12d3-a456-426614174000' }),
+  call_log_id: z.string().uuid().optional().openapi({
+    description: 'The call_log_id the call was dialed with; matches callbacks sent before the dial response',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  }),
+  status: z.enum(providerCallStatuses).openapi({
+    description: 'Call status; hyphenated forms such as no-answer are accepted',
+    example: 'completed',
+  }),
+  timestamp: z.string().datetime().optional().openapi({ example: '2024-01-01T09:00:00Z' }),
+});
+
+// Response schema for a processed callback
+const StatusCallbackResponseSchema = z.object({
+  applied: z.boolean().openapi({
+    description: 'False when the callback was a duplicate or arrived after a later status',
+    example: true,
+  }),
+  call_log_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  status: z
+    .enum([
+      'initiated',
+      'in_progress',
+      'completed',
+      'failed',
+      'busy',
+      'no_answer',
+      'voicemail',
+      'rejected',
+      'invalid_number',
+      'carrier_error',
+    ])
+    .openapi({ example: 'completed' }),
+});
+
+// Register POST /webhooks/telephony/:provider endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/webhooks/telephony/{provider}',
+  tags: ['Webhooks'],
+  summary: 'Receive a call status callback from a telephony provider',
+  description:
+    'Advances the call log identified by call_log_id, or by external_call_id when absent, and, once the call has ended, its call task and campaign counters. Duplicate and out-of-order callbacks are ignored.',
+  request: {
+    params: statusCallbackSchema.shape.params,
+    body: {
+      content: {
+        'application/json': {
+          schema: StatusCallbackBodySchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Callback processed',
+      content: {
+        'application/json': {
+          schema: StatusCallbackResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Malformed callback payload',
+    },
+    401: {
+      description: 'Missing or invalid webhook secret',
+    },
+    404: {
+      description: 'Unknown provider or call',
+    },
+  },
+});
+
+// Receive provider status callback
+router.post('/:provider', validate(statusCallbackSchema), async (req: Request, res: Response): Promise<void> => {
+  // Shared secret check, enabled when TELEPHONY_WEBHOOK_SECRET is configured
+  const secret = process.env.TELEPHONY_WEBHOOK_SECRET;
+  if (secret && req.get('x-webhook-secret') !== secret) {
+    res.status(401).json({ error: 'Invalid webhook secret' });
+    return;
+  }
+
+  try {
+    const { provider } = req.params;
+    const result = await callLogService.handleStatusCallback(provider, req.body);
+    res.json({ applied: result.applied, call_log_id: result.callLogId, status: result.status });
+  } catch (error) {
+    if (error instanceof UnknownTelephonyProviderError || error instanceof CallLogNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof InvalidStatusCallbackError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+export default router;
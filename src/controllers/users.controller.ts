@@ -4,17 +4,50 @@ import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
 import { userService, UserNotFoundError, UserAlreadyExistsError } from '../services/users.service';
 import { validate } from '../middleware/validate';
 import { registry } from '../lib/openapi';
+import { telephonyProviderNames } from '../telephony';
+import { isSupportedCountryCode } from '../lib/phone_number';
+import {
+  AuditEntityType,
+  auditEntityTypeSchema,
+  auditLogEntrySchema,
+  auditLogQuerySchema,
+  DEFAULT_AUDIT_LIMIT,
+} from '../lib/audit';
+import {
+  InvalidMetricsRangeError,
+  MetricsInterval,
+  metricsQuerySchema,
+  metricsResponseSchema,
+} from '../lib/campaign_metrics';
 
 // Extend Zod with OpenAPI support
 extendZodWithOpenApi(z);
 
 const router = Router();
 
+// Telephony provider override; null falls back to the deployment default
+const TelephonyProviderEnum = z.enum(telephonyProviderNames as [string, ...string[]]).openapi({
+  description: 'Telephony provider used to place this user\'s calls',
+  example: 'fake',
+});
+
+// Country used to read phone numbers entered without a +country prefix
+const DefaultCountrySchema = z
+  .string()
+  .length(2, 'Country must be an ISO 3166-1 alpha-2 code')
+  .refine((country) => isSupportedCountryCode(country.toUpperCase()), 'Unsupported country')
+  .openapi({
+    description: 'ISO 3166-1 alpha-2 country used to read phone numbers in national format',
+    example: 'US',
+  });
+
 // Reusable User response schema
 const UserResponseSchema = z.object({
   id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
   email: z.string().email().openapi({ example: 'user@example.com' }),
   name: z.string().openapi({ example: 'John Doe' }),
+  telephony_provider: TelephonyProviderEnum.nullable(),
+  default_country: z.string().nullable().openapi({ example: 'US' }),
   created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
   updated_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
 });
@@ -30,6 +63,8 @@ const createUserSchema = z.object({
       description: 'User full name',
       example: 'John Doe',
     }),
+    telephony_provider: TelephonyProviderEnum.nullable().optional(),
+    default_country: DefaultCountrySchema.nullable().optional(),
   }),
 });
 
@@ -69,8 +104,13 @@ registry.registerPath({
 // Create user
 router.post('/', validate(createUserSchema), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, name } = req.body;
-    const user = await userService.createUser({ email, name });
+    const { email, name, telephony_provider, default_country } = req.body;
+    const user = await userService.createUser({
+      email,
+      name,
+      telephony_provider,
+      default_country: default_country?.toUpperCase(),
+    });
     res.status(201).json(user);
   } catch (error) {
     if (error instanceof UserAlreadyExistsError) {
@@ -174,9 +214,12 @@ const updateUserSchema = z.object({
       description: 'User full name',
       example: 'Jane Smith',
     }),
-  }).refine((data) => data.email || data.name, {
-    message: 'At least one field (email or name) must be provided',
-  }),
+    telephony_provider: TelephonyProviderEnum.nullable().optional(),
+    default_country: DefaultCountrySchema.nullable().optional(),
+  }).refine(
+    (data) => data.email || data.name || data.telephony_provider !== undefined || data.default_country !== undefined,
+    { message: 'At least one field (email, name, telephony_provider or default_country) must be provided' }
+  ),
 });
 
 // Register PUT /users/:id endpoint
@@ -220,9 +263,14 @@ registry.registerPath({
 router.put('/:id', validate(updateUserSchema), async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, email } = req.body;
+    const { name, email, telephony_provider, default_country } = req.body;
 
-    const user = await userService.updateUser(id, { name, email });
+    const user = await userService.updateUser(id, {
+      name,
+      email,
+      telephony_provider,
+      default_country: default_country?.toUpperCase(),
+    });
     res.json(user);
   } catch (error) {
     if (error instanceof UserNotFoundError) {
@@ -284,5 +332,137 @@ router.delete('/:id', validate(deleteUserSchema), async (req: Request, res: Resp
   }
 });
 
+// Schema for the audit feed of a user
+const getUserAuditLogSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid user ID format').openapi({
+      description: 'User ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+  query: auditLogQuerySchema.extend({
+    entity_type: auditEntityTypeSchema.optional(),
+    entity_id: z.string().uuid('Invalid entity ID format').optional().openapi({
+      description: 'Only changes to this campaign, schedule or phone number',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+});
+
+// Register GET /users/:id/audit-log endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/users/{id}/audit-log',
+  tags: ['Users'],
+  summary: "Get the audit feed of a user's campaigns, schedules and phone numbers",
+  request: {
+    params: getUserAuditLogSchema.shape.params,
+    query: getUserAuditLogSchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'Audit log entries, newest first',
+      content: {
+        'application/json': {
+          schema: z.array(auditLogEntrySchema),
+        },
+      },
+    },
+    400: {
+      description: 'Validation error',
+    },
+    404: {
+      description: 'User not found',
+    },
+  },
+});
+
+// Get user audit feed
+router.get('/:id/audit-log', validate(getUserAuditLogSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { entity_type, entity_id, from, to, limit } = req.query;
+
+    const entries = await userService.getUserAuditFeed(id, {
+      entity_type: entity_type as AuditEntityType | undefined,
+      entity_id: entity_id as string | undefined,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+      limit: limit ? Number(limit) : DEFAULT_AUDIT_LIMIT,
+    });
+    res.json(entries);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// Schema for the call metrics of a user
+const getUserMetricsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid('Invalid user ID format').openapi({
+      description: 'User ID',
+      example: '123e4567-e89b-12d3-a456-426614174000',
+    }),
+  }),
+  query: metricsQuerySchema,
+});
+
+// Register GET /users/:id/metrics endpoint
+registry.registerPath({
+  method: 'get',
+  path: '/users/{id}/metrics',
+  tags: ['Users'],
+  summary: "Get call metrics over time across all of a user's campaigns",
+  request: {
+    params: getUserMetricsSchema.shape.params,
+    query: getUserMetricsSchema.shape.query,
+  },
+  responses: {
+    200: {
+      description: 'Attempts, completions, failures, retries and average call duration per bucket',
+      content: {
+        'application/json': {
+          schema: metricsResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Validation error, or the range is empty or has too many buckets',
+    },
+    404: {
+      description: 'User not found',
+    },
+  },
+});
+
+// Get user metrics
+router.get('/:id/metrics', validate(getUserMetricsSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { interval, from, to } = req.query;
+
+    const metrics = await userService.getUserMetrics(id, {
+      interval: interval as MetricsInterval | undefined,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+    });
+    res.json(metrics);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof InvalidMetricsRangeError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
 export default router;
 
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffEntities, getCurrentActor, runWithActor } from '../audit';
+
+describe('audit', () => {
+  describe('diffEntities', () => {
+    it('should list only the fields that changed', () => {
+      const before = { name: 'Q1', max_concurrent_calls: 5, status: 'running', updated_at: new Date('2024-01-01') };
+      const after = { name: 'Q1', max_concurrent_calls: 10, status: 'paused', updated_at: new Date('2024-01-02') };
+
+      expect(diffEntities(before, after)).toEqual({
+        max_concurrent_calls: { before: 5, after: 10 },
+        status: { before: 'running', after: 'paused' },
+      });
+    });
+
+    it('should record every field on create and delete', () => {
+      expect(diffEntities(null, { name: 'Q1', ends_at: new Date('2024-02-01T00:00:00Z') })).toEqual({
+        name: { before: null, after: 'Q1' },
+        ends_at: { before: null, after: '2024-02-01T00:00:00.000Z' },
+      });
+      expect(diffEntities({ name: 'Q1' }, null)).toEqual({ name: { before: 'Q1', after: null } });
+    });
+
+    it('should compare JSON columns by value', () => {
+      const rules = { days: ['monday'], start_time: '09:00', end_time: '17:00' };
+
+      expect(diffEntities({ schedule_rules: rules }, { schedule_rules: { ...rules } })).toEqual({});
+      expect(diffEntities({ schedule_rules: rules }, { schedule_rules: { ...rules, end_time: '18:00' } })).toEqual({
+        schedule_rules: { before: rules, after: { ...rules, end_time: '18:00' } },
+      });
+    });
+  });
+
+  describe('getCurrentActor', () => {
+    it('should return the actor of the surrounding context', async () => {
+      expect(getCurrentActor()).toBe('system');
+
+      const actor = await runWithActor('jane@example.com', async () => {
+        await Promise.resolve();
+        return getCurrentActor();
+      });
+
+      expect(actor).toBe('jane@example.com');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { findCounterDiscrepancies, pickCampaignCounters } from '../campaign_counters';
+
+describe('campaign_counters', () => {
+  const counters = {
+    total_tasks: 100,
+    completed_tasks: 60,
+    failed_tasks: 10,
+    skipped_tasks: 5,
+    expired_tasks: 0,
+    retries_attempted: 30,
+  };
+
+  describe('pickCampaignCounters', () => {
+    it('should keep only the counter columns', () => {
+      expect(pickCampaignCounters({ ...counters, id: 'campaign-1', name: 'Q1' } as typeof counters)).toEqual(counters);
+    });
+  });
+
+  describe('findCounterDiscrepancies', () => {
+    it('should list the counters that drifted', () => {
+      expect(
+        findCounterDiscrepancies(counters, { ...counters, total_tasks: 98, retries_attempted: 32 })
+      ).toEqual([
+        { counter: 'total_tasks', stored: 100, actual: 98 },
+        { counter: 'retries_attempted', stored: 30, actual: 32 },
+      ]);
+    });
+
+    it('should return nothing when the counters match', () => {
+      expect(findCounterDiscrepancies(counters, { ...counters })).toEqual([]);
+    });
+  });
+});
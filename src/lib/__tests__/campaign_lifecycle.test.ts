@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { getNextCampaignStatus } from '../campaign_lifecycle';
+
+describe('campaign_lifecycle', () => {
+  describe('getNextCampaignStatus', () => {
+    const now = new Date('2024-01-15T12:00:00Z');
+
+    it('should start a draft campaign right away when it has no future starts_at', () => {
+      expect(getNextCampaignStatus('draft', 'start', null, now)).toBe('running');
+      expect(getNextCampaignStatus('draft', 'start', new Date('2024-01-01T00:00:00Z'), now)).toBe('running');
+    });
+
+    it('should leave a campaign scheduled until its starts_at', () => {
+      expect(getNextCampaignStatus('draft', 'start', new Date('2024-02-01T00:00:00Z'), now)).toBe('scheduled');
+      expect(getNextCampaignStatus('paused', 'resume', new Date('2024-02-01T00:00:00Z'), now)).toBe('scheduled');
+    });
+
+    it('should pause, resume and cancel', () => {
+      expect(getNextCampaignStatus('running', 'pause', null, now)).toBe('paused');
+      expect(getNextCampaignStatus('scheduled', 'pause', null, now)).toBe('paused');
+      expect(getNextCampaignStatus('paused', 'resume', null, now)).toBe('running');
+      expect(getNextCampaignStatus('paused', 'cancel', null, now)).toBe('cancelled');
+      expect(getNextCampaignStatus('draft', 'cancel', null, now)).toBe('cancelled');
+    });
+
+    it('should only archive finished campaigns', () => {
+      expect(getNextCampaignStatus('completed', 'archive', null, now)).toBe('archived');
+      expect(getNextCampaignStatus('cancelled', 'archive', null, now)).toBe('archived');
+      expect(getNextCampaignStatus('running', 'archive', null, now)).toBeNull();
+    });
+
+    it('should reject transitions that are not allowed', () => {
+      expect(getNextCampaignStatus('running', 'start', null, now)).toBeNull();
+      expect(getNextCampaignStatus('draft', 'pause', null, now)).toBeNull();
+      expect(getNextCampaignStatus('running', 'resume', null, now)).toBeNull();
+      expect(getNextCampaignStatus('completed', 'cancel', null, now)).toBeNull();
+      expect(getNextCampaignStatus('archived', 'start', null, now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { fillMetricsBuckets, InvalidMetricsRangeError, resolveMetricsRange } from '../campaign_metrics';
+
+describe('campaign_metrics', () => {
+  describe('resolveMetricsRange', () => {
+    it('should round from down to the start of its bucket', () => {
+      const range = resolveMetricsRange({
+        interval: '1h',
+        from: new Date('2024-01-15T09:40:00Z'),
+        to: new Date('2024-01-15T12:10:00Z'),
+      });
+
+      expect(range.from).toEqual(new Date('2024-01-15T09:00:00Z'));
+      expect(range.to).toEqual(new Date('2024-01-15T12:10:00Z'));
+      expect(range.bucketSeconds).toBe(3600);
+    });
+
+    it('should default to the last 7 days of hourly buckets', () => {
+      const range = resolveMetricsRange({ now: new Date('2024-01-15T12:00:00Z') });
+
+      expect(range.interval).toBe('1h');
+      expect(range.from).toEqual(new Date('2024-01-08T12:00:00Z'));
+      expect(range.to).toEqual(new Date('2024-01-15T12:00:00Z'));
+    });
+
+    it('should reject an empty range', () => {
+      expect(() =>
+        resolveMetricsRange({
+          interval: '5m',
+          from: new Date('2024-01-15T12:00:00Z'),
+          to: new Date('2024-01-15T12:00:00Z'),
+        })
+      ).toThrow(InvalidMetricsRangeError);
+    });
+
+    it('should reject a range with too many buckets', () => {
+      expect(() =>
+        resolveMetricsRange({
+          interval: '5m',
+          from: new Date('2024-01-01T00:00:00Z'),
+          to: new Date('2024-02-01T00:00:00Z'),
+        })
+      ).toThrow(InvalidMetricsRangeError);
+    });
+  });
+
+  describe('fillMetricsBuckets', () => {
+    it('should include buckets without calls', () => {
+      const range = resolveMetricsRange({
+        interval: '1h',
+        from: new Date('2024-01-15T09:00:00Z'),
+        to: new Date('2024-01-15T12:00:00Z'),
+      });
+      const row = {
+        bucket_start: new Date('2024-01-15T10:00:00Z'),
+        attempts: 12,
+        completions: 7,
+        failures: 4,
+        retries: 3,
+        average_duration_seconds: 52.5,
+      };
+
+      const buckets = fillMetricsBuckets([row], range);
+
+      expect(buckets.map((bucket) => bucket.bucket_start)).toEqual([
+        new Date('2024-01-15T09:00:00Z'),
+        new Date('2024-01-15T10:00:00Z'),
+        new Date('2024-01-15T11:00:00Z'),
+      ]);
+      expect(buckets[0]).toMatchObject({ attempts: 0, completions: 0, average_duration_seconds: null });
+      expect(buckets[1]).toBe(row);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { estimateCompletion, getAttemptsPerTask } from '../campaign_stats';
+
+describe('campaign_stats', () => {
+  describe('getAttemptsPerTask', () => {
+    it('should average the attempts of tasks that were dialed', () => {
+      expect(
+        getAttemptsPerTask([
+          { attempts: 0, tasks: 50 },
+          { attempts: 1, tasks: 6 },
+          { attempts: 3, tasks: 2 },
+        ])
+      ).toBe(1.5);
+    });
+
+    it('should assume one attempt per task before any call is made', () => {
+      expect(getAttemptsPerTask([])).toBe(1);
+      expect(getAttemptsPerTask([{ attempts: 0, tasks: 10 }])).toBe(1);
+    });
+  });
+
+  describe('estimateCompletion', () => {
+    const windows = [
+      { start: new Date('2024-01-15T09:00:00Z'), end: new Date('2024-01-15T10:00:00Z') },
+      { start: new Date('2024-01-16T09:00:00Z'), end: new Date('2024-01-16T10:00:00Z') },
+    ];
+
+    it('should finish within the first window when the calls fit', () => {
+      // 100 calls of 60s over 5 lines take 20 minutes
+      const completesAt = estimateCompletion({
+        remainingAttempts: 100,
+        averageCallSeconds: 60,
+        concurrency: 5,
+        windows,
+        from: new Date('2024-01-15T08:00:00Z'),
+      });
+
+      expect(completesAt).toEqual(new Date('2024-01-15T09:20:00Z'));
+    });
+
+    it('should carry the remaining calls over to the next window', () => {
+      // 90 minutes of calling starting at 09:30, half an hour is left on the first day
+      const completesAt = estimateCompletion({
+        remainingAttempts: 90,
+        averageCallSeconds: 60,
+        concurrency: 1,
+        windows,
+        from: new Date('2024-01-15T09:30:00Z'),
+      });
+
+      expect(completesAt).toEqual(new Date('2024-01-16T10:00:00Z'));
+    });
+
+    it('should count overlapping windows once', () => {
+      const completesAt = estimateCompletion({
+        remainingAttempts: 90,
+        averageCallSeconds: 60,
+        concurrency: 1,
+        windows: [
+          { start: new Date('2024-01-15T09:00:00Z'), end: new Date('2024-01-15T10:00:00Z') },
+          { start: new Date('2024-01-15T09:30:00Z'), end: new Date('2024-01-15T11:00:00Z') },
+        ],
+        from: new Date('2024-01-15T08:00:00Z'),
+      });
+
+      expect(completesAt).toEqual(new Date('2024-01-15T10:30:00Z'));
+    });
+
+    it('should return null when the calls do not fit in the windows', () => {
+      const completesAt = estimateCompletion({
+        remainingAttempts: 1000,
+        averageCallSeconds: 60,
+        concurrency: 1,
+        windows,
+        from: new Date('2024-01-15T08:00:00Z'),
+      });
+
+      expect(completesAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { getCallSlotToken, parseCallSlotToken } from '../concurrency_slots';
+
+describe('concurrency_slots', () => {
+  const callTaskId = '123e4567-e89b-12d3-a456-426614174000';
+  const claimedAt = new Date('2024-01-15T09:29:12.345Z');
+
+  describe('getCallSlotToken', () => {
+    it('should give each claim of a task its own token', () => {
+      const nextClaim = new Date(claimedAt.getTime() + 1);
+      expect(getCallSlotToken(callTaskId, claimedAt)).not.toBe(getCallSlotToken(callTaskId, nextClaim));
+    });
+  });
+
+  describe('parseCallSlotToken', () => {
+    it('should return the call task and claim of a token', () => {
+      expect(parseCallSlotToken(getCallSlotToken(callTaskId, claimedAt))).toEqual({ callTaskId, claimedAt });
+    });
+
+    it('should return no claim for a bare call task ID', () => {
+      expect(parseCallSlotToken(callTaskId)).toEqual({ callTaskId, claimedAt: null });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseContactRows, parseContactHeader } from '../contact_import';
+import { readLines } from '../csv';
+
+describe('contact_import', () => {
+  describe('parseContactRows', () => {
+    it('should parse CSV rows by header name and normalize numbers to E.164', () => {
+      const csv = 'name,Number,status\nAda,+1 (212) 555-0123,\nBob,212.555.0124,DO_NOT_CALL\n';
+      expect([...parseContactRows(csv, 'csv', 'US')]).toEqual([
+        { row: 2, contact: { number: '+12125550123', country_code: 'US', number_type: 'fixed_line_or_mobile' } },
+        {
+          row: 3,
+          contact: { number: '+12125550124', country_code: 'US', number_type: 'fixed_line_or_mobile', status: 'do_not_call' },
+        },
+      ]);
+    });
+
+    it('should report invalid CSV rows with their line number', () => {
+      const csv = 'number,status\r\n\r\n123\r\n+12125550123,blocked\r\n,valid\r\n';
+      expect([...parseContactRows(csv, 'csv')]).toEqual([
+        { row: 3, error: 'Invalid number 123' },
+        { row: 4, error: 'Invalid status blocked' },
+        { row: 5, error: 'Missing number' },
+      ]);
+    });
+
+    it('should stop when the CSV header has no number column', () => {
+      expect([...parseContactRows('phone\n+15550100199\n', 'csv')]).toEqual([
+        { row: 1, error: 'Header must contain a number column' },
+      ]);
+    });
+
+    it('should parse NDJSON rows', () => {
+      const ndjson = '{"number":"+442079460018","status":"invalid"}\nnot json\n[1]\n{"number":12125550123}\n';
+      expect([...parseContactRows(ndjson, 'ndjson')]).toEqual([
+        { row: 1, contact: { number: '+442079460018', country_code: 'GB', number_type: 'fixed_line', status: 'invalid' } },
+        { row: 2, error: 'Invalid JSON' },
+        { row: 3, error: 'Expected a JSON object' },
+        { row: 4, error: 'number must be a string' },
+      ]);
+    });
+  });
+
+  describe('parseContactHeader', () => {
+    it('should locate the number and status columns', () => {
+      expect(parseContactHeader('name,Phone_Number,Status')).toEqual({ numberColumn: 1, statusColumn: 2 });
+      expect(parseContactHeader('number')).toEqual({ numberColumn: 0, statusColumn: -1 });
+    });
+
+    it('should return null without a number column', () => {
+      expect(parseContactHeader('name,phone')).toBeNull();
+    });
+  });
+
+  describe('parseContactRows with a staged chunk', () => {
+    it('should apply the file header and number rows from the chunk start', () => {
+      const header = parseContactHeader('status,number')!;
+      const chunk = 'valid,+12125550123\n\nbogus,+12125550124';
+      expect([...parseContactRows(chunk, 'csv', 'US', { header, firstLineNumber: 501 })]).toEqual([
+        { row: 501, contact: { number: '+12125550123', country_code: 'US', number_type: 'fixed_line_or_mobile', status: 'valid' } },
+        { row: 503, error: 'Invalid status bogus' },
+      ]);
+    });
+  });
+
+  describe('readLines', () => {
+    it('should split a stream into numbered lines across chunk boundaries', async () => {
+      async function* stream() {
+        yield Buffer.from('number\r\n+1555');
+        // A multi-byte character split between chunks
+        yield Buffer.from([0x30, 0x0a, 0xc3]);
+        yield Buffer.from([0xa9, 0x0a]);
+      }
+      const lines = [];
+      for await (const line of readLines(stream())) {
+        lines.push(line);
+      }
+      expect(lines).toEqual([
+        { line: 'number', lineNumber: 1 },
+        { line: '+15550', lineNumber: 2 },
+        { line: '\u00e9', lineNumber: 3 },
+        { line: '', lineNumber: 4 },
+      ]);
+    });
+  });
+});
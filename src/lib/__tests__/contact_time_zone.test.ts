@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import { getScheduleTimeZone, isValidTimeZone, resolveContactTimeZone } from '../contact_time_zone';
+
+describe('contact_time_zone', () => {
+  describe('resolveContactTimeZone', () => {
+    it('prefers the explicit time zone of the contact', () => {
+      expect(
+        resolveContactTimeZone({ number: '+12125550123', country_code: 'US', time_zone: 'America/Chicago' })
+      ).toBe('America/Chicago');
+    });
+
+    it('derives the time zone from a North American area code', () => {
+      expect(resolveContactTimeZone({ number: '+12125550123', country_code: 'US', time_zone: null })).toBe(
+        'America/New_York'
+      );
+      expect(resolveContactTimeZone({ number: '+14155550123', country_code: 'US', time_zone: null })).toBe(
+        'America/Los_Angeles'
+      );
+      expect(resolveContactTimeZone({ number: '+16045550123', country_code: 'CA', time_zone: null })).toBe(
+        'America/Vancouver'
+      );
+    });
+
+    it('falls back to the country for single time zone countries', () => {
+      expect(resolveContactTimeZone({ number: '+442079460018', country_code: 'GB', time_zone: null })).toBe(
+        'Europe/London'
+      );
+    });
+
+    it('returns null when the time zone cannot be determined', () => {
+      expect(resolveContactTimeZone({ number: '+61255501234', country_code: 'AU', time_zone: null })).toBeNull();
+    });
+  });
+
+  describe('getScheduleTimeZone', () => {
+    const contact = { number: '+14155550123', country_code: 'US', time_zone: null };
+
+    it("uses the schedule's time zone unless use_contact_time_zone is set", () => {
+      expect(getScheduleTimeZone({ time_zone: 'America/New_York', use_contact_time_zone: false }, contact)).toBe(
+        'America/New_York'
+      );
+      expect(getScheduleTimeZone({ time_zone: 'America/New_York', use_contact_time_zone: true }, contact)).toBe(
+        'America/Los_Angeles'
+      );
+    });
+
+    it("falls back to the schedule's time zone for unknown contacts", () => {
+      expect(
+        getScheduleTimeZone(
+          { time_zone: 'America/New_York', use_contact_time_zone: true },
+          { number: '+61255501234', country_code: 'AU', time_zone: null }
+        )
+      ).toBe('America/New_York');
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('accepts IANA names and rejects unknown ones', () => {
+      expect(isValidTimeZone('America/Denver')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getCallTaskJobPriority,
+  NEW_CALL_TASK_PRIORITY,
+  orderForDispatch,
+  RETRY_CALL_TASK_PRIORITY,
+} from '../dispatch_priority';
+
+describe('dispatch_priority', () => {
+  describe('getCallTaskJobPriority', () => {
+    it('should run the highest campaign priority first', () => {
+      expect(getCallTaskJobPriority(10, RETRY_CALL_TASK_PRIORITY)).toBe(1);
+      expect(getCallTaskJobPriority(10, NEW_CALL_TASK_PRIORITY)).toBe(2);
+      expect(getCallTaskJobPriority(1, NEW_CALL_TASK_PRIORITY)).toBe(20);
+    });
+
+    it('should put retries before new calls of the same campaign priority', () => {
+      expect(getCallTaskJobPriority(5, RETRY_CALL_TASK_PRIORITY)).toBeLessThan(getCallTaskJobPriority(5, NEW_CALL_TASK_PRIORITY));
+    });
+
+    it('should not let a retry overtake a higher campaign priority', () => {
+      expect(getCallTaskJobPriority(6, NEW_CALL_TASK_PRIORITY)).toBeLessThan(getCallTaskJobPriority(5, RETRY_CALL_TASK_PRIORITY));
+    });
+
+    it('should clamp out-of-range priorities', () => {
+      expect(getCallTaskJobPriority(99, 7)).toBe(1);
+      expect(getCallTaskJobPriority(-3, -1)).toBe(20);
+    });
+  });
+
+  describe('orderForDispatch', () => {
+    const task = (id: string, campaign_id: string, minute: number, campaign_priority = 5, priority = NEW_CALL_TASK_PRIORITY) => ({
+      id,
+      campaign_id,
+      campaign_priority,
+      priority,
+      scheduled_at: new Date(Date.UTC(2024, 0, 1, 9, minute)),
+    });
+
+    it('should let campaigns of the same priority take turns', () => {
+      const tasks = [
+        task('a1', 'a', 0),
+        task('a2', 'a', 1),
+        task('a3', 'a', 2),
+        task('b1', 'b', 5),
+        task('b2', 'b', 6),
+        task('c1', 'c', 3),
+      ];
+      expect(orderForDispatch(tasks).map((t) => t.id)).toEqual(['a1', 'c1', 'b1', 'a2', 'b2', 'a3']);
+    });
+
+    it('should dispatch higher priorities and retries first', () => {
+      const tasks = [
+        task('low', 'a', 0, 3),
+        task('new', 'b', 1, 5),
+        task('retry', 'b', 2, 5, RETRY_CALL_TASK_PRIORITY),
+        task('high', 'c', 3, 8),
+      ];
+      expect(orderForDispatch(tasks).map((t) => t.id)).toEqual(['high', 'retry', 'new', 'low']);
+    });
+
+    it('should not modify the input', () => {
+      const tasks = [task('a2', 'a', 1), task('a1', 'a', 0)];
+      orderForDispatch(tasks);
+      expect(tasks.map((t) => t.id)).toEqual(['a2', 'a1']);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from '@jest/globals';
+import { getBlackoutReason, getHolidays, isSupportedHolidayRegion } from '../holidays';
+
+describe('holidays', () => {
+  describe('getHolidays', () => {
+    it('computes floating US federal holidays', () => {
+      const holidays = getHolidays('US', 2024);
+
+      expect(holidays).toContainEqual({ date: '2024-01-15', name: 'Martin Luther King Jr. Day' });
+      expect(holidays).toContainEqual({ date: '2024-05-27', name: 'Memorial Day' });
+      expect(holidays).toContainEqual({ date: '2024-11-28', name: 'Thanksgiving Day' });
+    });
+
+    it('observes US holidays on a Saturday on the Friday before', () => {
+      // 2026-07-04 is a Saturday
+      expect(getHolidays('US', 2026)).toContainEqual({ date: '2026-07-03', name: 'Independence Day (observed)' });
+    });
+
+    it('computes Easter based holidays', () => {
+      const holidays = getHolidays('GB', 2024);
+
+      expect(holidays).toContainEqual({ date: '2024-03-29', name: 'Good Friday' });
+      expect(holidays).toContainEqual({ date: '2024-04-01', name: 'Easter Monday' });
+    });
+
+    it('gives weekend Christmas and Boxing Day separate substitute days in the UK', () => {
+      // 2021-12-25 is a Saturday, 2021-12-26 a Sunday
+      const holidays = getHolidays('GB', 2021);
+
+      expect(holidays).toContainEqual({ date: '2021-12-27', name: 'Christmas Day (observed)' });
+      expect(holidays).toContainEqual({ date: '2021-12-28', name: 'Boxing Day (observed)' });
+    });
+
+    it('uses the holidays of the region', () => {
+      expect(getHolidays('GB-SCT', 2024)).toContainEqual({ date: '2024-08-05', name: 'Summer bank holiday' });
+      expect(getHolidays('CA', 2024)).toContainEqual({ date: '2024-05-20', name: 'Victoria Day' });
+    });
+
+    it('returns nothing for unknown regions', () => {
+      expect(isSupportedHolidayRegion('XX')).toBe(false);
+      expect(getHolidays('XX', 2024)).toEqual([]);
+    });
+  });
+
+  describe('getBlackoutReason', () => {
+    const calendar = {
+      region: 'US',
+      holiday_calendar_dates: [
+        { name: 'Year end shutdown', start_date: new Date('2024-12-23T00:00:00Z'), end_date: new Date('2024-12-31T00:00:00Z') },
+      ],
+    };
+
+    it('matches holidays and blackout ranges', () => {
+      expect(getBlackoutReason(calendar, '2024-07-04')).toBe('Independence Day');
+      expect(getBlackoutReason(calendar, '2024-12-27')).toBe('Year end shutdown');
+      expect(getBlackoutReason(calendar, '2024-12-31')).toBe('Year end shutdown');
+      expect(getBlackoutReason(calendar, '2024-07-05')).toBeNull();
+    });
+
+    it("matches a New Year's Day observed in the previous year", () => {
+      // 2022-01-01 is a Saturday
+      expect(getBlackoutReason({ region: 'US', holiday_calendar_dates: [] }, '2021-12-31')).toBe(
+        "New Year's Day (observed)"
+      );
+    });
+  });
+});
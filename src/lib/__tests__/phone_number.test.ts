@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { normalizePhoneNumber } from '../phone_number';
+
+describe('phone_number', () => {
+  describe('normalizePhoneNumber', () => {
+    it('should normalize differently formatted numbers to the same E.164 value', () => {
+      const formatted = normalizePhoneNumber('+1 (212) 555-0123');
+      const national = normalizePhoneNumber('2125550123', 'US');
+
+      expect(formatted).toEqual({ number: '+12125550123', country_code: 'US', number_type: 'fixed_line_or_mobile' });
+      expect(national).toEqual(formatted);
+    });
+
+    it('should read national numbers in the default country', () => {
+      expect(normalizePhoneNumber('020 7946 0018', 'gb')).toEqual({
+        number: '+442079460018',
+        country_code: 'GB',
+        number_type: 'fixed_line',
+      });
+    });
+
+    it('should accept the 00 international prefix without a default country', () => {
+      expect(normalizePhoneNumber('0044 20 7946 0018')?.number).toBe('+442079460018');
+    });
+
+    it('should derive the number type', () => {
+      expect(normalizePhoneNumber('+1 800 555 0199')?.number_type).toBe('toll_free');
+    });
+
+    it('should reject national numbers without a default country', () => {
+      expect(normalizePhoneNumber('2125550123')).toBeNull();
+    });
+
+    it('should accept fictional numbers of a possible length', () => {
+      expect(normalizePhoneNumber('+1 555 010 0199')).toEqual({ number: '+15550100199', country_code: null, number_type: null });
+      expect(normalizePhoneNumber('1 (555) 010-0199', 'US')?.number).toBe('+15550100199');
+    });
+
+    it('should reject unparseable numbers and numbers of an impossible length', () => {
+      expect(normalizePhoneNumber('not a number', 'US')).toBeNull();
+      expect(normalizePhoneNumber('12345', 'US')).toBeNull();
+      expect(normalizePhoneNumber('+1 212 555 01234')).toBeNull();
+    });
+  });
+});
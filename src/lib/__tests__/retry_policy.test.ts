@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { resolveRetryDecision } from '../retry_policy';
+
+describe('retry_policy', () => {
+  describe('resolveRetryDecision', () => {
+    const limits = { retryCount: 0, maxRetries: 3, defaultDelaySeconds: 300 };
+
+    it('should retry with the campaign delay when no policy is set', () => {
+      expect(resolveRetryDecision(null, 'no_answer', limits)).toEqual({
+        retry: true,
+        delaySeconds: 300,
+        markNumberInvalid: false,
+      });
+    });
+
+    it('should use the default delay of an outcome when the policy does not mention it', () => {
+      expect(resolveRetryDecision({}, 'carrier_error', limits).delaySeconds).toBe(60);
+    });
+
+    it('should not retry rejected calls by default', () => {
+      expect(resolveRetryDecision(null, 'rejected', limits).retry).toBe(false);
+    });
+
+    it('should apply custom per-outcome rules', () => {
+      const policy = {
+        busy: { retry: true, delay_seconds: 900 },
+        voicemail: { retry: false },
+      };
+
+      expect(resolveRetryDecision(policy, 'busy', limits)).toEqual({
+        retry: true,
+        delaySeconds: 900,
+        markNumberInvalid: false,
+      });
+      expect(resolveRetryDecision(policy, 'voicemail', limits).retry).toBe(false);
+    });
+
+    it('should stop retrying once max_retries is reached', () => {
+      const decision = resolveRetryDecision(null, 'busy', { ...limits, retryCount: 3 });
+      expect(decision.retry).toBe(false);
+    });
+
+    it('should never retry invalid numbers and flag them, whatever the policy says', () => {
+      const decision = resolveRetryDecision({ invalid_number: { retry: true } }, 'invalid_number', limits);
+      expect(decision).toEqual({ retry: false, delaySeconds: 0, markNumberInvalid: true });
+    });
+
+    it('should fall back to the defaults when the stored policy is malformed', () => {
+      const decision = resolveRetryDecision({ busy: { retry: 'yes' } }, 'busy', limits);
+      expect(decision.retry).toBe(true);
+    });
+  });
+});
@@ -1,24 +1,28 @@
 import { describe, it, expect } from '@jest/globals';
-import { getNextValidScheduleDate } from '../schedule_utils';
+import { expandScheduleWindows, findDstTransitions, getNextValidScheduleDate } from '../schedule_utils';
 import { call_schedules } from '@prisma/client';
 import { fromZonedTime, toZonedTime } from 'date-fns-tz';
 
 describe('schedule_utils', () => {
-  describe('getNextValidScheduleDate', () => {
-    // Helper function to create a mock schedule
-    const createSchedule = (
-      scheduleRules: any,
-      timeZone: string = 'America/New_York'
-    ): call_schedules => ({
-      id: '1',
-      name: 'Test Schedule',
-      user_id: '1',
-      schedule_rules: scheduleRules,
-      time_zone: timeZone,
-      created_at: new Date(),
-      updated_at: new Date(),
-    });
+  // Helper function to create a mock schedule
+  const createSchedule = (
+    scheduleRules: any,
+    timeZone: string = 'America/New_York'
+  ): call_schedules => ({
+    id: '1',
+    name: 'Test Schedule',
+    user_id: '1',
+    schedule_rules: scheduleRules,
+    time_zone: timeZone,
+    use_contact_time_zone: false,
+    holiday_calendar_id: null,
+    valid_from: null,
+    valid_until: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
 
+  describe('getNextValidScheduleDate', () => {
     describe('Invalid schedule rules', () => {
       it('should return null for invalid schedule_rules format', () => {
         const schedule = createSchedule({
@@ -303,6 +307,21 @@ describe('schedule_utils', () => {
           expect(resultUTC.getMinutes()).toBe(0);
         }
       });
+
+      it('should evaluate the window in the time zone passed in options', () => {
+        const schedule = createSchedule({
+          days: ['monday'],
+          start_time: '09:00',
+          end_time: '17:00',
+        }, 'America/New_York');
+
+        // Monday at 9:30 AM New York is 6:30 AM in Los Angeles
+        const mondayMorningUtc = fromZonedTime(new Date('2024-01-15T09:30:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(schedule, mondayMorningUtc, { timeZone: 'America/Los_Angeles' });
+
+        expect(result).toEqual(fromZonedTime(new Date('2024-01-15T09:00:00'), 'America/Los_Angeles'));
+      });
     });
 
     describe('Edge cases', () => {
@@ -440,6 +459,301 @@ describe('schedule_utils', () => {
         }
       });
     });
+
+    describe('Multiple windows', () => {
+      const splitDaySchedule = () =>
+        createSchedule({
+          windows: [
+            { days: ['monday', 'tuesday'], start_time: '09:00', end_time: '12:00' },
+            { days: ['monday', 'tuesday'], start_time: '13:00', end_time: '17:00' },
+            { days: ['saturday'], start_time: '10:00', end_time: '14:00' },
+          ],
+        }, 'America/New_York');
+
+      it('should wait for the next window of the same day', () => {
+        // Monday at 12:30 PM EST, between the two windows
+        const mondayLunch = fromZonedTime(new Date('2024-01-15T12:30:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(splitDaySchedule(), mondayLunch);
+
+        expect(result).toEqual(fromZonedTime(new Date('2024-01-15T13:00:00'), 'America/New_York'));
+      });
+
+      it('should return current time when within the second window', () => {
+        const mondayAfternoon = fromZonedTime(new Date('2024-01-15T15:00:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(splitDaySchedule(), mondayAfternoon);
+
+        expect(result).toEqual(mondayAfternoon);
+      });
+
+      it('should use the hours of the next day that has windows', () => {
+        // Tuesday at 6:00 PM EST, the next window is Saturday 10:00
+        const tuesdayEvening = fromZonedTime(new Date('2024-01-16T18:00:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(splitDaySchedule(), tuesdayEvening);
+
+        expect(result).toEqual(fromZonedTime(new Date('2024-01-20T10:00:00'), 'America/New_York'));
+      });
+
+      it('should return null when a window is invalid', () => {
+        const schedule = createSchedule({
+          windows: [{ days: ['monday'], start_time: '09:00', end_time: '25:00' }],
+        });
+
+        expect(getNextValidScheduleDate(schedule)).toBeNull();
+      });
+    });
+
+    describe('Windows crossing midnight', () => {
+      const nightSchedule = () =>
+        createSchedule({
+          windows: [{ days: ['friday'], start_time: '22:00', end_time: '02:00' }],
+        }, 'America/New_York');
+
+      it('should treat the early hours of the next day as part of the window', () => {
+        // Saturday at 1:00 AM EST belongs to Friday's window
+        const saturdayNight = fromZonedTime(new Date('2024-01-20T01:00:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(nightSchedule(), saturdayNight);
+
+        expect(result).toEqual(saturdayNight);
+      });
+
+      it('should move to the next start once the window has closed', () => {
+        // Saturday at 3:00 AM EST, after Friday's window closed
+        const saturdayMorning = fromZonedTime(new Date('2024-01-20T03:00:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(nightSchedule(), saturdayMorning);
+
+        expect(result).toEqual(fromZonedTime(new Date('2024-01-26T22:00:00'), 'America/New_York'));
+      });
+    });
+
+    describe('Holiday calendars', () => {
+      const weekdaySchedule = () =>
+        createSchedule({
+          days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+          start_time: '09:00',
+          end_time: '17:00',
+        }, 'America/New_York');
+
+      it('should skip public holidays of the calendar region', () => {
+        // Thursday 2024-07-04 is Independence Day
+        const independenceDay = fromZonedTime(new Date('2024-07-04T10:00:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(weekdaySchedule(), independenceDay, {
+          holidayCalendar: { region: 'US', holiday_calendar_dates: [] },
+        });
+
+        expect(result).toEqual(fromZonedTime(new Date('2024-07-05T09:00:00'), 'America/New_York'));
+      });
+
+      it('should skip custom blackout ranges', () => {
+        const monday = fromZonedTime(new Date('2024-08-12T08:00:00'), 'America/New_York');
+
+        const result = getNextValidScheduleDate(weekdaySchedule(), monday, {
+          holidayCalendar: {
+            region: null,
+            holiday_calendar_dates: [
+              { name: 'Offsite', start_date: new Date('2024-08-12T00:00:00Z'), end_date: new Date('2024-08-14T00:00:00Z') },
+            ],
+          },
+        });
+
+        expect(result).toEqual(fromZonedTime(new Date('2024-08-15T09:00:00'), 'America/New_York'));
+      });
+    });
+
+    describe('Sparse windows', () => {
+      const at = (local: string) => fromZonedTime(new Date(local), 'America/New_York');
+
+      it('should find the first Monday of the next month', () => {
+        const schedule = createSchedule({
+          windows: [{ nth_weekdays: [{ n: 1, weekday: 'monday' }], start_time: '09:00', end_time: '17:00' }],
+        });
+
+        // Wednesday 2024-01-10, January's first Monday has passed
+        expect(getNextValidScheduleDate(schedule, at('2024-01-10T10:00:00'))).toEqual(at('2024-02-05T09:00:00'));
+      });
+
+      it('should count negative month days from the end of the month', () => {
+        const schedule = createSchedule({ month_days: [-1], start_time: '09:00', end_time: '17:00' });
+
+        expect(getNextValidScheduleDate(schedule, at('2024-02-10T10:00:00'))).toEqual(at('2024-02-29T09:00:00'));
+      });
+
+      it('should skip months without the requested day', () => {
+        const schedule = createSchedule({ month_days: [31], start_time: '09:00', end_time: '17:00' });
+
+        // April has 30 days
+        expect(getNextValidScheduleDate(schedule, at('2024-04-01T10:00:00'))).toEqual(at('2024-05-31T09:00:00'));
+      });
+
+      it('should find specific dates far in the future', () => {
+        const schedule = createSchedule({
+          windows: [{ dates: ['2023-06-01', '2025-03-15'], start_time: '10:00', end_time: '12:00' }],
+        });
+
+        expect(getNextValidScheduleDate(schedule, at('2024-06-01T10:00:00'))).toEqual(at('2025-03-15T10:00:00'));
+      });
+
+      it('should return null when every date has passed', () => {
+        const schedule = createSchedule({
+          windows: [{ dates: ['2023-06-01'], start_time: '10:00', end_time: '12:00' }],
+        });
+
+        expect(getNextValidScheduleDate(schedule, at('2024-06-01T10:00:00'))).toBeNull();
+      });
+
+      it('should move past a holiday to the next occurrence', () => {
+        const schedule = createSchedule({
+          windows: [{ nth_weekdays: [{ n: 1, weekday: 'monday' }], start_time: '09:00', end_time: '17:00' }],
+        });
+
+        // The first Monday of September 2024 is Labor Day
+        const result = getNextValidScheduleDate(schedule, at('2024-08-20T10:00:00'), {
+          holidayCalendar: { region: 'US', holiday_calendar_dates: [] },
+        });
+
+        expect(result).toEqual(at('2024-10-07T09:00:00'));
+      });
+
+      it('should return null for windows without any days', () => {
+        expect(getNextValidScheduleDate(createSchedule({ windows: [{ start_time: '09:00', end_time: '17:00' }] }))).toBeNull();
+        expect(
+          getNextValidScheduleDate(
+            createSchedule({ nth_weekdays: [{ n: 0, weekday: 'monday' }], start_time: '09:00', end_time: '17:00' })
+          )
+        ).toBeNull();
+      });
+    });
+
+    describe('Schedule and campaign periods', () => {
+      const at = (local: string) => fromZonedTime(new Date(local), 'America/New_York');
+      const weekdaySchedule = (validity: Partial<call_schedules> = {}) => ({
+        ...createSchedule({
+          days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+          start_time: '09:00',
+          end_time: '17:00',
+        }),
+        ...validity,
+      });
+
+      it('should not return slots before valid_from or the campaign start', () => {
+        const monday = at('2024-01-15T10:00:00');
+
+        expect(getNextValidScheduleDate(weekdaySchedule({ valid_from: at('2024-01-17T00:00:00') }), monday)).toEqual(
+          at('2024-01-17T09:00:00')
+        );
+        expect(getNextValidScheduleDate(weekdaySchedule(), monday, { startsAt: at('2024-01-16T12:30:00') })).toEqual(
+          at('2024-01-16T12:30:00')
+        );
+      });
+
+      it('should return null once valid_until or the campaign end has passed', () => {
+        const friday = at('2024-01-19T18:00:00');
+
+        expect(getNextValidScheduleDate(weekdaySchedule({ valid_until: at('2024-01-21T00:00:00') }), friday)).toBeNull();
+        expect(getNextValidScheduleDate(weekdaySchedule(), friday, { endsAt: at('2024-01-22T09:00:00') })).toBeNull();
+        expect(getNextValidScheduleDate(weekdaySchedule(), friday, { endsAt: at('2024-01-22T09:01:00') })).toEqual(
+          at('2024-01-22T09:00:00')
+        );
+      });
+    });
   });
-});
 
+  describe('expandScheduleWindows', () => {
+    it('should list the windows of each day in UTC and local time', () => {
+      const schedule = createSchedule({
+        windows: [
+          { days: ['monday'], start_time: '09:00', end_time: '12:00' },
+          { days: ['monday'], start_time: '13:00', end_time: '17:00' },
+        ],
+      }, 'America/New_York');
+
+      const windows = expandScheduleWindows(schedule, new Date('2024-01-15T12:00:00Z'), 7);
+
+      expect(windows).toEqual([
+        {
+          date: '2024-01-15',
+          weekday: 'monday',
+          local_start: '2024-01-15T09:00',
+          local_end: '2024-01-15T12:00',
+          start: new Date('2024-01-15T14:00:00Z'),
+          end: new Date('2024-01-15T17:00:00Z'),
+          utc_offset: '-05:00',
+          dst_transition: false,
+          holiday: null,
+        },
+        {
+          date: '2024-01-15',
+          weekday: 'monday',
+          local_start: '2024-01-15T13:00',
+          local_end: '2024-01-15T17:00',
+          start: new Date('2024-01-15T18:00:00Z'),
+          end: new Date('2024-01-15T22:00:00Z'),
+          utc_offset: '-05:00',
+          dst_transition: false,
+          holiday: null,
+        },
+      ]);
+    });
+
+    it('should flag windows spanning a DST change and windows on holidays', () => {
+      // DST starts in New York on Sunday 2024-03-10 at 02:00
+      const schedule = createSchedule({
+        windows: [{ days: ['saturday'], start_time: '22:00', end_time: '06:00' }],
+      }, 'America/New_York');
+
+      const windows = expandScheduleWindows(schedule, new Date('2024-03-09T12:00:00Z'), 1, {
+        holidayCalendar: {
+          region: null,
+          holiday_calendar_dates: [
+            { name: 'Maintenance', start_date: new Date('2024-03-09T00:00:00Z'), end_date: new Date('2024-03-09T00:00:00Z') },
+          ],
+        },
+      });
+
+      expect(windows).toHaveLength(1);
+      expect(windows![0].start).toEqual(new Date('2024-03-10T03:00:00Z'));
+      expect(windows![0].end).toEqual(new Date('2024-03-10T10:00:00Z'));
+      expect(windows![0].dst_transition).toBe(true);
+      expect(windows![0].holiday).toBe('Maintenance');
+    });
+
+    it('should leave out windows outside valid_from and valid_until', () => {
+      const schedule = {
+        ...createSchedule({ days: ['monday', 'tuesday', 'wednesday'], start_time: '09:00', end_time: '17:00' }, 'UTC'),
+        valid_from: new Date('2024-01-15T12:00:00Z'),
+        valid_until: new Date('2024-01-17T00:00:00Z'),
+      };
+
+      const windows = expandScheduleWindows(schedule, new Date('2024-01-15T00:00:00Z'), 3);
+
+      expect(windows!.map((window) => window.date)).toEqual(['2024-01-15', '2024-01-16']);
+    });
+
+    it('should return null for invalid rules', () => {
+      expect(expandScheduleWindows(createSchedule({ days: [] }), new Date(), 7)).toBeNull();
+    });
+  });
+
+  describe('findDstTransitions', () => {
+    it('should find the instant the UTC offset changes', () => {
+      const transitions = findDstTransitions(
+        'America/New_York',
+        new Date('2024-03-08T00:00:00Z'),
+        new Date('2024-03-15T00:00:00Z')
+      );
+
+      expect(transitions).toEqual([
+        { at: new Date('2024-03-10T07:00:00Z'), offset_before: '-05:00', offset_after: '-04:00' },
+      ]);
+    });
+
+    it('should return nothing for time zones without DST', () => {
+      expect(findDstTransitions('Asia/Tokyo', new Date('2024-03-01T00:00:00Z'), new Date('2024-04-01T00:00:00Z'))).toEqual([]);
+    });
+  });
+});
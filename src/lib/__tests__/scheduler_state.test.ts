@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { planNextSchedulerRun } from '../scheduler_state';
+
+describe('scheduler_state', () => {
+  describe('planNextSchedulerRun', () => {
+    const options = { intervalMs: 60_000, jitterMs: 5_000 };
+    const at = (seconds: number) => new Date(Date.UTC(2024, 0, 1, 12, 0, 0) + seconds * 1000);
+
+    it('should run right away without a previous tick', () => {
+      expect(planNextSchedulerRun(null, at(0), options)).toEqual({ tickAt: at(0), runAt: at(0), missedTicks: 0 });
+    });
+
+    it('should plan the next tick one interval later, jittered', () => {
+      expect(planNextSchedulerRun(at(0), at(2), options, () => 0.5)).toEqual({
+        tickAt: at(60),
+        runAt: at(62.5),
+        missedTicks: 0,
+      });
+    });
+
+    it('should keep the cadence whatever the jitter of the previous run', () => {
+      expect(planNextSchedulerRun(at(60), at(64), options, () => 0).tickAt).toEqual(at(120));
+    });
+
+    it('should catch up right away on missed ticks', () => {
+      expect(planNextSchedulerRun(at(0), at(200), options)).toEqual({ tickAt: at(200), runAt: at(200), missedTicks: 3 });
+    });
+
+    it('should count a run that overran its next tick as one missed tick', () => {
+      expect(planNextSchedulerRun(at(0), at(61), options).missedTicks).toBe(1);
+    });
+
+    it('should not jitter past the following tick', () => {
+      const plan = planNextSchedulerRun(at(0), at(1), { intervalMs: 10_000, jitterMs: 30_000 }, () => 0.99);
+      expect(plan.runAt.getTime()).toBeLessThan(at(20).getTime());
+    });
+  });
+});
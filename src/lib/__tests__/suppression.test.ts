@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { normalizeDialString, normalizeSuppressionValue, parseSuppressionCsv } from '../suppression';
+
+describe('suppression', () => {
+  describe('normalizeDialString', () => {
+    it('should strip formatting and keep a leading plus', () => {
+      expect(normalizeDialString(' +1 (555) 010-0199 ')).toBe('+15550100199');
+    });
+
+    it('should not add a plus to national numbers', () => {
+      expect(normalizeDialString('555.010.0199')).toBe('5550100199');
+    });
+  });
+
+  describe('normalizeSuppressionValue', () => {
+    it('should store numbers in E.164', () => {
+      expect(normalizeSuppressionValue('number', '+1 (555) 010-0199')).toBe('+15550100199');
+      expect(normalizeSuppressionValue('number', '555 010 0199', 'US')).toBe('+15550100199');
+      expect(normalizeSuppressionValue('number', '020 7946 0018', 'GB')).toBe('+442079460018');
+    });
+
+    it('should read digits that are not a national number as international', () => {
+      expect(normalizeSuppressionValue('number', '15551234567')).toBe('+15551234567');
+      expect(normalizeSuppressionValue('number', '0044 20 7946 0018')).toBe('+442079460018');
+    });
+
+    it('should reject impossible numbers', () => {
+      expect(normalizeSuppressionValue('number', '12345')).toBeNull();
+    });
+
+    it('should anchor prefixes at the country calling code', () => {
+      expect(normalizeSuppressionValue('prefix', '1555')).toBe('+1555');
+      expect(normalizeSuppressionValue('prefix', '+1 555')).toBe('+1555');
+      expect(normalizeSuppressionValue('prefix', '001555')).toBe('+1555');
+    });
+
+    it('should reject prefixes that cannot start an E.164 number', () => {
+      expect(normalizeSuppressionValue('prefix', '0207')).toBeNull();
+      expect(normalizeSuppressionValue('prefix', '+')).toBeNull();
+    });
+  });
+
+  describe('parseSuppressionCsv', () => {
+    it('should parse entries by header name', () => {
+      const csv = 'reason,number,match_type,expires_at\nOpted out,+1 555 010 0199,,\n"Premium, rate",+1900,prefix,2030-01-01T00:00:00Z\n';
+      const { entries, errors } = parseSuppressionCsv(csv);
+
+      expect(errors).toEqual([]);
+      expect(entries).toEqual([
+        { match_type: 'number', value: '+15550100199', reason: 'Opted out' },
+        {
+          match_type: 'prefix',
+          value: '+1900',
+          reason: 'Premium, rate',
+          expires_at: new Date('2030-01-01T00:00:00Z'),
+        },
+      ]);
+    });
+
+    it('should report invalid rows with their line number and keep the rest', () => {
+      const csv =
+        'value,match_type,expires_at\r\n+15550100199,range,\r\n,,\r\n+15550100100,number,soon\r\n12345,,\r\n+15550100101,,\r\n';
+      const { entries, errors } = parseSuppressionCsv(csv);
+
+      expect(entries).toEqual([{ match_type: 'number', value: '+15550100101' }]);
+      expect(errors).toEqual([
+        { row: 2, message: 'Invalid match_type range' },
+        { row: 3, message: 'Missing number' },
+        { row: 4, message: 'Invalid expires_at soon' },
+        { row: 5, message: 'Invalid number 12345' },
+      ]);
+    });
+
+    it('should read national numbers in the default country', () => {
+      const { entries } = parseSuppressionCsv('number,match_type\n(555) 010-0199,\n1555,prefix\n', 'US');
+      expect(entries).toEqual([
+        { match_type: 'number', value: '+15550100199' },
+        { match_type: 'prefix', value: '+1555' },
+      ]);
+    });
+
+    it('should reject files without a number column', () => {
+      const { entries, errors } = parseSuppressionCsv('phone\n+15550100199\n');
+      expect(entries).toEqual([]);
+      expect(errors).toEqual([{ row: 1, message: 'Header must contain a value or number column' }]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+
+// Extend Zod with OpenAPI support, the schemas below are reused in controllers
+extendZodWithOpenApi(z);
+
+export const auditEntityTypeSchema = z
+  .enum(['call_campaign', 'call_schedule', 'phone_number'])
+  .openapi({ description: 'Kind of entity that was changed', example: 'call_campaign' });
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+export const MAX_AUDIT_LIMIT = 1000;
+
+/**
+ * Time range and page size query parameters of the audit endpoints.
+ */
+export const auditLogQuerySchema = z.object({
+  from: z.string().datetime('Invalid datetime').optional().openapi({
+    description: 'Only changes made at or after this instant',
+    example: '2024-01-01T00:00:00Z',
+  }),
+  to: z.string().datetime('Invalid datetime').optional().openapi({
+    description: 'Only changes made before this instant',
+    example: '2024-02-01T00:00:00Z',
+  }),
+  limit: z
+    .string()
+    .regex(/^\d+$/, 'limit must be a positive integer')
+    .refine((limit) => Number(limit) >= 1 && Number(limit) <= MAX_AUDIT_LIMIT, {
+      message: `limit must be between 1 and ${MAX_AUDIT_LIMIT}`,
+    })
+    .optional()
+    .openapi({ description: `Maximum number of entries, newest first, defaults to ${DEFAULT_AUDIT_LIMIT}`, example: '50' }),
+});
+
+/**
+ * An audit log entry as returned by the API.
+ */
+export const auditLogEntrySchema = z.object({
+  id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  user_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  entity_type: auditEntityTypeSchema,
+  entity_id: z.string().uuid().openapi({ example: '123e4567-e89b-12d3-a456-426614174000' }),
+  action: z.string().openapi({ description: 'create, update, delete, add_phone_numbers or a campaign lifecycle action', example: 'pause' }),
+  actor: z.string().openapi({
+    description: "The request's X-Actor header, 'api' without one, or 'system' for changes made by workers",
+    example: 'jane@example.com',
+  }),
+  changes: z.record(z.string(), z.object({ before: z.unknown(), after: z.unknown() })).openapi({
+    example: { status: { before: 'running', after: 'paused' } },
+  }),
+  created_at: z.string().datetime().nullable().openapi({ example: '2024-01-01T00:00:00Z' }),
+});
+
+// Bookkeeping columns that change on every write
+const ignoredFields = new Set(['created_at', 'updated_at']);
+
+const actorStorage = new AsyncLocalStorage<{ actor: string }>();
+
+/**
+ * Runs a function with the given actor recorded as the author of any audited change it makes.
+ */
+export function runWithActor<T>(actor: string, fn: () => T): T {
+  return actorStorage.run({ actor }, fn);
+}
+
+/**
+ * The actor of the current request, or 'system' for changes made outside of one (workers).
+ */
+export function getCurrentActor(): string {
+  return actorStorage.getStore()?.actor ?? 'system';
+}
+
+// Dates and JSON columns are compared and stored in their JSON form
+function toAuditValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Lists the fields that differ between two versions of an entity. Nested relations
+ * (objects that are not JSON columns) should be stripped by the caller.
+ *
+ * @param before - The entity before the change, null for a create.
+ * @param after - The entity after the change, null for a delete.
+ * @returns The changed fields with their old and new values.
+ */
+export function diffEntities(before: object | null, after: object | null): AuditChanges {
+  const oldValues = (before ?? {}) as Record<string, unknown>;
+  const newValues = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(oldValues), ...Object.keys(newValues)])) {
+    if (ignoredFields.has(field)) {
+      continue;
+    }
+    const oldValue = toAuditValue(oldValues[field]);
+    const newValue = toAuditValue(newValues[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,37 @@
+/**
+ * Counters kept on call_campaigns, incremented as tasks are created and finish.
+ */
+export const campaignCounterFields = [
+  'total_tasks',
+  'completed_tasks',
+  'failed_tasks',
+  'skipped_tasks',
+  'expired_tasks',
+  'retries_attempted',
+] as const;
+
+export type CampaignCounterField = (typeof campaignCounterFields)[number];
+
+export type CampaignCounters = Record<CampaignCounterField, number>;
+
+export interface CounterDiscrepancy {
+  counter: CampaignCounterField;
+  stored: number;
+  actual: number;
+}
+
+/**
+ * The counter columns of a campaign, without its other fields.
+ */
+export function pickCampaignCounters(campaign: CampaignCounters): CampaignCounters {
+  return Object.fromEntries(campaignCounterFields.map((field) => [field, campaign[field]])) as CampaignCounters;
+}
+
+/**
+ * Lists the counters whose stored value differs from the one recomputed from the campaign's tasks.
+ */
+export function findCounterDiscrepancies(stored: CampaignCounters, actual: CampaignCounters): CounterDiscrepancy[] {
+  return campaignCounterFields
+    .filter((field) => stored[field] !== actual[field])
+    .map((field) => ({ counter: field, stored: stored[field], actual: actual[field] }));
+}
@@ -0,0 +1,55 @@
+import { campaign_status } from '@prisma/client';
+
+/**
+ * Lifecycle actions exposed as POST /call-campaigns/:id/<action>.
+ */
+export const campaignActions = ['start', 'pause', 'resume', 'cancel', 'archive'] as const;
+
+export type CampaignAction = (typeof campaignActions)[number];
+
+// Statuses each action can be applied in
+const allowedFrom: Record<CampaignAction, campaign_status[]> = {
+  start: ['draft'],
+  pause: ['scheduled', 'running'],
+  resume: ['paused'],
+  cancel: ['draft', 'scheduled', 'running', 'paused'],
+  archive: ['completed', 'cancelled'],
+};
+
+/**
+ * Statuses in which numbers can still be added to a campaign.
+ */
+export const openCampaignStatuses: campaign_status[] = ['draft', 'scheduled', 'running', 'paused'];
+
+/**
+ * Works out the status a campaign moves to when an action is applied. Starting or resuming
+ * a campaign whose starts_at is still ahead leaves it 'scheduled'; the scheduler moves it to
+ * 'running' once starts_at passes.
+ *
+ * @param status - The campaign's current status.
+ * @param action - The requested lifecycle action.
+ * @param startsAt - The campaign's starts_at.
+ * @returns The new status, or null if the action is not allowed in the current status.
+ */
+export function getNextCampaignStatus(
+  status: campaign_status,
+  action: CampaignAction,
+  startsAt: Date | null,
+  now: Date = new Date()
+): campaign_status | null {
+  if (!allowedFrom[action].includes(status)) {
+    return null;
+  }
+
+  switch (action) {
+    case 'start':
+    case 'resume':
+      return startsAt && startsAt > now ? 'scheduled' : 'running';
+    case 'pause':
+      return 'paused';
+    case 'cancel':
+      return 'cancelled';
+    case 'archive':
+      return 'archived';
+  }
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+
+// Extend Zod with OpenAPI support, the schemas below are reused in controllers
+extendZodWithOpenApi(z);
+
+export const metricsIntervalSchema = z
+  .enum(['5m', '1h', '1d'])
+  .openapi({ description: 'Width of each bucket', example: '1h' });
+
+export type MetricsInterval = z.infer<typeof metricsIntervalSchema>;
+
+export const METRICS_INTERVAL_SECONDS: Record<MetricsInterval, number> = {
+  '5m': 5 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+export const DEFAULT_METRICS_INTERVAL: MetricsInterval = '1h';
+
+// How far back the metrics go when `from` is left out
+const DEFAULT_METRICS_LOOKBACK_SECONDS: Record<MetricsInterval, number> = {
+  '5m': 6 * 60 * 60,
+  '1h': 7 * 24 * 60 * 60,
+  '1d': 30 * 24 * 60 * 60,
+};
+
+export const MAX_METRICS_BUCKETS = 2000;
+
+/**
+ * Interval and time range query parameters of the metrics endpoints.
+ */
+export const metricsQuerySchema = z.object({
+  interval: metricsIntervalSchema.optional().openapi({
+    description: `Width of each bucket, defaults to ${DEFAULT_METRICS_INTERVAL}`,
+  }),
+  from: z.string().datetime('Invalid datetime').optional().openapi({
+    description: 'Start of the range, rounded down to a bucket boundary. Defaults to 6 hours, 7 days or 30 days before `to`',
+    example: '2024-01-15T00:00:00Z',
+  }),
+  to: z.string().datetime('Invalid datetime').optional().openapi({
+    description: 'End of the range (exclusive), defaults to now',
+    example: '2024-01-16T00:00:00Z',
+  }),
+});
+
+/**
+ * One bucket of call metrics as returned by the API.
+ */
+export const metricsBucketSchema = z.object({
+  bucket_start: z.string().datetime().openapi({ example: '2024-01-15T09:00:00Z' }),
+  attempts: z.number().int().openapi({ description: 'Calls placed', example: 120 }),
+  completions: z.number().int().openapi({ description: 'Calls that were answered', example: 78 }),
+  failures: z.number().int().openapi({
+    description: 'Calls that ended without being answered (busy, no answer, voicemail, ...)',
+    example: 35,
+  }),
+  retries: z.number().int().openapi({ description: 'Calls that were a retry of an earlier attempt', example: 40 }),
+  average_duration_seconds: z.number().nullable().openapi({
+    description: 'Average duration of the calls that ended, null without any',
+    example: 47.5,
+  }),
+});
+
+export const metricsResponseSchema = z.object({
+  interval: metricsIntervalSchema,
+  from: z.string().datetime().openapi({ example: '2024-01-15T00:00:00Z' }),
+  to: z.string().datetime().openapi({ example: '2024-01-16T00:00:00Z' }),
+  buckets: z.array(metricsBucketSchema).openapi({ description: 'Every bucket of the range, oldest first' }),
+});
+
+export interface MetricsBucket {
+  bucket_start: Date;
+  attempts: number;
+  completions: number;
+  failures: number;
+  retries: number;
+  average_duration_seconds: number | null;
+}
+
+export interface MetricsRange {
+  interval: MetricsInterval;
+  bucketSeconds: number;
+  from: Date;
+  to: Date;
+}
+
+export class InvalidMetricsRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMetricsRangeError';
+  }
+}
+
+/**
+ * Resolves the range of a metrics query. Buckets are aligned to UTC, so `from` is rounded
+ * down to the start of its bucket and 1d buckets are UTC days.
+ *
+ * @throws InvalidMetricsRangeError if the range is empty or has more than MAX_METRICS_BUCKETS buckets.
+ */
+export function resolveMetricsRange(input: {
+  interval?: MetricsInterval;
+  from?: Date;
+  to?: Date;
+  now?: Date;
+}): MetricsRange {
+  const interval = input.interval ?? DEFAULT_METRICS_INTERVAL;
+  const bucketMs = METRICS_INTERVAL_SECONDS[interval] * 1000;
+  const to = input.to ?? input.now ?? new Date();
+  const requestedFrom = input.from ?? new Date(to.getTime() - DEFAULT_METRICS_LOOKBACK_SECONDS[interval] * 1000);
+
+  if (requestedFrom >= to) {
+    throw new InvalidMetricsRangeError('from must be before to');
+  }
+
+  const from = new Date(Math.floor(requestedFrom.getTime() / bucketMs) * bucketMs);
+  const buckets = Math.ceil((to.getTime() - from.getTime()) / bucketMs);
+  if (buckets > MAX_METRICS_BUCKETS) {
+    throw new InvalidMetricsRangeError(
+      `The range spans ${buckets} buckets of ${interval}, at most ${MAX_METRICS_BUCKETS} are allowed`
+    );
+  }
+
+  return { interval, bucketSeconds: METRICS_INTERVAL_SECONDS[interval], from, to };
+}
+
+/**
+ * Lays out every bucket of the range, oldest first, taking the counts of the aggregated rows
+ * and zeroes for buckets without any call.
+ */
+export function fillMetricsBuckets(rows: MetricsBucket[], range: MetricsRange): MetricsBucket[] {
+  const bucketMs = range.bucketSeconds * 1000;
+  const rowsByStart = new Map(rows.map((row) => [row.bucket_start.getTime(), row]));
+
+  const buckets: MetricsBucket[] = [];
+  for (let start = range.from.getTime(); start < range.to.getTime(); start += bucketMs) {
+    buckets.push(
+      rowsByStart.get(start) ?? {
+        bucket_start: new Date(start),
+        attempts: 0,
+        completions: 0,
+        failures: 0,
+        retries: 0,
+        average_duration_seconds: null,
+      }
+    );
+  }
+  return buckets;
+}
@@ -0,0 +1,72 @@
+/**
+ * How far ahead the completion estimate looks for calling windows.
+ */
+export const ETA_HORIZON_DAYS = 366;
+
+/**
+ * Why a campaign has no estimated completion time.
+ */
+export type EtaUnavailableReason =
+  | 'campaign_closed' // Completed, cancelled or archived, nothing more is dialed
+  | 'no_call_data' // No finished call yet to measure call duration on
+  | 'no_schedule' // No schedule, or its rules are invalid
+  | 'after_campaign_end' // The remaining calls don't fit before ends_at
+  | 'beyond_horizon'; // The remaining calls don't fit in the windows of the next ETA_HORIZON_DAYS days
+
+/**
+ * Expected number of dial attempts a task takes, from the attempts made so far. Tasks that
+ * were never dialed don't count, and every task takes at least one attempt.
+ *
+ * @param histogram - Number of tasks per number of attempts made.
+ */
+export function getAttemptsPerTask(histogram: { attempts: number; tasks: number }[]): number {
+  const dialed = histogram.filter((bucket) => bucket.attempts > 0);
+  const tasks = dialed.reduce((sum, bucket) => sum + bucket.tasks, 0);
+  const attempts = dialed.reduce((sum, bucket) => sum + bucket.attempts * bucket.tasks, 0);
+  return tasks > 0 ? Math.max(1, attempts / tasks) : 1;
+}
+
+/**
+ * Estimates when the remaining calls of a campaign are done, dialing `concurrency` calls at
+ * a time while the calling windows are open. Retry delays and per-contact time zones are
+ * not taken into account.
+ *
+ * @param input.remainingAttempts - Dial attempts still to be made.
+ * @param input.averageCallSeconds - Average time an attempt occupies a line.
+ * @param input.concurrency - The campaign's max_concurrent_calls.
+ * @param input.windows - Calling windows in chronological order, without blacked-out ones.
+ * @param input.from - No calls are placed before this instant (now or the campaign's starts_at).
+ * @returns The estimated completion time, or null if the calls don't fit in the windows.
+ */
+export function estimateCompletion(input: {
+  remainingAttempts: number;
+  averageCallSeconds: number;
+  concurrency: number;
+  windows: { start: Date; end: Date }[];
+  from: Date;
+}): Date | null {
+  // Line-seconds still needed, spread over `concurrency` lines
+  let needed = (input.remainingAttempts * input.averageCallSeconds) / input.concurrency;
+  if (needed <= 0) {
+    return input.from;
+  }
+
+  // Overlapping windows are only counted once
+  let cursor = input.from.getTime();
+  for (const window of input.windows) {
+    const start = Math.max(window.start.getTime(), cursor);
+    const end = window.end.getTime();
+    if (end <= start) {
+      continue;
+    }
+
+    const available = (end - start) / 1000;
+    if (needed <= available) {
+      return new Date(start + Math.ceil(needed * 1000));
+    }
+    needed -= available;
+    cursor = end;
+  }
+
+  return null;
+}
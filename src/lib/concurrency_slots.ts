@@ -0,0 +1,287 @@
+import { getRedisClient } from './redis';
+
+/**
+ * How long a concurrency slot is held without a heartbeat. The call task worker refreshes
+ * its slots while it polls the call, so a crashed worker's slots free up after this long.
+ */
+export const CALL_SLOT_TTL_MS = Number(process.env.CALL_SLOT_TTL_MS ?? 60 * 1000);
+
+// Window the per-second dial rate of a scope is counted over
+const DIAL_RATE_WINDOW_MS = 1000;
+
+// Slots are tokens in a sorted set scored by when they expire (ms since the epoch, Redis clock).
+// A hash alongside records who took each token and when, for the admin endpoints.
+function getSlotsKey(scope: string): string {
+  return `${scope}:slots`;
+}
+
+function getSlotHoldersKey(scope: string): string {
+  return `${scope}:slot_holders`;
+}
+
+// Recent dials of a scope, scored by when they were placed, for its calls-per-second limit
+function getDialsKey(scope: string): string {
+  return `${scope}:dials`;
+}
+
+// The scopes a token holds slots in, so they can be refreshed and released together
+function getTokenScopesKey(token: string): string {
+  return `call_slot:${token}:scopes`;
+}
+
+/**
+ * Slots limiting the concurrent calls of a campaign to its max_concurrent_calls.
+ */
+export function getCampaignSlotScope(campaignId: string): string {
+  return `campaign:${campaignId}`;
+}
+
+/**
+ * Slots shared by every campaign of a user (account).
+ */
+export function getUserSlotScope(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Slots shared by every call placed from an outbound number (E.164).
+ */
+export function getCallerIdSlotScope(callerId: string): string {
+  return `caller_id:${callerId}`;
+}
+
+/**
+ * Slots shared by every call placed through a carrier trunk, i.e. a telephony provider.
+ */
+export function getTrunkSlotScope(trunk: string): string {
+  return `trunk:${trunk}`;
+}
+
+/**
+ * Token of the slots a claim on a call task takes to dial. Each claim has its own, so the
+ * release for a call of a superseded claim never frees the slots of the claim after it.
+ */
+export function getCallSlotToken(callTaskId: string, claimedAt: Date): string {
+  return `${callTaskId}:${claimedAt.getTime()}`;
+}
+
+/**
+ * The call task and claim a slot token was taken for, claimedAt is null for a bare call task ID.
+ */
+export function parseCallSlotToken(token: string): { callTaskId: string; claimedAt: Date | null } {
+  const [callTaskId, claimedAt] = token.split(':');
+  return { callTaskId, claimedAt: claimedAt ? new Date(Number(claimedAt)) : null };
+}
+
+// Sets `now` (ms, Redis clock) for the rest of the script
+const REDIS_NOW = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+`;
+
+// Drops the expired tokens of the scope whose keys are `slots` and `holders`
+const PRUNE_EXPIRED_SLOTS = `
+local function prune(slots, holders)
+  local expired = redis.call('ZRANGEBYSCORE', slots, '-inf', now)
+  if #expired > 0 then
+    redis.call('ZREM', slots, unpack(expired))
+    redis.call('HDEL', holders, unpack(expired))
+  end
+end
+`;
+
+// Lets both keys of a scope go once its last token expires
+const EXPIRE_WITH_LAST_SLOT = `
+local function expire_with_last_slot(slots, holders)
+  local last = redis.call('ZRANGE', slots, -1, -1, 'WITHSCORES')
+  if #last > 0 then
+    redis.call('PEXPIREAT', slots, last[2])
+    redis.call('PEXPIREAT', holders, last[2])
+  end
+end
+`;
+
+// KEYS: token scopes, then slots, holders and dials of every scope.
+// ARGV: token, ttl (ms), holder, then name, max concurrent and max per second (-1 for none) of every scope.
+// Takes a slot in every scope or in none: returns 0 once held, or the 1-based index of the
+// first scope that is full followed by 'concurrency' or 'rate'.
+const ACQUIRE_SLOTS_SCRIPT = `${REDIS_NOW}${PRUNE_EXPIRED_SLOTS}${EXPIRE_WITH_LAST_SLOT}
+local token, ttl, holder = ARGV[1], tonumber(ARGV[2]), ARGV[3]
+local count = (#KEYS - 1) / 3
+
+for i = 0, count - 1 do
+  local slots, holders, dials = KEYS[2 + i * 3], KEYS[3 + i * 3], KEYS[4 + i * 3]
+  local max_concurrent, max_per_second = tonumber(ARGV[5 + i * 3]), tonumber(ARGV[6 + i * 3])
+  prune(slots, holders)
+  if not redis.call('ZSCORE', slots, token) then
+    if max_concurrent >= 0 and redis.call('ZCARD', slots) >= max_concurrent then
+      return { i + 1, 'concurrency' }
+    end
+    if max_per_second >= 0 then
+      redis.call('ZREMRANGEBYSCORE', dials, '-inf', now - ${DIAL_RATE_WINDOW_MS})
+      if redis.call('ZCARD', dials) >= max_per_second then
+        return { i + 1, 'rate' }
+      end
+    end
+  end
+end
+
+for i = 0, count - 1 do
+  local slots, holders, dials = KEYS[2 + i * 3], KEYS[3 + i * 3], KEYS[4 + i * 3]
+  if not redis.call('ZSCORE', slots, token) then
+    redis.call('HSET', holders, token, cjson.encode({ holder = holder, acquired_at = now }))
+    if tonumber(ARGV[6 + i * 3]) >= 0 then
+      redis.call('ZADD', dials, now, now .. ':' .. token)
+      redis.call('PEXPIRE', dials, ${DIAL_RATE_WINDOW_MS})
+    end
+  end
+  redis.call('ZADD', slots, now + ttl, token)
+  expire_with_last_slot(slots, holders)
+  redis.call('SADD', KEYS[1], ARGV[4 + i * 3])
+end
+redis.call('PEXPIRE', KEYS[1], ttl)
+return 0
+`;
+
+// KEYS: token scopes, then slots and holders of every scope the token holds. ARGV: token, ttl (ms).
+// Returns how many of the token's slots were still held, lost ones are not taken again.
+const REFRESH_SLOTS_SCRIPT = `${REDIS_NOW}${PRUNE_EXPIRED_SLOTS}${EXPIRE_WITH_LAST_SLOT}
+local token, ttl = ARGV[1], tonumber(ARGV[2])
+local held = 0
+for i = 2, #KEYS, 2 do
+  prune(KEYS[i], KEYS[i + 1])
+  if redis.call('ZSCORE', KEYS[i], token) then
+    redis.call('ZADD', KEYS[i], now + ttl, token)
+    expire_with_last_slot(KEYS[i], KEYS[i + 1])
+    held = held + 1
+  end
+end
+if held > 0 then
+  redis.call('PEXPIRE', KEYS[1], ttl)
+end
+return held
+`;
+
+// KEYS: token scopes, then slots and holders of every scope the token holds. ARGV: token.
+// Returns one flag per scope, 1 where the token held the slot.
+const RELEASE_SLOTS_SCRIPT = `
+local released = {}
+for i = 2, #KEYS, 2 do
+  redis.call('HDEL', KEYS[i + 1], ARGV[1])
+  table.insert(released, redis.call('ZREM', KEYS[i], ARGV[1]))
+end
+redis.call('DEL', KEYS[1])
+return released
+`;
+
+export interface SlotLimit {
+  scope: string;
+  // null leaves that side of the scope unlimited
+  maxConcurrent: number | null;
+  maxPerSecond: number | null;
+}
+
+export type AcquireSlotsResult =
+  | { acquired: true }
+  | { acquired: false; scope: string; reason: 'concurrency' | 'rate' };
+
+export interface ConcurrencySlot {
+  token: string;
+  holder: string | null;
+  acquired_at: Date | null;
+  expires_at: Date;
+}
+
+/**
+ * Takes a slot for `token` (see getCallSlotToken) in every scope of `limits`, all in one atomic
+ * script: either each scope has room, both for another concurrent call and for another dial
+ * within the current second, or no slot is taken. Scopes where the token already holds a slot
+ * are extended without counting against their limits. Expired slots are freed first, so slots
+ * of crashed holders never block a scope for longer than their TTL.
+ *
+ * @param holder - Recorded with the slots, e.g. the worker's lease holder ID.
+ * @returns The first scope that had no room when the slots could not be taken.
+ */
+export async function acquireSlots(
+  token: string,
+  limits: SlotLimit[],
+  holder: string,
+  ttlMs: number = CALL_SLOT_TTL_MS
+): Promise<AcquireSlotsResult> {
+  const keys = [getTokenScopesKey(token)];
+  const args: (string | number)[] = [token, ttlMs, holder];
+  for (const limit of limits) {
+    keys.push(getSlotsKey(limit.scope), getSlotHoldersKey(limit.scope), getDialsKey(limit.scope));
+    args.push(limit.scope, limit.maxConcurrent ?? -1, limit.maxPerSecond ?? -1);
+  }
+
+  const result = (await getRedisClient().eval(ACQUIRE_SLOTS_SCRIPT, keys.length, ...keys, ...args)) as
+    | number
+    | [number, 'concurrency' | 'rate'];
+  if (result === 0) {
+    return { acquired: true };
+  }
+  const [index, reason] = result as [number, 'concurrency' | 'rate'];
+  return { acquired: false, scope: limits[index - 1].scope, reason };
+}
+
+// The scopes the token holds slots in, and the keys the refresh and release scripts take for them
+async function getTokenSlotKeys(token: string): Promise<{ scopes: string[]; keys: string[] }> {
+  const scopes = await getRedisClient().smembers(getTokenScopesKey(token));
+  return {
+    scopes,
+    keys: [getTokenScopesKey(token), ...scopes.flatMap((scope) => [getSlotsKey(scope), getSlotHoldersKey(scope)])],
+  };
+}
+
+/**
+ * Heartbeat: extends every slot of the token to `ttlMs` from now.
+ *
+ * @returns False if the slots already expired or were released, the token no longer holds them.
+ */
+export async function refreshSlots(token: string, ttlMs: number = CALL_SLOT_TTL_MS): Promise<boolean> {
+  const { scopes, keys } = await getTokenSlotKeys(token);
+  if (scopes.length === 0) {
+    return false;
+  }
+  const held = await getRedisClient().eval(REFRESH_SLOTS_SCRIPT, keys.length, ...keys, token, ttlMs);
+  return Number(held) > 0;
+}
+
+/**
+ * Frees every slot of the token. Safe to call more than once, and for tokens that hold no slot.
+ *
+ * @returns The scopes the token held a slot in.
+ */
+export async function releaseSlots(token: string): Promise<string[]> {
+  const { scopes, keys } = await getTokenSlotKeys(token);
+  if (scopes.length === 0) {
+    return [];
+  }
+  const released = (await getRedisClient().eval(RELEASE_SLOTS_SCRIPT, keys.length, ...keys, token)) as number[];
+  return scopes.filter((_, i) => released[i] === 1);
+}
+
+/**
+ * Slots currently held in a scope, oldest expiry first.
+ */
+export async function listSlots(scope: string): Promise<ConcurrencySlot[]> {
+  const redis = getRedisClient();
+  const [entries, holders] = await Promise.all([
+    redis.zrangebyscore(getSlotsKey(scope), Date.now(), '+inf', 'WITHSCORES'),
+    redis.hgetall(getSlotHoldersKey(scope)),
+  ]);
+
+  const slots: ConcurrencySlot[] = [];
+  for (let i = 0; i < entries.length; i += 2) {
+    const token = entries[i];
+    const info = holders[token] ? (JSON.parse(holders[token]) as { holder: string; acquired_at: number }) : null;
+    slots.push({
+      token,
+      holder: info?.holder ?? null,
+      acquired_at: info ? new Date(info.acquired_at) : null,
+      expires_at: new Date(Number(entries[i + 1])),
+    });
+  }
+  return slots;
+}
@@ -0,0 +1,122 @@
+import { phone_number_status } from '@prisma/client';
+import { splitCsvLine, iterateLines } from './csv';
+import { normalizePhoneNumber, NormalizedPhoneNumber } from './phone_number';
+
+export const contactImportFormats = ['csv', 'ndjson'] as const;
+
+export type ContactImportFormat = (typeof contactImportFormats)[number];
+
+const phoneNumberStatuses: phone_number_status[] = ['valid', 'invalid', 'do_not_call'];
+
+export interface ContactRow extends NormalizedPhoneNumber {
+  status?: phone_number_status;
+}
+
+export type ParsedContactRow =
+  | { row: number; contact: ContactRow }
+  | { row: number; error: string };
+
+// Validates and normalizes the fields of one row, whichever format it came from
+function toContactRow(row: number, number: unknown, status: unknown, defaultCountry?: string | null): ParsedContactRow {
+  if (number === undefined || number === null || number === '') {
+    return { row, error: 'Missing number' };
+  }
+  if (typeof number !== 'string') {
+    return { row, error: 'number must be a string' };
+  }
+
+  const normalized = normalizePhoneNumber(number, defaultCountry);
+  if (!normalized) {
+    return { row, error: `Invalid number ${number}` };
+  }
+
+  if (status === undefined || status === null || status === '') {
+    return { row, contact: normalized };
+  }
+  if (typeof status !== 'string' || !phoneNumberStatuses.includes(status as phone_number_status)) {
+    return { row, error: `Invalid status ${String(status)}` };
+  }
+  return { row, contact: { ...normalized, status: status as phone_number_status } };
+}
+
+// Where the columns of a CSV upload are, as read from its header row
+export interface ContactCsvHeader {
+  numberColumn: number;
+  statusColumn: number;
+}
+
+/**
+ * Reads the header row of a CSV upload.
+ *
+ * @returns The column positions, or null when the header has no number column.
+ */
+export function parseContactHeader(line: string): ContactCsvHeader | null {
+  const header = splitCsvLine(line).map((column) => column.toLowerCase());
+  const numberColumn = header.findIndex((column) => column === 'number' || column === 'phone_number');
+  if (numberColumn === -1) {
+    return null;
+  }
+  return { numberColumn, statusColumn: header.indexOf('status') };
+}
+
+/**
+ * Parses an uploaded contact list one row at a time, normalizing numbers to E.164.
+ * CSV files need a header row with a number column and may have a status column;
+ * NDJSON files have one {"number": ..., "status": ...} object per line. Blank lines are ignored.
+ *
+ * @param content - The uploaded file, or a run of its lines.
+ * @param format - csv or ndjson.
+ * @param defaultCountry - Country used to read numbers in national format.
+ * @param options.header - Header of the CSV file the lines were taken from; content then starts with data rows.
+ * @param options.firstLineNumber - Line number of content's first line in the file.
+ * @returns A generator yielding each data row, either parsed or with the reason it was rejected.
+ */
+export function* parseContactRows(
+  content: string,
+  format: ContactImportFormat,
+  defaultCountry?: string | null,
+  options: { header?: ContactCsvHeader; firstLineNumber?: number } = {}
+): Generator<ParsedContactRow> {
+  let header = options.header;
+
+  for (const { line, lineNumber } of iterateLines(content, options.firstLineNumber)) {
+    if (line.trim() === '') {
+      continue;
+    }
+
+    if (format === 'ndjson') {
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        yield { row: lineNumber, error: 'Invalid JSON' };
+        continue;
+      }
+      if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+        yield { row: lineNumber, error: 'Expected a JSON object' };
+        continue;
+      }
+      const { number, status } = record as Record<string, unknown>;
+      yield toContactRow(lineNumber, number, status, defaultCountry);
+      continue;
+    }
+
+    if (!header) {
+      const parsedHeader = parseContactHeader(line);
+      if (!parsedHeader) {
+        yield { row: lineNumber, error: 'Header must contain a number column' };
+        return;
+      }
+      header = parsedHeader;
+      continue;
+    }
+
+    const fields = splitCsvLine(line);
+    yield toContactRow(
+      lineNumber,
+      fields[header.numberColumn] ?? '',
+      header.statusColumn === -1 ? undefined : (fields[header.statusColumn] ?? '').toLowerCase(),
+      defaultCountry
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { call_schedules, phone_numbers } from '@prisma/client';
+
+// North American Numbering Plan area codes by IANA time zone. Area codes spanning a
+// time zone boundary are listed under the zone covering most of their subscribers.
+const nanpAreaCodesByTimeZone: Record<string, number[]> = {
+  'America/New_York': [
+    // CT, DE, DC
+    203, 475, 860, 959, 302, 202, 771,
+    // FL
+    239, 305, 321, 352, 386, 407, 448, 561, 656, 689, 727, 754, 772, 786, 813, 850, 863, 904, 941, 954,
+    // GA
+    229, 404, 470, 478, 678, 706, 762, 770, 912, 943,
+    // KY (east), ME, MD, MA
+    502, 606, 859, 207, 227, 240, 301, 410, 443, 667, 339, 351, 413, 508, 617, 774, 781, 857, 978,
+    // NH, NJ
+    603, 201, 551, 609, 640, 732, 848, 856, 862, 908, 973,
+    // NY
+    212, 315, 332, 347, 363, 516, 518, 585, 607, 631, 646, 680, 716, 718, 838, 845, 914, 917, 929, 934,
+    // NC
+    252, 336, 472, 704, 743, 828, 910, 919, 980, 984,
+    // OH
+    216, 220, 234, 283, 326, 330, 380, 419, 436, 440, 513, 567, 614, 740, 937,
+    // PA
+    215, 223, 267, 272, 412, 445, 484, 570, 582, 610, 717, 724, 814, 835, 878,
+    // RI, SC, TN (east), VT
+    401, 803, 839, 843, 854, 864, 423, 865, 802,
+    // VA, WV
+    276, 434, 540, 571, 703, 757, 804, 826, 948, 304, 681,
+  ],
+  'America/Detroit': [231, 248, 269, 313, 517, 586, 616, 679, 734, 810, 906, 947, 989],
+  'America/Indiana/Indianapolis': [260, 317, 463, 574, 765, 812, 930],
+  'America/Toronto': [
+    // ON
+    226, 249, 289, 343, 365, 382, 416, 437, 519, 548, 613, 647, 683, 705, 742, 753, 807, 905, 942,
+    // QC
+    263, 354, 367, 418, 438, 450, 468, 514, 579, 581, 819, 873,
+  ],
+  'America/Halifax': [782, 902],
+  'America/St_Johns': [709],
+  'America/Chicago': [
+    // AL, AR
+    205, 251, 256, 334, 659, 938, 327, 479, 501, 870,
+    // IL
+    217, 224, 309, 312, 331, 447, 464, 618, 630, 708, 730, 773, 779, 815, 847, 861, 872,
+    // IN (northwest), IA, KS
+    219, 319, 515, 563, 641, 712, 316, 620, 785, 913,
+    // KY (west), LA
+    270, 364, 225, 318, 337, 504, 985,
+    // MN
+    218, 320, 507, 612, 651, 763, 924, 952,
+    // MS, MO
+    228, 601, 662, 769, 314, 417, 557, 573, 636, 660, 816, 975,
+    // NE, ND, OK, SD
+    308, 402, 531, 701, 405, 539, 572, 580, 918, 605,
+    // TN (central)
+    615, 629, 731, 901, 931,
+    // TX
+    210, 214, 254, 281, 325, 346, 361, 409, 430, 432, 469, 512, 682, 713, 726, 737, 806, 817, 830, 832, 903, 940,
+    945, 956, 972, 979,
+    // WI
+    262, 274, 353, 414, 534, 608, 715, 920,
+  ],
+  'America/Winnipeg': [204, 431, 584],
+  'America/Regina': [306, 474, 639],
+  'America/Denver': [303, 719, 720, 970, 983, 406, 505, 575, 385, 435, 801, 307, 915],
+  'America/Boise': [208, 986],
+  'America/Phoenix': [480, 520, 602, 623, 928],
+  'America/Edmonton': [368, 403, 587, 780, 825],
+  'America/Los_Angeles': [
+    // CA
+    209, 213, 279, 310, 323, 341, 350, 369, 408, 415, 424, 442, 510, 530, 559, 562, 619, 626, 628, 650, 657, 661,
+    669, 707, 714, 747, 760, 805, 818, 820, 831, 840, 858, 909, 916, 925, 949, 951,
+    // NV, OR, WA
+    702, 725, 775, 458, 503, 541, 971, 206, 253, 360, 425, 509, 564,
+  ],
+  'America/Vancouver': [236, 250, 604, 672, 778],
+  'America/Anchorage': [907],
+  'Pacific/Honolulu': [808],
+  'America/Puerto_Rico': [787, 939],
+};
+
+const nanpTimeZoneByAreaCode = new Map<number, string>(
+  Object.entries(nanpAreaCodesByTimeZone).flatMap(([timeZone, areaCodes]) =>
+    areaCodes.map((areaCode) => [areaCode, timeZone] as [number, string])
+  )
+);
+
+// Countries observing a single time zone (or where one zone covers nearly everyone)
+const timeZoneByCountry: Record<string, string> = {
+  AE: 'Asia/Dubai',
+  AR: 'America/Argentina/Buenos_Aires',
+  AT: 'Europe/Vienna',
+  BE: 'Europe/Brussels',
+  CH: 'Europe/Zurich',
+  CN: 'Asia/Shanghai',
+  CO: 'America/Bogota',
+  CZ: 'Europe/Prague',
+  DE: 'Europe/Berlin',
+  DK: 'Europe/Copenhagen',
+  EG: 'Africa/Cairo',
+  ES: 'Europe/Madrid',
+  FI: 'Europe/Helsinki',
+  FR: 'Europe/Paris',
+  GB: 'Europe/London',
+  GR: 'Europe/Athens',
+  HK: 'Asia/Hong_Kong',
+  IE: 'Europe/Dublin',
+  IL: 'Asia/Jerusalem',
+  IN: 'Asia/Kolkata',
+  IT: 'Europe/Rome',
+  JP: 'Asia/Tokyo',
+  KE: 'Africa/Nairobi',
+  KR: 'Asia/Seoul',
+  NG: 'Africa/Lagos',
+  NL: 'Europe/Amsterdam',
+  NO: 'Europe/Oslo',
+  NZ: 'Pacific/Auckland',
+  PE: 'America/Lima',
+  PH: 'Asia/Manila',
+  PK: 'Asia/Karachi',
+  PL: 'Europe/Warsaw',
+  PR: 'America/Puerto_Rico',
+  PT: 'Europe/Lisbon',
+  SE: 'Europe/Stockholm',
+  SG: 'Asia/Singapore',
+  TR: 'Europe/Istanbul',
+  ZA: 'Africa/Johannesburg',
+};
+
+/**
+ * Checks that a string is an IANA time zone name known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Works out a contact's local time zone: the explicit time_zone of the phone number if set,
+ * otherwise derived from the area code (North America) or the number's country.
+ *
+ * @param phoneNumber - The contact's phone number (E.164) and its stored attributes.
+ * @returns An IANA time zone, or null when it can't be determined.
+ */
+export function resolveContactTimeZone(
+  phoneNumber: Pick<phone_numbers, 'number' | 'country_code' | 'time_zone'>
+): string | null {
+  if (phoneNumber.time_zone) {
+    return phoneNumber.time_zone;
+  }
+
+  const nanp = /^\+1(\d{3})\d{7}$/.exec(phoneNumber.number);
+  if (nanp) {
+    const timeZone = nanpTimeZoneByAreaCode.get(Number(nanp[1]));
+    if (timeZone) {
+      return timeZone;
+    }
+  }
+
+  return (phoneNumber.country_code && timeZoneByCountry[phoneNumber.country_code]) || null;
+}
+
+/**
+ * Time zone a schedule's windows are evaluated in for a given contact. Schedules with
+ * use_contact_time_zone follow the contact's local time, falling back to the schedule's own
+ * time_zone when the contact's can't be determined.
+ */
+export function getScheduleTimeZone(
+  schedule: Pick<call_schedules, 'time_zone' | 'use_contact_time_zone'>,
+  phoneNumber: Pick<phone_numbers, 'number' | 'country_code' | 'time_zone'>
+): string {
+  if (!schedule.use_contact_time_zone) {
+    return schedule.time_zone;
+  }
+  return resolveContactTimeZone(phoneNumber) ?? schedule.time_zone;
+}
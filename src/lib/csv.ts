@@ -0,0 +1,86 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Splits a CSV line on commas, honouring double-quoted fields ("" is an escaped quote).
+ * Fields are trimmed.
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Iterates the lines of a text (LF or CRLF) without splitting it up front.
+ *
+ * @param firstLineNumber - Number of the text's first line, for texts cut out of a larger file.
+ * @returns Each line with its 1-based line number.
+ */
+export function* iterateLines(text: string, firstLineNumber = 1): Generator<{ line: string; lineNumber: number }> {
+  let start = 0;
+  let lineNumber = firstLineNumber;
+  while (start <= text.length) {
+    let end = text.indexOf('\n', start);
+    if (end === -1) {
+      end = text.length;
+    }
+    const line = text.slice(start, end);
+    yield { line: line.endsWith('\r') ? line.slice(0, -1) : line, lineNumber };
+    start = end + 1;
+    lineNumber++;
+  }
+}
+
+/**
+ * Reads the lines of a stream (LF or CRLF) as they arrive, so an upload is never held in memory
+ * as a whole. Lines are numbered like iterateLines numbers those of the same text.
+ *
+ * @returns Each line with its 1-based line number.
+ */
+export async function* readLines(
+  stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<{ line: string; lineNumber: number }> {
+  // Multi-byte characters may be split across chunks
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  let lineNumber = 1;
+
+  for await (const chunk of stream) {
+    pending += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    let start = 0;
+    let end = pending.indexOf('\n');
+    while (end !== -1) {
+      const line = pending.slice(start, end);
+      yield { line: line.endsWith('\r') ? line.slice(0, -1) : line, lineNumber: lineNumber++ };
+      start = end + 1;
+      end = pending.indexOf('\n', start);
+    }
+    pending = pending.slice(start);
+  }
+
+  pending += decoder.end();
+  yield { line: pending.endsWith('\r') ? pending.slice(0, -1) : pending, lineNumber };
+}
@@ -0,0 +1,18 @@
+import { phone_numbers } from '@prisma/client';
+
+/**
+ * Reasons a call task is ended as 'skipped' instead of being dialed. 'no_schedule_slot' is used
+ * when the campaign's schedule has no upcoming calling window left, 'campaign_cancelled' for
+ * the tasks a cancelled campaign had yet to dial.
+ */
+export type SkipReason = 'do_not_call' | 'invalid' | 'suppressed' | 'no_schedule_slot' | 'campaign_cancelled';
+
+/**
+ * Only numbers with status 'valid' may be dialed.
+ *
+ * @param phoneNumber - The phone number a task would dial.
+ * @returns The reason the number must not be dialed, or null when it can be.
+ */
+export function getPhoneNumberSkipReason(phoneNumber: Pick<phone_numbers, 'status'>): SkipReason | null {
+  return phoneNumber.status === 'valid' ? null : phoneNumber.status;
+}
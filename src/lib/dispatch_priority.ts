@@ -0,0 +1,55 @@
+// Campaign priorities run from 1 to 10, higher ones are dialed first
+export const MIN_CAMPAIGN_PRIORITY = 1;
+export const MAX_CAMPAIGN_PRIORITY = 10;
+export const DEFAULT_CAMPAIGN_PRIORITY = 5;
+
+// Task priority within a campaign: retries are boosted so they go out before the campaign's new calls
+export const NEW_CALL_TASK_PRIORITY = 0;
+export const RETRY_CALL_TASK_PRIORITY = 1;
+
+export interface DispatchCandidate {
+  campaign_id: string;
+  campaign_priority: number;
+  priority: number;
+  scheduled_at: Date;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * BullMQ job priority of a claimed task, where 1 runs first: every campaign priority level
+ * comes before the next lower one, and retries come before new calls at the same level.
+ */
+export function getCallTaskJobPriority(campaignPriority: number, taskPriority: number): number {
+  const campaignRank = MAX_CAMPAIGN_PRIORITY - clamp(campaignPriority, MIN_CAMPAIGN_PRIORITY, MAX_CAMPAIGN_PRIORITY);
+  const taskRank = RETRY_CALL_TASK_PRIORITY - clamp(taskPriority, NEW_CALL_TASK_PRIORITY, RETRY_CALL_TASK_PRIORITY);
+  return campaignRank * (RETRY_CALL_TASK_PRIORITY + 1) + taskRank + 1;
+}
+
+/**
+ * Orders claimed tasks for enqueueing. Higher priorities go first; within a priority the
+ * campaigns take turns, one task each per round, so a campaign with a large backlog doesn't
+ * hold back the others. Each campaign's own tasks, and the tasks of a round, stay oldest first.
+ * BullMQ keeps jobs of equal priority in insertion order, so the queue dispatches in this order.
+ */
+export function orderForDispatch<T extends DispatchCandidate>(tasks: T[]): T[] {
+  const byScheduledAt = [...tasks].sort((a, b) => a.scheduled_at.getTime() - b.scheduled_at.getTime());
+
+  // Position of each task among its campaign's tasks of the same priority
+  const turns = new Map<T, number>();
+  const seen = new Map<string, number>();
+  for (const task of byScheduledAt) {
+    const key = `${task.campaign_id}:${getCallTaskJobPriority(task.campaign_priority, task.priority)}`;
+    const turn = seen.get(key) ?? 0;
+    turns.set(task, turn);
+    seen.set(key, turn + 1);
+  }
+
+  return byScheduledAt.sort(
+    (a, b) =>
+      getCallTaskJobPriority(a.campaign_priority, a.priority) - getCallTaskJobPriority(b.campaign_priority, b.priority) ||
+      turns.get(a)! - turns.get(b)!
+  );
+}
@@ -0,0 +1,270 @@
+/**
+ * How a holiday falling on a weekend is observed:
+ * - nearest_weekday: Saturday moves to Friday, Sunday to Monday (US federal holidays)
+ * - next_weekday: moves to the next weekday that isn't already a holiday (UK, Canada, Australia)
+ */
+type WeekendRule = 'nearest_weekday' | 'next_weekday';
+
+type HolidayRule =
+  | { name: string; type: 'fixed'; month: number; day: number; weekend?: WeekendRule; since?: number }
+  // n-th weekday (0=Sunday) of the month, n = -1 for the last one
+  | { name: string; type: 'nth_weekday'; month: number; weekday: number; n: number }
+  // Last given weekday on or before a date, e.g. Victoria Day is the Monday on or before May 24
+  | { name: string; type: 'weekday_on_or_before'; month: number; day: number; weekday: number }
+  // Days relative to Easter Sunday
+  | { name: string; type: 'easter'; offset: number };
+
+const MONDAY = 1;
+const THURSDAY = 4;
+
+const gbEnglandAndWales: HolidayRule[] = [
+  { name: "New Year's Day", type: 'fixed', month: 1, day: 1, weekend: 'next_weekday' },
+  { name: 'Good Friday', type: 'easter', offset: -2 },
+  { name: 'Easter Monday', type: 'easter', offset: 1 },
+  { name: 'Early May bank holiday', type: 'nth_weekday', month: 5, weekday: MONDAY, n: 1 },
+  { name: 'Spring bank holiday', type: 'nth_weekday', month: 5, weekday: MONDAY, n: -1 },
+  { name: 'Summer bank holiday', type: 'nth_weekday', month: 8, weekday: MONDAY, n: -1 },
+  { name: 'Christmas Day', type: 'fixed', month: 12, day: 25, weekend: 'next_weekday' },
+  { name: 'Boxing Day', type: 'fixed', month: 12, day: 26, weekend: 'next_weekday' },
+];
+
+const canada: HolidayRule[] = [
+  { name: "New Year's Day", type: 'fixed', month: 1, day: 1, weekend: 'next_weekday' },
+  { name: 'Good Friday', type: 'easter', offset: -2 },
+  { name: 'Victoria Day', type: 'weekday_on_or_before', month: 5, day: 24, weekday: MONDAY },
+  { name: 'Canada Day', type: 'fixed', month: 7, day: 1, weekend: 'next_weekday' },
+  { name: 'Labour Day', type: 'nth_weekday', month: 9, weekday: MONDAY, n: 1 },
+  { name: 'Thanksgiving', type: 'nth_weekday', month: 10, weekday: MONDAY, n: 2 },
+  { name: 'Christmas Day', type: 'fixed', month: 12, day: 25, weekend: 'next_weekday' },
+];
+
+// Bundled public holidays per country, or per region where they differ within a country
+const holidayRulesByRegion: Record<string, HolidayRule[]> = {
+  US: [
+    { name: "New Year's Day", type: 'fixed', month: 1, day: 1, weekend: 'nearest_weekday' },
+    { name: 'Martin Luther King Jr. Day', type: 'nth_weekday', month: 1, weekday: MONDAY, n: 3 },
+    { name: "Washington's Birthday", type: 'nth_weekday', month: 2, weekday: MONDAY, n: 3 },
+    { name: 'Memorial Day', type: 'nth_weekday', month: 5, weekday: MONDAY, n: -1 },
+    { name: 'Juneteenth', type: 'fixed', month: 6, day: 19, weekend: 'nearest_weekday', since: 2021 },
+    { name: 'Independence Day', type: 'fixed', month: 7, day: 4, weekend: 'nearest_weekday' },
+    { name: 'Labor Day', type: 'nth_weekday', month: 9, weekday: MONDAY, n: 1 },
+    { name: 'Columbus Day', type: 'nth_weekday', month: 10, weekday: MONDAY, n: 2 },
+    { name: 'Veterans Day', type: 'fixed', month: 11, day: 11, weekend: 'nearest_weekday' },
+    { name: 'Thanksgiving Day', type: 'nth_weekday', month: 11, weekday: THURSDAY, n: 4 },
+    { name: 'Christmas Day', type: 'fixed', month: 12, day: 25, weekend: 'nearest_weekday' },
+  ],
+  CA: [
+    ...canada,
+    { name: 'National Day for Truth and Reconciliation', type: 'fixed', month: 9, day: 30, since: 2021 },
+    { name: 'Remembrance Day', type: 'fixed', month: 11, day: 11 },
+    { name: 'Boxing Day', type: 'fixed', month: 12, day: 26, weekend: 'next_weekday' },
+  ],
+  'CA-QC': [...canada, { name: 'Fête nationale du Québec', type: 'fixed', month: 6, day: 24 }],
+  GB: gbEnglandAndWales,
+  'GB-ENG': gbEnglandAndWales,
+  'GB-WLS': gbEnglandAndWales,
+  'GB-SCT': [
+    { name: "New Year's Day", type: 'fixed', month: 1, day: 1, weekend: 'next_weekday' },
+    { name: '2nd January', type: 'fixed', month: 1, day: 2, weekend: 'next_weekday' },
+    { name: 'Good Friday', type: 'easter', offset: -2 },
+    { name: 'Early May bank holiday', type: 'nth_weekday', month: 5, weekday: MONDAY, n: 1 },
+    { name: 'Spring bank holiday', type: 'nth_weekday', month: 5, weekday: MONDAY, n: -1 },
+    { name: 'Summer bank holiday', type: 'nth_weekday', month: 8, weekday: MONDAY, n: 1 },
+    { name: "St Andrew's Day", type: 'fixed', month: 11, day: 30, weekend: 'next_weekday' },
+    { name: 'Christmas Day', type: 'fixed', month: 12, day: 25, weekend: 'next_weekday' },
+    { name: 'Boxing Day', type: 'fixed', month: 12, day: 26, weekend: 'next_weekday' },
+  ],
+  'GB-NIR': [
+    ...gbEnglandAndWales,
+    { name: "St Patrick's Day", type: 'fixed', month: 3, day: 17, weekend: 'next_weekday' },
+    { name: 'Battle of the Boyne', type: 'fixed', month: 7, day: 12, weekend: 'next_weekday' },
+  ],
+  AU: [
+    { name: "New Year's Day", type: 'fixed', month: 1, day: 1, weekend: 'next_weekday' },
+    { name: 'Australia Day', type: 'fixed', month: 1, day: 26, weekend: 'next_weekday' },
+    { name: 'Good Friday', type: 'easter', offset: -2 },
+    { name: 'Easter Monday', type: 'easter', offset: 1 },
+    { name: 'Anzac Day', type: 'fixed', month: 4, day: 25 },
+    { name: 'Christmas Day', type: 'fixed', month: 12, day: 25, weekend: 'next_weekday' },
+    { name: 'Boxing Day', type: 'fixed', month: 12, day: 26, weekend: 'next_weekday' },
+  ],
+  DE: [
+    { name: 'Neujahr', type: 'fixed', month: 1, day: 1 },
+    { name: 'Karfreitag', type: 'easter', offset: -2 },
+    { name: 'Ostermontag', type: 'easter', offset: 1 },
+    { name: 'Tag der Arbeit', type: 'fixed', month: 5, day: 1 },
+    { name: 'Christi Himmelfahrt', type: 'easter', offset: 39 },
+    { name: 'Pfingstmontag', type: 'easter', offset: 50 },
+    { name: 'Tag der Deutschen Einheit', type: 'fixed', month: 10, day: 3 },
+    { name: '1. Weihnachtstag', type: 'fixed', month: 12, day: 25 },
+    { name: '2. Weihnachtstag', type: 'fixed', month: 12, day: 26 },
+  ],
+  FR: [
+    { name: "Jour de l'an", type: 'fixed', month: 1, day: 1 },
+    { name: 'Lundi de Pâques', type: 'easter', offset: 1 },
+    { name: 'Fête du Travail', type: 'fixed', month: 5, day: 1 },
+    { name: 'Victoire 1945', type: 'fixed', month: 5, day: 8 },
+    { name: 'Ascension', type: 'easter', offset: 39 },
+    { name: 'Lundi de Pentecôte', type: 'easter', offset: 50 },
+    { name: 'Fête nationale', type: 'fixed', month: 7, day: 14 },
+    { name: 'Assomption', type: 'fixed', month: 8, day: 15 },
+    { name: 'Toussaint', type: 'fixed', month: 11, day: 1 },
+    { name: 'Armistice 1918', type: 'fixed', month: 11, day: 11 },
+    { name: 'Noël', type: 'fixed', month: 12, day: 25 },
+  ],
+};
+
+/**
+ * Regions with bundled public holidays, e.g. US, CA-QC, GB-SCT.
+ */
+export const holidayRegions = Object.keys(holidayRulesByRegion);
+
+export function isSupportedHolidayRegion(region: string): boolean {
+  return region in holidayRulesByRegion;
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+// Calendar dates are handled as UTC midnights so they don't depend on the server's time zone
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+}
+
+function resolveRuleDate(rule: HolidayRule, year: number): Date {
+  switch (rule.type) {
+    case 'fixed':
+      return utcDate(year, rule.month, rule.day);
+    case 'nth_weekday': {
+      if (rule.n > 0) {
+        const first = utcDate(year, rule.month, 1);
+        return addUtcDays(first, ((rule.weekday - first.getUTCDay() + 7) % 7) + (rule.n - 1) * 7);
+      }
+      const last = utcDate(year, rule.month + 1, 0);
+      return addUtcDays(last, -((last.getUTCDay() - rule.weekday + 7) % 7) + (rule.n + 1) * 7);
+    }
+    case 'weekday_on_or_before': {
+      const date = utcDate(year, rule.month, rule.day);
+      return addUtcDays(date, -((date.getUTCDay() - rule.weekday + 7) % 7));
+    }
+    case 'easter':
+      return addUtcDays(easterSunday(year), rule.offset);
+  }
+}
+
+const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+const holidayCache = new Map<string, Holiday[]>();
+
+/**
+ * Public holidays of a bundled region in a year. A holiday on a weekend is listed on its
+ * actual date and, where the region observes it on a weekday instead, on that day as well.
+ *
+ * @param region - A bundled region, see holidayRegions.
+ * @param year - The calendar year.
+ * @returns The holidays sorted by date, empty for unknown regions.
+ */
+export function getHolidays(region: string, year: number): Holiday[] {
+  const cacheKey = `${region}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const rules = (holidayRulesByRegion[region] ?? []).filter(
+    (rule) => rule.type !== 'fixed' || !rule.since || year >= rule.since
+  );
+  const actual = rules.map((rule) => ({ rule, date: resolveRuleDate(rule, year) }));
+  const holidays: Holiday[] = actual.map(({ rule, date }) => ({ date: toDateKey(date), name: rule.name }));
+
+  // Substitute days can't land on another holiday, e.g. Christmas and Boxing Day on a weekend
+  const taken = new Set(holidays.map((holiday) => holiday.date));
+  for (const { rule, date } of actual) {
+    if (rule.type !== 'fixed' || !rule.weekend || !isWeekend(date)) {
+      continue;
+    }
+
+    let observed: Date;
+    if (rule.weekend === 'nearest_weekday') {
+      observed = addUtcDays(date, date.getUTCDay() === 6 ? -1 : 1);
+    } else {
+      observed = addUtcDays(date, 1);
+      while (isWeekend(observed) || taken.has(toDateKey(observed))) {
+        observed = addUtcDays(observed, 1);
+      }
+    }
+    taken.add(toDateKey(observed));
+    holidays.push({ date: toDateKey(observed), name: `${rule.name} (observed)` });
+  }
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date));
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+/**
+ * A holiday calendar as attached to a call schedule: an optional bundled region plus
+ * user-defined blackout dates.
+ */
+export interface BlackoutCalendar {
+  region: string | null;
+  holiday_calendar_dates: { name: string; start_date: Date; end_date: Date }[];
+}
+
+/**
+ * Checks whether no calls should be made on a date.
+ *
+ * @param calendar - The schedule's holiday calendar.
+ * @param dateKey - The local calendar date, YYYY-MM-DD.
+ * @returns The name of the holiday or blackout period, or null if the date is open.
+ */
+export function getBlackoutReason(calendar: BlackoutCalendar, dateKey: string): string | null {
+  const blackout = calendar.holiday_calendar_dates.find(
+    (period) => toDateKey(period.start_date) <= dateKey && dateKey <= toDateKey(period.end_date)
+  );
+  if (blackout) {
+    return blackout.name;
+  }
+
+  if (calendar.region) {
+    // Observed days of New Year's Day can fall in the previous year
+    const year = Number(dateKey.slice(0, 4));
+    const holiday = [...getHolidays(calendar.region, year), ...getHolidays(calendar.region, year + 1)].find(
+      (candidate) => candidate.date === dateKey
+    );
+    if (holiday) {
+      return holiday.name;
+    }
+  }
+
+  return null;
+}
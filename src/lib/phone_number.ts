@@ -0,0 +1,53 @@
+import { CountryCode, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+
+/**
+ * A phone number in E.164 format with the details derived from it.
+ */
+export interface NormalizedPhoneNumber {
+  number: string; // E.164, e.g. +12125550123
+  country_code: string | null; // ISO 3166-1 alpha-2 region of the number, e.g. US
+  number_type: string | null; // e.g. mobile, fixed_line, toll_free; null when unknown
+}
+
+/**
+ * Country used to read national-format numbers: the user's default_country, else DEFAULT_PHONE_COUNTRY.
+ */
+export function resolveDefaultCountry(userDefaultCountry?: string | null): string | null {
+  return userDefaultCountry || process.env.DEFAULT_PHONE_COUNTRY || null;
+}
+
+export function isSupportedCountryCode(countryCode: string): boolean {
+  return isSupportedCountry(countryCode);
+}
+
+/**
+ * Parses a phone number, returning its E.164 form.
+ * Numbers in national format are read in the given default country; numbers with a
+ * leading + (or 00 international prefix) don't need one. Numbers are accepted when their
+ * length fits their country, not only when the range is assigned, so reserved and
+ * fictional numbers (e.g. 555-01xx) are kept; country_code and number_type are null for those.
+ *
+ * @param input - The number as entered, formatting characters are ignored.
+ * @param defaultCountry - ISO 3166-1 alpha-2 country for national numbers, e.g. the user's default_country.
+ * @returns The normalized number, or null when it can't be parsed or has an impossible length.
+ */
+export function normalizePhoneNumber(input: string, defaultCountry?: string | null): NormalizedPhoneNumber | null {
+  const country =
+    defaultCountry && isSupportedCountry(defaultCountry.toUpperCase())
+      ? (defaultCountry.toUpperCase() as CountryCode)
+      : undefined;
+
+  const trimmed = input.trim();
+  const international = trimmed.startsWith('00') ? `+${trimmed.slice(2)}` : trimmed;
+  const parsed = parsePhoneNumberFromString(international, country);
+  if (!parsed || !parsed.isPossible()) {
+    return null;
+  }
+
+  const type = parsed.getType();
+  return {
+    number: parsed.number,
+    country_code: parsed.country ?? null,
+    number_type: type ? type.toLowerCase() : null,
+  };
+}
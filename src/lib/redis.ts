@@ -1,4 +1,4 @@
-import { RedisOptions } from 'ioredis';
+import { Redis, RedisOptions } from 'ioredis';
 
 export const redisConnection: RedisOptions = {
   host: process.env.REDIS_HOST ?? '127.0.0.1',
@@ -6,3 +6,12 @@ export const redisConnection: RedisOptions = {
   maxRetriesPerRequest: null, // Required for BullMQ
 };
 
+let redisClient: Redis | undefined;
+
+// Shared client for plain Redis commands, created on first use
+export function getRedisClient(): Redis {
+  if (!redisClient) {
+    redisClient = new Redis(redisConnection);
+  }
+  return redisClient;
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+
+// Extend Zod with OpenAPI support, the schema below is reused in controllers
+extendZodWithOpenApi(z);
+
+/**
+ * Unsuccessful call outcomes a campaign retry policy can address.
+ */
+export const failedCallOutcomes = [
+  'failed',
+  'busy',
+  'no_answer',
+  'voicemail',
+  'rejected',
+  'invalid_number',
+  'carrier_error',
+] as const;
+
+export type FailedCallOutcome = (typeof failedCallOutcomes)[number];
+
+/**
+ * What to do after a given outcome. Without delay_seconds the campaign's retry_delay_seconds applies.
+ */
+export type OutcomeRetryRule = {
+  retry: boolean;
+  delay_seconds?: number;
+};
+
+export type RetryPolicy = Partial<Record<FailedCallOutcome, OutcomeRetryRule>>;
+
+// Applied for every outcome the campaign's retry_policy doesn't mention
+export const defaultRetryPolicy: Record<FailedCallOutcome, OutcomeRetryRule> = {
+  failed: { retry: true },
+  busy: { retry: true },
+  no_answer: { retry: true },
+  voicemail: { retry: true },
+  rejected: { retry: false },
+  invalid_number: { retry: false },
+  carrier_error: { retry: true, delay_seconds: 60 },
+};
+
+const outcomeRetryRuleSchema = z.object({
+  retry: z.boolean(),
+  delay_seconds: z.number().int().min(0).optional(),
+});
+
+/**
+ * Schema for the retry_policy JSON stored on call_campaigns.
+ */
+export const retryPolicySchema = z.partialRecord(z.enum(failedCallOutcomes), outcomeRetryRuleSchema);
+
+export interface RetryDecision {
+  retry: boolean;
+  delaySeconds: number;
+  markNumberInvalid: boolean;
+}
+
+/**
+ * Decides whether a failed attempt is retried and after how long.
+ *
+ * @param policy - The campaign's retry_policy JSON (null or malformed entries fall back to the defaults).
+ * @param outcome - The outcome of the attempt that just ended.
+ * @param options - The task's retry count and the campaign's retry limits.
+ * @returns The decision, including whether the dialed number should be marked invalid.
+ */
+export function resolveRetryDecision(
+  policy: unknown,
+  outcome: FailedCallOutcome,
+  options: { retryCount: number; maxRetries: number; defaultDelaySeconds: number }
+): RetryDecision {
+  // A number the carrier reports as invalid is never worth dialing again
+  if (outcome === 'invalid_number') {
+    return { retry: false, delaySeconds: 0, markNumberInvalid: true };
+  }
+
+  const parsed = retryPolicySchema.safeParse(policy ?? {});
+  const rule = (parsed.success ? parsed.data[outcome] : undefined) ?? defaultRetryPolicy[outcome];
+
+  if (!rule.retry || options.retryCount >= options.maxRetries) {
+    return { retry: false, delaySeconds: 0, markNumberInvalid: false };
+  }
+
+  return {
+    retry: true,
+    delaySeconds: rule.delay_seconds ?? options.defaultDelaySeconds,
+    markNumberInvalid: false,
+  };
+}
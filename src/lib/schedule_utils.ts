@@ -1,38 +1,25 @@
 import { call_schedules } from '@prisma/client';
-import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
 import {
   addDays,
+  addMonths,
   set,
+  setDate,
   isBefore,
   isAfter,
+  isSameDay,
   startOfDay,
+  startOfMonth,
   getDay,
+  getDaysInMonth,
+  format,
 } from 'date-fns';
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { BlackoutCalendar, getBlackoutReason } from './holidays';
 
-/**
- * Defines the expected structure of the schedule_rules JSON object.
- */
-interface ScheduleRules {
-  days: string[];
-  start_time: string; // e.g., "09:00"
-  end_time: string;   // e.g., "17:00"
-}
-
-/**
- * A type guard to validate the structure of the schedule_rules object.
- * @param rules - The object to validate.
- * @returns True if the object matches the ScheduleRules interface.
- */
-export function isValidScheduleRules(rules: any): rules is ScheduleRules {
-  return (
-    rules &&
-    Array.isArray(rules.days) &&
-    typeof rules.start_time === 'string' &&
-    typeof rules.end_time === 'string' &&
-    rules.start_time.match(/^\d{2}:\d{2}$/) &&
-    rules.end_time.match(/^\d{2}:\d{2}$/)
-  );
-}
+// Extend Zod with OpenAPI support, the schema below is reused in controllers
+extendZodWithOpenApi(z);
 
 // Mapping from weekday names to the numeric index used by date-fns (0=Sunday, 1=Monday, etc.)
 const dayNameToIndex: { [key: string]: number } = {
@@ -45,70 +32,405 @@ const dayNameToIndex: { [key: string]: number } = {
   saturday: 6,
 };
 
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+// Day names are matched case-insensitively
+const dayNameSchema = z.string().refine((day) => day.toLowerCase() in dayNameToIndex, {
+  message: 'Unknown day name',
+});
+
+// Day of the month, negative values count from the end (-1 = last day)
+const monthDaySchema = z
+  .number()
+  .int()
+  .min(-31)
+  .max(31)
+  .refine((day) => day !== 0, { message: 'Month day must not be 0' });
+
+// n-th weekday of the month, e.g. { n: 1, weekday: 'monday' }; n = -1 for the last one
+const nthWeekdaySchema = z.object({
+  n: z
+    .number()
+    .int()
+    .min(-1)
+    .max(5)
+    .refine((n) => n !== 0, { message: 'n must be 1-5 or -1' }),
+  weekday: dayNameSchema,
+});
+
+/**
+ * A calling window and the days it applies to: weekdays, specific dates, days of the month
+ * and/or n-th weekdays of the month (a day matching any of them). A window whose end_time
+ * is earlier than its start_time crosses midnight and ends on the following day.
+ */
+const scheduleWindowSchema = z
+  .object({
+    days: z.array(dayNameSchema).min(1, 'At least one day is required').optional(),
+    dates: z.array(z.string().date('Invalid date, expected YYYY-MM-DD')).min(1).optional(),
+    month_days: z.array(monthDaySchema).min(1).optional(),
+    nth_weekdays: z.array(nthWeekdaySchema).min(1).optional(),
+    start_time: timeOfDaySchema,
+    end_time: timeOfDaySchema,
+  })
+  .refine((window) => window.days || window.dates || window.month_days || window.nth_weekdays, {
+    message: 'One of days, dates, month_days or nth_weekdays is required',
+  })
+  .refine((window) => window.start_time !== window.end_time, {
+    message: 'start_time and end_time must differ',
+  });
+
+/**
+ * Schema for the schedule_rules JSON stored on call_schedules. Either a list of windows, which
+ * allows several windows per day, different hours per weekday and monthly or one-off windows,
+ * or the original single window shared by all days ({ days, start_time, end_time }).
+ */
+export const scheduleRulesSchema = z
+  .union([
+    z.object({ windows: z.array(scheduleWindowSchema).min(1, 'At least one window is required') }),
+    scheduleWindowSchema,
+  ])
+  .openapi({
+    description:
+      'Calling windows: { windows: [{ days | dates | month_days | nth_weekdays, start_time, end_time }] }, or a single { days, start_time, end_time }. Times are HH:MM; an end_time before start_time crosses midnight.',
+    example: {
+      windows: [
+        { days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'], start_time: '09:00', end_time: '12:00' },
+        { days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'], start_time: '13:00', end_time: '17:00' },
+        { nth_weekdays: [{ n: 1, weekday: 'saturday' }], start_time: '10:00', end_time: '14:00' },
+        { dates: ['2024-12-23'], start_time: '08:00', end_time: '20:00' },
+      ],
+    },
+  });
+
+export type ScheduleRules = z.infer<typeof scheduleRulesSchema>;
+
+/**
+ * A window of the schedule rules in a form ready for date calculations.
+ */
+interface ScheduleWindow {
+  days: Set<number>;
+  dates: string[]; // sorted, YYYY-MM-DD
+  monthDays: number[];
+  nthWeekdays: { n: number; weekday: number }[];
+  start: { hours: number; minutes: number };
+  end: { hours: number; minutes: number };
+  crossesMidnight: boolean;
+}
+
+function parseTimeOfDay(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return { hours, minutes };
+}
+
+/**
+ * Validates schedule_rules and flattens either format into a list of windows.
+ *
+ * @param rules - The schedule_rules JSON of a call schedule.
+ * @returns The windows, or null if the rules are invalid.
+ */
+export function parseScheduleRules(rules: unknown): ScheduleWindow[] | null {
+  const parsed = scheduleRulesSchema.safeParse(rules);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const windows = 'windows' in parsed.data ? parsed.data.windows : [parsed.data];
+  return windows.map((window) => ({
+    days: new Set((window.days ?? []).map((day) => dayNameToIndex[day.toLowerCase()])),
+    dates: [...new Set(window.dates ?? [])].sort(),
+    monthDays: window.month_days ?? [],
+    nthWeekdays: (window.nth_weekdays ?? []).map(({ n, weekday }) => ({
+      n,
+      weekday: dayNameToIndex[weekday.toLowerCase()],
+    })),
+    start: parseTimeOfDay(window.start_time),
+    end: parseTimeOfDay(window.end_time),
+    crossesMidnight: window.end_time < window.start_time,
+  }));
+}
+
+// Dates within a month a window applies to by its month_days and nth_weekdays, sorted
+function monthlyDaysOf(window: ScheduleWindow, monthStart: Date): number[] {
+  const length = getDaysInMonth(monthStart);
+  const firstWeekday = getDay(monthStart);
+  const days = window.monthDays.map((day) => (day > 0 ? day : length + day + 1));
+
+  for (const { n, weekday } of window.nthWeekdays) {
+    const first = 1 + ((weekday - firstWeekday + 7) % 7);
+    days.push(n > 0 ? first + (n - 1) * 7 : first + Math.floor((length - first) / 7) * 7);
+  }
+
+  return days.filter((day) => day >= 1 && day <= length).sort((a, b) => a - b);
+}
+
+/**
+ * The first local day on or after `from` that a window applies to, or null if there is none.
+ * Computed from the rules directly, so sparse windows (yearly dates, 5th weekdays) cost no more
+ * than daily ones.
+ */
+function nextWindowDay(window: ScheduleWindow, from: Date): Date | null {
+  const candidates: Date[] = [];
+
+  for (const weekday of window.days) {
+    candidates.push(addDays(from, (weekday - getDay(from) + 7) % 7));
+  }
+
+  const fromKey = format(from, 'yyyy-MM-dd');
+  const date = window.dates.find((candidate) => candidate >= fromKey);
+  if (date) {
+    const [year, month, day] = date.split('-').map(Number);
+    candidates.push(new Date(year, month - 1, day));
+  }
+
+  // Every valid month day and n-th weekday occurs at least once in any 12 consecutive months
+  if (window.monthDays.length > 0 || window.nthWeekdays.length > 0) {
+    for (let i = 0; i <= 12; i++) {
+      const monthStart = startOfMonth(addMonths(from, i));
+      const day = monthlyDaysOf(window, monthStart).find((candidate) => i > 0 || candidate >= from.getDate());
+      if (day) {
+        candidates.push(setDate(monthStart, day));
+        break;
+      }
+    }
+  }
+
+  return candidates.reduce<Date | null>((earliest, day) => (!earliest || isBefore(day, earliest) ? day : earliest), null);
+}
+
+function windowOccursOn(window: ScheduleWindow, day: Date): boolean {
+  return isSameDay(nextWindowDay(window, day) ?? 0, day);
+}
+
+// Upper bound on consecutive blacked out window days skipped, about ten years of daily windows
+const MAX_BLACKOUT_SKIPS = 3660;
+
 /**
  * Calculates the next valid date and time to schedule a call based on a schedule's rules.
  *
  * @param schedule - The call_schedules entity from the database.
  * @param startingFrom - The Date object from which to start searching. Defaults to the current time.
- * @returns A Date object in UTC representing the next valid slot, or null if no slot is found.
+ * @param options.timeZone - Time zone to evaluate the windows in instead of the schedule's own,
+ *   e.g. the contact's local time zone for schedules with use_contact_time_zone.
+ * @param options.holidayCalendar - The schedule's holiday calendar; windows on its holidays and
+ *   blackout dates are skipped.
+ * @param options.startsAt - Start of the campaign; together with the schedule's valid_from and
+ *   valid_until, no slot is returned outside of the period.
+ * @param options.endsAt - End of the campaign.
+ * @returns A Date object in UTC representing the next valid slot, or null if the rules are
+ *   invalid or no window opens again before the schedule or campaign ends.
  */
 export function getNextValidScheduleDate(
   schedule: call_schedules,
-  startingFrom: Date = new Date()
+  startingFrom: Date = new Date(),
+  options: {
+    timeZone?: string;
+    holidayCalendar?: BlackoutCalendar | null;
+    startsAt?: Date | null;
+    endsAt?: Date | null;
+  } = {}
 ): Date | null {
   // 1. Validate and parse the schedule rules
-  if (!isValidScheduleRules(schedule.schedule_rules)) {
+  const windows = parseScheduleRules(schedule.schedule_rules);
+  if (!windows) {
     console.error(`[schedule_utils] Invalid schedule_rules format for schedule ID ${schedule.id}:`, schedule.schedule_rules);
     return null;
   }
 
-  const { days, start_time, end_time } = schedule.schedule_rules;
-  const timeZone = schedule.time_zone;
+  const timeZone = options.timeZone ?? schedule.time_zone;
+  // No windows on holidays, a window crossing midnight counts as part of the day it opens
+  const isBlackedOut = (day: Date) =>
+    !!options.holidayCalendar && !!getBlackoutReason(options.holidayCalendar, format(day, 'yyyy-MM-dd'));
+
+  // 2. Only the period in which both the schedule and the campaign are active counts
+  const activeFrom = [schedule.valid_from, options.startsAt].reduce<Date>(
+    (latest, bound) => (bound && isAfter(bound, latest) ? bound : latest),
+    startingFrom
+  );
+  const activeUntil = [schedule.valid_until, options.endsAt].reduce<Date | null>(
+    (earliest, bound) => (bound && (!earliest || isBefore(bound, earliest)) ? bound : earliest),
+    null
+  );
+  const hasEnded = (slot: Date) => !!activeUntil && !isBefore(slot, activeUntil);
+
+  // Convert the starting point to the schedule's target time zone
+  const candidateDate = toZonedTime(activeFrom, timeZone);
+  const today = startOfDay(candidateDate);
 
-  const validDays = new Set(days.map(day => dayNameToIndex[day.toLowerCase()]).filter(d => d !== undefined));
-  if (validDays.size === 0) {
-    console.error(`[schedule_utils] No valid days found in schedule ID ${schedule.id}`);
-    return null; // No valid days to schedule on
+  // 3. The candidate may be within a window of today, or of yesterday crossing midnight.
+  // The next valid time is right now.
+  for (const day of [addDays(today, -1), today]) {
+    if (isBlackedOut(day)) {
+      continue;
+    }
+    for (const window of windows) {
+      if (!windowOccursOn(window, day)) {
+        continue;
+      }
+      const windowStart = set(day, { ...window.start, seconds: 0, milliseconds: 0 });
+      const windowEnd = set(window.crossesMidnight ? addDays(day, 1) : day, { ...window.end, seconds: 0, milliseconds: 0 });
+      if (!isBefore(candidateDate, windowStart) && !isAfter(candidateDate, windowEnd)) {
+        return hasEnded(activeFrom) ? null : activeFrom;
+      }
+    }
   }
 
-  const [startHour, startMinute] = start_time.split(':').map(Number);
-  const [endHour, endMinute] = end_time.split(':').map(Number);
+  // 4. Otherwise take the earliest window start after the candidate, moving past blacked out days
+  let searchFrom = today;
+  for (let skipped = 0; skipped < MAX_BLACKOUT_SKIPS; skipped++) {
+    let earliestStart: Date | null = null;
+    for (const window of windows) {
+      let day = nextWindowDay(window, searchFrom);
+      // Today's occurrence may have opened already
+      if (day && isBefore(set(day, { ...window.start, seconds: 0, milliseconds: 0 }), candidateDate)) {
+        day = nextWindowDay(window, addDays(day, 1));
+      }
+      if (!day) {
+        continue;
+      }
+      const windowStart = set(day, { ...window.start, seconds: 0, milliseconds: 0 });
+      if (!earliestStart || isBefore(windowStart, earliestStart)) {
+        earliestStart = windowStart;
+      }
+    }
+
+    if (!earliestStart) {
+      console.warn(`[schedule_utils] Schedule ${schedule.id} has no upcoming windows`);
+      return null;
+    }
 
-  // 2. Convert the starting point to the schedule's target time zone
-  let candidateDate = toZonedTime(startingFrom, timeZone);
+    const slot = fromZonedTime(earliestStart, timeZone);
+    if (hasEnded(slot)) {
+      return null;
+    }
+    const day = startOfDay(earliestStart);
+    if (!isBlackedOut(day)) {
+      return slot;
+    }
+    searchFrom = addDays(day, 1);
+  }
 
-  // 3. Iterate day by day to find the next available slot (up to 14 days in the future)
-  for (let i = 0; i < 14; i++) {
-    const dayOfWeek = getDay(candidateDate);
+  console.warn(`[schedule_utils] Every upcoming window of schedule ${schedule.id} is blacked out`);
+  return null;
+}
 
-    // Check if the current candidate day is a valid day for calling
-    if (validDays.has(dayOfWeek)) {
-      // Define the start and end of the business hours window for this day
-      const windowStart = set(startOfDay(candidateDate), { hours: startHour, minutes: startMinute, seconds: 0, milliseconds: 0 });
-      const windowEnd = set(startOfDay(candidateDate), { hours: endHour, minutes: endMinute, seconds: 0, milliseconds: 0 });
+/**
+ * A concrete occurrence of one of a schedule's windows.
+ */
+export interface ScheduleWindowOccurrence {
+  date: string; // Local date the window opens on, YYYY-MM-DD
+  weekday: string;
+  local_start: string; // Wall-clock time in the evaluated time zone, YYYY-MM-DDTHH:mm
+  local_end: string;
+  start: Date;
+  end: Date;
+  utc_offset: string; // Offset when the window opens, e.g. -04:00
+  dst_transition: boolean; // The UTC offset changes while the window is open
+  holiday: string | null; // Holiday or blackout period the window falls on, no calls are made then
+}
 
-      // Case A: The candidate time is before the window starts today.
-      // The next valid time is the start of today's window.
-      if (isBefore(candidateDate, windowStart)) {
-        return fromZonedTime(windowStart, timeZone);
+export interface DstTransition {
+  at: Date;
+  offset_before: string;
+  offset_after: string;
+}
+
+const weekdayNames = Object.keys(dayNameToIndex);
+
+// UTC offset of a time zone at an instant, e.g. -04:00
+const utcOffset = (date: Date, timeZone: string) => formatInTimeZone(date, timeZone, 'xxx');
+
+/**
+ * Lists the windows of a schedule opening within the given number of local days, starting
+ * with the day of `from`.
+ *
+ * @param schedule - The call_schedules entity from the database.
+ * @param from - Any instant on the first day to expand.
+ * @param days - Number of days to expand.
+ * @param options - Time zone to evaluate the windows in and the schedule's holiday calendar.
+ * @returns The window occurrences in chronological order, or null if the rules are invalid.
+ */
+export function expandScheduleWindows(
+  schedule: call_schedules,
+  from: Date,
+  days: number,
+  options: { timeZone?: string; holidayCalendar?: BlackoutCalendar | null } = {}
+): ScheduleWindowOccurrence[] | null {
+  const windows = parseScheduleRules(schedule.schedule_rules);
+  if (!windows) {
+    return null;
+  }
+
+  const timeZone = options.timeZone ?? schedule.time_zone;
+  const firstDay = startOfDay(toZonedTime(from, timeZone));
+  const occurrences: ScheduleWindowOccurrence[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const day = addDays(firstDay, i);
+    const dayOfWeek = getDay(day);
+    const date = format(day, 'yyyy-MM-dd');
+    const holiday = options.holidayCalendar ? getBlackoutReason(options.holidayCalendar, date) : null;
+
+    for (const window of windows) {
+      if (!windowOccursOn(window, day)) {
+        continue;
       }
 
-      // Case B: The candidate time is within today's window.
-      // The next valid time is right now.
-      if (!isAfter(candidateDate, windowEnd)) {
-        return fromZonedTime(candidateDate, timeZone);
+      const localStart = set(day, { ...window.start, seconds: 0, milliseconds: 0 });
+      const localEnd = set(window.crossesMidnight ? addDays(day, 1) : day, { ...window.end, seconds: 0, milliseconds: 0 });
+      const start = fromZonedTime(localStart, timeZone);
+      const end = fromZonedTime(localEnd, timeZone);
+      // Windows outside the schedule's valid_from / valid_until never open
+      if (
+        (schedule.valid_from && !isAfter(end, schedule.valid_from)) ||
+        (schedule.valid_until && !isBefore(start, schedule.valid_until))
+      ) {
+        continue;
       }
 
-      // Case C: The candidate time is after today's window has already closed.
-      // We'll proceed to the next day by letting the loop continue.
+      occurrences.push({
+        date,
+        weekday: weekdayNames[dayOfWeek],
+        local_start: format(localStart, "yyyy-MM-dd'T'HH:mm"),
+        local_end: format(localEnd, "yyyy-MM-dd'T'HH:mm"),
+        start,
+        end,
+        utc_offset: utcOffset(start, timeZone),
+        dst_transition: utcOffset(start, timeZone) !== utcOffset(end, timeZone),
+        holiday,
+      });
     }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Finds the changes of a time zone's UTC offset (DST starting or ending) between two instants.
+ */
+export function findDstTransitions(timeZone: string, from: Date, to: Date): DstTransition[] {
+  const hour = 60 * 60 * 1000;
+  const transitions: DstTransition[] = [];
 
-    // If we're here, it's either an invalid day or we're past today's window.
-    // Advance the candidate to the start of the next day and check again.
-    candidateDate = startOfDay(addDays(candidateDate, 1));
+  // Offsets change at most once within a few hours, so step hourly and narrow down to the minute
+  for (let stepStart = from.getTime(); stepStart < to.getTime(); stepStart += hour) {
+    let low = stepStart;
+    let high = Math.min(stepStart + hour, to.getTime());
+    const offsetBefore = utcOffset(new Date(low), timeZone);
+    if (offsetBefore === utcOffset(new Date(high), timeZone)) {
+      continue;
+    }
+
+    while (high - low > 60 * 1000) {
+      const middle = low + Math.floor((high - low) / 2);
+      if (utcOffset(new Date(middle), timeZone) === offsetBefore) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    const at = new Date(Math.floor(high / (60 * 1000)) * 60 * 1000);
+    transitions.push({ at, offset_before: offsetBefore, offset_after: utcOffset(at, timeZone) });
   }
 
-  // 4. If no valid date was found within the search window, return null.
-  console.warn(`[schedule_utils] Could not find a valid schedule slot within 14 days for schedule ${schedule.id}`);
-  return null;
-}
\ No newline at end of file
+  return transitions;
+}
@@ -0,0 +1,173 @@
+import { getRedisClient } from './redis';
+
+/**
+ * How often the call scheduler runs, and up to how much later than that each run may start.
+ * The jitter keeps the scheduler off the round seconds every other periodic job starts on.
+ */
+export const SCHEDULER_INTERVAL_SECONDS = Number(process.env.SCHEDULER_INTERVAL_SECONDS ?? 60);
+export const SCHEDULER_JITTER_SECONDS = Number(process.env.SCHEDULER_JITTER_SECONDS ?? 5);
+
+/**
+ * How long the leader keeps the lock without renewing it. Standby replicas take over once a
+ * leader has been gone this long.
+ */
+export const SCHEDULER_LEADER_TTL_SECONDS = Number(process.env.SCHEDULER_LEADER_TTL_SECONDS ?? 30);
+
+const LEADER_KEY = 'call_scheduler:leader';
+const STATUS_KEY = 'call_scheduler:status';
+
+export interface SchedulerRunPlan {
+  // The tick the run belongs to, runs stay on a fixed cadence from it
+  tickAt: Date;
+  // When the run starts, the tick plus its jitter
+  runAt: Date;
+  // Ticks that passed without a run, e.g. while no replica was leader or a run overran
+  missedTicks: number;
+}
+
+/**
+ * Plans the run after the tick at `previousTickAt`: the next tick one interval later, jittered.
+ * When that tick has already passed, the missed ticks are caught up with a single run right
+ * away, since every run claims all tasks due by then, and the cadence restarts from now.
+ *
+ * @param random - Source of the jitter, in [0, 1).
+ */
+export function planNextSchedulerRun(
+  previousTickAt: Date | null,
+  now: Date,
+  options: { intervalMs: number; jitterMs: number },
+  random: () => number = Math.random
+): SchedulerRunPlan {
+  if (!previousTickAt) {
+    return { tickAt: now, runAt: now, missedTicks: 0 };
+  }
+
+  const nextTickAt = previousTickAt.getTime() + options.intervalMs;
+  if (nextTickAt <= now.getTime()) {
+    const missedTicks = Math.floor((now.getTime() - nextTickAt) / options.intervalMs) + 1;
+    return { tickAt: now, runAt: now, missedTicks };
+  }
+
+  const runAt = Math.min(nextTickAt + Math.floor(random() * options.jitterMs), nextTickAt + options.intervalMs - 1);
+  return { tickAt: new Date(nextTickAt), runAt: new Date(runAt), missedTicks: 0 };
+}
+
+// KEYS: leader. ARGV: holder, ttl (ms). Takes the lock when free, renews it when already held.
+// Returns 1 while `holder` is the leader.
+const ACQUIRE_LEADERSHIP_SCRIPT = `
+local leader = redis.call('GET', KEYS[1])
+if leader and leader ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+return 1
+`;
+
+// KEYS: leader. ARGV: holder. Only the leader can give up the lock.
+const RELEASE_LEADERSHIP_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Takes or renews the scheduler's leader lock for `holder`. Exactly one replica holds it at a
+ * time; it is renewed on every loop of the leader and before each claim batch of a tick, so it
+ * only lapses when the leader is gone or stalled, in which case the old leader stops claiming.
+ *
+ * @returns Whether `holder` is the leader.
+ */
+export async function acquireSchedulerLeadership(
+  holder: string,
+  ttlMs: number = SCHEDULER_LEADER_TTL_SECONDS * 1000
+): Promise<boolean> {
+  const result = await getRedisClient().eval(ACQUIRE_LEADERSHIP_SCRIPT, 1, LEADER_KEY, holder, ttlMs);
+  return result === 1;
+}
+
+/**
+ * Hands the lock over on shutdown, so a standby takes over without waiting out the TTL.
+ */
+export async function releaseSchedulerLeadership(holder: string): Promise<void> {
+  await getRedisClient().eval(RELEASE_LEADERSHIP_SCRIPT, 1, LEADER_KEY, holder);
+}
+
+export interface SchedulerRun {
+  tick_at: Date;
+  started_at: Date;
+  finished_at: Date;
+  duration_ms: number;
+  missed_ticks: number;
+  tasks_claimed: number;
+  tasks_enqueued: number;
+  batches: number;
+  error: string | null;
+}
+
+export interface SchedulerStatus {
+  leader: string | null;
+  leader_expires_at: Date | null;
+  interval_seconds: number | null;
+  jitter_seconds: number | null;
+  last_run: SchedulerRun | null;
+  next_run_at: Date | null;
+}
+
+// Runs are stored as JSON, with their dates as ISO strings
+function parseSchedulerRun(json: string): SchedulerRun {
+  const run = JSON.parse(json) as Omit<SchedulerRun, 'tick_at' | 'started_at' | 'finished_at'> & {
+    tick_at: string;
+    started_at: string;
+    finished_at: string;
+  };
+  return {
+    ...run,
+    tick_at: new Date(run.tick_at),
+    started_at: new Date(run.started_at),
+    finished_at: new Date(run.finished_at),
+  };
+}
+
+/**
+ * Records the leader's last run and the planned next one. A new leader picks the cadence up
+ * from the recorded tick, catching up on the ticks missed in between.
+ */
+export async function recordSchedulerRun(
+  run: SchedulerRun,
+  next: { runAt: Date },
+  config: { intervalSeconds: number; jitterSeconds: number }
+): Promise<void> {
+  await getRedisClient().hset(STATUS_KEY, {
+    last_run: JSON.stringify(run),
+    next_run_at: next.runAt.toISOString(),
+    interval_seconds: config.intervalSeconds,
+    jitter_seconds: config.jitterSeconds,
+  });
+}
+
+/**
+ * The tick of the last recorded run, by whichever replica was leader then.
+ */
+export async function getLastSchedulerTick(): Promise<Date | null> {
+  const lastRun = await getRedisClient().hget(STATUS_KEY, 'last_run');
+  return lastRun ? parseSchedulerRun(lastRun).tick_at : null;
+}
+
+export async function getSchedulerStatus(): Promise<SchedulerStatus> {
+  const redis = getRedisClient();
+  const [leader, leaderTtlMs, status] = await Promise.all([
+    redis.get(LEADER_KEY),
+    redis.pttl(LEADER_KEY),
+    redis.hgetall(STATUS_KEY),
+  ]);
+
+  return {
+    leader,
+    leader_expires_at: leader && leaderTtlMs > 0 ? new Date(Date.now() + leaderTtlMs) : null,
+    interval_seconds: status.interval_seconds ? Number(status.interval_seconds) : null,
+    jitter_seconds: status.jitter_seconds ? Number(status.jitter_seconds) : null,
+    last_run: status.last_run ? parseSchedulerRun(status.last_run) : null,
+    next_run_at: status.next_run_at ? new Date(status.next_run_at) : null,
+  };
+}
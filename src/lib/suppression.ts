@@ -0,0 +1,131 @@
+import { suppression_match_type } from '@prisma/client';
+import { splitCsvLine } from './csv';
+import { normalizePhoneNumber } from './phone_number';
+
+export interface ParsedSuppressionEntry {
+  match_type: suppression_match_type;
+  value: string;
+  reason?: string;
+  expires_at?: Date;
+}
+
+export interface SuppressionImportError {
+  row: number; // 1-based line number in the uploaded file
+  message: string;
+}
+
+/**
+ * Reduces a dial string to its digits, keeping a leading "+".
+ */
+export function normalizeDialString(value: string): string {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Brings a suppression value into the E.164 form phone numbers are stored in, so entries match
+ * however they were typed. Numbers are parsed like any phone number, national ones in the
+ * default country; digits that don't parse there are read as an international number missing
+ * its "+". Prefixes are too short to parse and are always read as international: "1555",
+ * "+1 555" and "001555" are all stored as "+1555".
+ *
+ * @returns The value to store, or null when it isn't a possible number or prefix.
+ */
+export function normalizeSuppressionValue(
+  matchType: suppression_match_type,
+  value: string,
+  defaultCountry?: string | null
+): string | null {
+  const dialString = normalizeDialString(value);
+  const digits = dialString.replace(/^\+|^00/, '');
+
+  if (matchType === 'prefix') {
+    return /^[1-9]\d*$/.test(digits) ? `+${digits}` : null;
+  }
+
+  const normalized =
+    normalizePhoneNumber(value, defaultCountry) ?? (dialString.startsWith('+') ? null : normalizePhoneNumber(`+${digits}`));
+  return normalized?.number ?? null;
+}
+
+/**
+ * Parses a suppression list CSV. The header row names the columns:
+ * value (or number) is required; match_type (number | prefix), reason and expires_at are optional.
+ *
+ * @param csv - The raw CSV text.
+ * @param defaultCountry - Country national-format numbers are read in, see normalizeSuppressionValue.
+ * @returns The valid entries plus an error per rejected row.
+ */
+export function parseSuppressionCsv(
+  csv: string,
+  defaultCountry?: string | null
+): {
+  entries: ParsedSuppressionEntry[];
+  errors: SuppressionImportError[];
+} {
+  const lines = csv.split(/\r?\n/);
+  const entries: ParsedSuppressionEntry[] = [];
+  const errors: SuppressionImportError[] = [];
+
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex === -1) {
+    return { entries, errors: [{ row: 1, message: 'File is empty' }] };
+  }
+
+  const header = splitCsvLine(lines[headerIndex]).map((column) => column.toLowerCase());
+  const valueColumn = header.findIndex((column) => column === 'value' || column === 'number');
+  if (valueColumn === -1) {
+    return { entries, errors: [{ row: headerIndex + 1, message: 'Header must contain a value or number column' }] };
+  }
+  const matchTypeColumn = header.indexOf('match_type');
+  const reasonColumn = header.indexOf('reason');
+  const expiresAtColumn = header.indexOf('expires_at');
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    const row = i + 1;
+    const fields = splitCsvLine(lines[i]);
+
+    const rawValue = fields[valueColumn] ?? '';
+    if (normalizeDialString(rawValue).replace('+', '') === '') {
+      errors.push({ row, message: 'Missing number' });
+      continue;
+    }
+
+    const matchType = (matchTypeColumn === -1 ? '' : fields[matchTypeColumn] ?? '').toLowerCase() || 'number';
+    if (matchType !== 'number' && matchType !== 'prefix') {
+      errors.push({ row, message: `Invalid match_type ${matchType}` });
+      continue;
+    }
+
+    const value = normalizeSuppressionValue(matchType, rawValue, defaultCountry);
+    if (!value) {
+      errors.push({ row, message: `Invalid ${matchType} ${rawValue}` });
+      continue;
+    }
+
+    const entry: ParsedSuppressionEntry = { match_type: matchType, value };
+
+    const reason = reasonColumn === -1 ? '' : fields[reasonColumn] ?? '';
+    if (reason) {
+      entry.reason = reason.slice(0, 255);
+    }
+
+    const expiresAt = expiresAtColumn === -1 ? '' : fields[expiresAtColumn] ?? '';
+    if (expiresAt) {
+      const date = new Date(expiresAt);
+      if (isNaN(date.getTime())) {
+        errors.push({ row, message: `Invalid expires_at ${expiresAt}` });
+        continue;
+      }
+      entry.expires_at = date;
+    }
+
+    entries.push(entry);
+  }
+
+  return { entries, errors };
+}
@@ -0,0 +1,26 @@
+import { hostname } from 'os';
+
+/**
+ * How long a claim on a call task holds. The scheduler takes the lease when it claims a task
+ * and the call task worker renews it right before dialing and then while it polls the call,
+ * so it has to outlast the wait in the queue. Calls whose outcome arrives by status callback
+ * get a lease covering the longest call (CALL_MAX_DURATION_MS) when dialed. A task still
+ * 'in-progress' when its lease runs out is rescheduled by the scheduler like a failed call.
+ */
+export const CALL_TASK_LEASE_SECONDS = Number(process.env.CALL_TASK_LEASE_SECONDS ?? 15 * 60);
+
+/**
+ * When a lease taken or renewed now runs out.
+ *
+ * @param extraMs - Time held on top of CALL_TASK_LEASE_SECONDS.
+ */
+export function getLeaseExpiry(extraMs = 0): Date {
+  return new Date(Date.now() + CALL_TASK_LEASE_SECONDS * 1000 + extraMs);
+}
+
+/**
+ * Identifies this process as the holder of the leases it takes, e.g. `worker-1:4242`.
+ */
+export function getLeaseHolderId(): string {
+  return `${hostname()}:${process.pid}`;
+}
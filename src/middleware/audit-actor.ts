@@ -0,0 +1,8 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithActor } from '../lib/audit';
+
+// Requests name their actor in the X-Actor header (a user ID, email or service name)
+export const auditActor = (req: Request, _res: Response, next: NextFunction): void => {
+  const actor = req.header('x-actor')?.trim().slice(0, 255) || 'api';
+  runWithActor(actor, next);
+};
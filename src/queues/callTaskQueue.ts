@@ -18,25 +18,71 @@ export const callTaskQueue = new Queue('call-tasks', {
 export interface CallTaskJobData {
   callTaskId: string;
   callScheduledAt: string;
+  // The task's claimed_at, a job whose claim was superseded (lease expired) is dropped
+  claimedAt: string;
+}
+
+// BullMQ priority of a job, 1 runs first (see getCallTaskJobPriority)
+export type PrioritizedCallTaskJob = CallTaskJobData & { priority: number };
+
+// One job per claim of a task, the same claim is never enqueued twice. The claim is given in
+// epoch milliseconds, BullMQ rejects custom job IDs containing ':'
+function getCallTaskJobId(callTaskId: string, claimedAt: Date) {
+  return `call-task-${callTaskId}-${claimedAt.getTime()}`;
+}
+
+// Tasks are claimed ahead of their scheduled_at, the job waits until then before it runs
+function getCallTaskJobDelay(callScheduledAt: string) {
+  return Math.max(0, new Date(callScheduledAt).getTime() - Date.now());
 }
 
 // Helper function to enqueue a call task
 export async function enqueueCallTask(data: CallTaskJobData) {
   return await callTaskQueue.add('make-call', data, {
-    jobId: `call-task-${data.callTaskId}-${data.callScheduledAt}`, // Prevent duplicate jobs
+    jobId: getCallTaskJobId(data.callTaskId, new Date(data.claimedAt)), // Prevent duplicate jobs
+    delay: getCallTaskJobDelay(data.callScheduledAt),
   });
 }
 
-// Helper function to enqueue multiple call tasks
-export async function enqueueCallTasks(tasks: CallTaskJobData[]) {
+// Helper function to enqueue multiple call tasks, in the order given within each priority
+export async function enqueueCallTasks(tasks: PrioritizedCallTaskJob[]) {
   return await callTaskQueue.addBulk(
-    tasks.map((data) => ({
+    tasks.map(({ priority, ...data }) => ({
       name: 'make-call',
       data,
       opts: {
-        jobId: `call-task-${data.callTaskId}-${data.callScheduledAt}`,
+        jobId: getCallTaskJobId(data.callTaskId, new Date(data.claimedAt)),
+        priority,
+        delay: getCallTaskJobDelay(data.callScheduledAt),
       },
     }))
   );
 }
 
+
+/**
+ * Removes the jobs of claimed call tasks that are still waiting in the queue. Jobs a worker
+ * is already processing can't be removed and are left alone.
+ *
+ * @returns IDs of the tasks whose job was removed.
+ */
+export async function removeCallTaskJobs(tasks: { id: string; claimed_at: Date | null }[]) {
+  const removed: string[] = [];
+  for (const task of tasks) {
+    if (!task.claimed_at) {
+      continue;
+    }
+    const job = await callTaskQueue.getJob(getCallTaskJobId(task.id, task.claimed_at));
+    if (!job || (await job.isActive())) {
+      continue;
+    }
+    try {
+      await job.remove();
+      removed.push(task.id);
+    } catch (error) {
+      // Picked up by a worker in the meantime
+      console.warn(`[call-task-queue] Could not remove job ${job.id}:`, (error as Error).message);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,26 @@
+import { Queue } from 'bullmq';
+import { redisConnection } from '../lib/redis';
+
+export const phoneNumberImportQueue = new Queue('phone-number-imports', {
+  connection: redisConnection,
+  defaultJobOptions: {
+    // Imports are resumable, a retry continues after the last processed row
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+  },
+});
+
+// Job data interface
+export interface PhoneNumberImportJobData {
+  importId: string;
+}
+
+// Helper function to enqueue an import
+export async function enqueuePhoneNumberImport(data: PhoneNumberImportJobData) {
+  return await phoneNumberImportQueue.add('import-phone-numbers', data, {
+    jobId: `phone-number-import-${data.importId}`, // Prevent duplicate jobs
+  });
+}
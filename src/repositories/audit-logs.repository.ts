@@ -0,0 +1,41 @@
+import { prisma } from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+
+type AuditLogData = {
+  user_id: string;
+  entity_type: string;
+  entity_id: string;
+  action: string;
+  actor: string;
+  changes: Prisma.InputJsonValue;
+};
+
+export const auditLogRepository = {
+  create(data: AuditLogData, tx: Prisma.TransactionClient = prisma) {
+    return tx.audit_logs.create({ data });
+  },
+
+  createMany(data: AuditLogData[], tx: Prisma.TransactionClient = prisma) {
+    return tx.audit_logs.createMany({ data });
+  },
+
+  findMany(filter: {
+    user_id?: string;
+    entity_type?: string;
+    entity_id?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+  }) {
+    return prisma.audit_logs.findMany({
+      where: {
+        user_id: filter.user_id,
+        entity_type: filter.entity_type,
+        entity_id: filter.entity_id,
+        created_at: { gte: filter.from, lt: filter.to },
+      },
+      orderBy: { created_at: 'desc' },
+      take: filter.limit,
+    });
+  },
+};
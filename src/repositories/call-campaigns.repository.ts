@@ -1,21 +1,30 @@
 import { prisma } from '../lib/prisma';
-import { campaign_status } from '@prisma/client';
+import { campaign_status, Prisma } from '@prisma/client';
+import { CampaignCounters } from '../lib/campaign_counters';
 
 export const callCampaignRepository = {
-  create(data: {
-    user_id: string;
-    name: string;
-    schedule_id: string;
-    status?: campaign_status;
-    max_concurrent_calls?: number;
-    max_retries?: number;
-    retry_delay_seconds?: number;
-  }) {
-    return prisma.call_campaigns.create({ data });
+  create(
+    data: {
+      user_id: string;
+      name: string;
+      schedule_id: string;
+      status?: campaign_status;
+      max_concurrent_calls?: number;
+      max_retries?: number;
+      retry_delay_seconds?: number;
+      priority?: number;
+      retry_policy?: Prisma.InputJsonValue;
+      caller_id?: string | null;
+      starts_at?: Date | null;
+      ends_at?: Date | null;
+    },
+    tx: Prisma.TransactionClient = prisma
+  ) {
+    return tx.call_campaigns.create({ data });
   },
 
-  findById(id: string) {
-    return prisma.call_campaigns.findUnique({
+  findById(id: string, tx: Prisma.TransactionClient = prisma) {
+    return tx.call_campaigns.findUnique({
       where: { id },
       include: {
         call_schedules: true,
@@ -46,14 +55,19 @@ export const callCampaignRepository = {
     id: string,
     data: {
       name?: string;
-      status?: campaign_status;
       schedule_id?: string;
       max_concurrent_calls?: number;
       max_retries?: number;
       retry_delay_seconds?: number;
-    }
+      priority?: number;
+      retry_policy?: Prisma.InputJsonValue;
+      caller_id?: string | null;
+      starts_at?: Date | null;
+      ends_at?: Date | null;
+    },
+    tx: Prisma.TransactionClient = prisma
   ) {
-    return prisma.call_campaigns.update({
+    return tx.call_campaigns.update({
       where: { id },
       data,
       include: {
@@ -62,8 +76,61 @@ export const callCampaignRepository = {
     });
   },
 
-  delete(id: string) {
-    return prisma.call_campaigns.delete({ where: { id } });
+  // Compare-and-set on the lifecycle status, returns false if the campaign was no longer in `from`
+  async updateStatus(id: string, from: campaign_status, to: campaign_status, tx: Prisma.TransactionClient = prisma) {
+    const { count } = await tx.call_campaigns.updateMany({
+      where: { id, status: from },
+      data: { status: to, updated_at: new Date() },
+    });
+    return count > 0;
+  },
+
+  // Campaigns whose counters can still change, archived ones are frozen
+  findIdsForReconciliation() {
+    return prisma.call_campaigns.findMany({
+      where: { status: { not: 'archived' } },
+      select: { id: true },
+      orderBy: { created_at: 'asc' },
+    });
+  },
+
+  // Stored counters of a campaign, locking its row until the end of the transaction so
+  // no counter is incremented while they are recomputed
+  async lockCounters(id: string, tx: Prisma.TransactionClient) {
+    const [campaign] = await tx.$queryRaw<(CampaignCounters & { user_id: string })[]>`
+      SELECT user_id, total_tasks, completed_tasks, failed_tasks, skipped_tasks, expired_tasks, retries_attempted
+      FROM call_campaigns
+      WHERE id = ${id}::uuid
+      FOR UPDATE;
+    `;
+    return campaign ?? null;
+  },
+
+  // Counters recomputed from the campaign's call_tasks
+  async computeCounters(id: string, tx: Prisma.TransactionClient) {
+    const [counters] = await tx.$queryRaw<CampaignCounters[]>`
+      SELECT
+        COUNT(*)::int AS total_tasks,
+        COUNT(*) FILTER (WHERE status = 'completed')::int AS completed_tasks,
+        COUNT(*) FILTER (WHERE status = 'failed')::int AS failed_tasks,
+        COUNT(*) FILTER (WHERE status = 'skipped')::int AS skipped_tasks,
+        COUNT(*) FILTER (WHERE status = 'expired')::int AS expired_tasks,
+        COALESCE(SUM(retry_count), 0)::int AS retries_attempted
+      FROM call_tasks
+      WHERE campaign_id = ${id}::uuid;
+    `;
+    return counters;
+  },
+
+  updateCounters(id: string, counters: CampaignCounters, tx: Prisma.TransactionClient) {
+    return tx.call_campaigns.update({
+      where: { id },
+      data: { ...counters, updated_at: new Date() },
+    });
+  },
+
+  delete(id: string, tx: Prisma.TransactionClient = prisma) {
+    return tx.call_campaigns.delete({ where: { id } });
   },
 };
 
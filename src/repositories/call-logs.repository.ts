@@ -0,0 +1,66 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { MetricsBucket, MetricsRange } from '../lib/campaign_metrics';
+
+export const callLogRepository = {
+  findById(id: string) {
+    return prisma.call_logs.findUnique({ where: { id } });
+  },
+
+  findByExternalCallId(external_call_id: string) {
+    return prisma.call_logs.findUnique({ where: { external_call_id } });
+  },
+
+  // Outcome counts and duration (ended_at - started_at, in seconds) of a campaign's calls
+  getCampaignCallStats(campaign_id: string) {
+    return prisma.$queryRaw<
+      {
+        total: number;
+        finished: number;
+        connected: number;
+        average_duration: number | null;
+        p50_duration: number | null;
+        p90_duration: number | null;
+        p99_duration: number | null;
+      }[]
+    >`
+      SELECT
+        COUNT(*)::int AS total,
+        COUNT(*) FILTER (WHERE cl.status NOT IN ('initiated', 'in-progress'))::int AS finished,
+        COUNT(*) FILTER (WHERE cl.status = 'completed')::int AS connected,
+        AVG(durations.seconds)::float8 AS average_duration,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY durations.seconds)::float8 AS p50_duration,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY durations.seconds)::float8 AS p90_duration,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY durations.seconds)::float8 AS p99_duration
+      FROM call_logs cl
+      CROSS JOIN LATERAL (SELECT EXTRACT(EPOCH FROM cl.ended_at - cl.started_at) AS seconds) durations
+      WHERE cl.campaign_id = ${campaign_id}::uuid;
+    `;
+  },
+
+  // Calls placed in the range, aggregated per bucket of range.bucketSeconds (aligned to UTC).
+  // Served from the (campaign_id, created_at) and (user_id, created_at) indexes, only
+  // non-empty buckets are returned.
+  getCallMetrics(filter: { campaign_id: string } | { user_id: string }, range: MetricsRange) {
+    const owner =
+      'campaign_id' in filter
+        ? Prisma.sql`cl.campaign_id = ${filter.campaign_id}::uuid`
+        : Prisma.sql`cl.user_id = ${filter.user_id}::uuid`;
+
+    return prisma.$queryRaw<MetricsBucket[]>`
+      SELECT
+        to_timestamp(floor(EXTRACT(EPOCH FROM cl.created_at) / ${range.bucketSeconds}::int) * ${range.bucketSeconds}::int) AS bucket_start,
+        COUNT(*)::int AS attempts,
+        COUNT(*) FILTER (WHERE cl.status = 'completed')::int AS completions,
+        COUNT(*) FILTER (WHERE cl.status NOT IN ('initiated', 'in-progress', 'completed'))::int AS failures,
+        COUNT(*) FILTER (WHERE cl.attempt > 0)::int AS retries,
+        AVG(EXTRACT(EPOCH FROM cl.ended_at - cl.started_at))::float8 AS average_duration_seconds
+      FROM call_logs cl
+      WHERE ${owner}
+        AND cl.created_at >= ${range.from}
+        AND cl.created_at < ${range.to}
+      GROUP BY 1
+      ORDER BY 1;
+    `;
+  },
+};
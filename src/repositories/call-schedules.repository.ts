@@ -2,13 +2,20 @@ import { prisma } from '../lib/prisma';
 import { Prisma } from '@prisma/client';
 
 export const callScheduleRepository = {
-  create(data: {
-    user_id: string;
-    name: string;
-    time_zone: string;
-    schedule_rules: Prisma.InputJsonValue;
-  }) {
-    return prisma.call_schedules.create({ data });
+  create(
+    data: {
+      user_id: string;
+      name: string;
+      time_zone: string;
+      schedule_rules: Prisma.InputJsonValue;
+      use_contact_time_zone?: boolean;
+      holiday_calendar_id?: string | null;
+      valid_from?: Date | null;
+      valid_until?: Date | null;
+    },
+    tx: Prisma.TransactionClient = prisma
+  ) {
+    return tx.call_schedules.create({ data });
   },
 
   findById(id: string) {
@@ -34,13 +41,18 @@ export const callScheduleRepository = {
       name?: string;
       time_zone?: string;
       schedule_rules?: Prisma.InputJsonValue;
-    }
+      use_contact_time_zone?: boolean;
+      holiday_calendar_id?: string | null;
+      valid_from?: Date | null;
+      valid_until?: Date | null;
+    },
+    tx: Prisma.TransactionClient = prisma
   ) {
-    return prisma.call_schedules.update({ where: { id }, data });
+    return tx.call_schedules.update({ where: { id }, data });
   },
 
-  delete(id: string) {
-    return prisma.call_schedules.delete({ where: { id } });
+  delete(id: string, tx: Prisma.TransactionClient = prisma) {
+    return tx.call_schedules.delete({ where: { id } });
   },
 };
 
@@ -0,0 +1,126 @@
+import { prisma } from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+
+export const callTaskRepository = {
+  // Ends a task without dialing it and counts it on its campaign. Only while the claim of
+  // `claimed_at` still holds the task, returns false once its lease moved on.
+  markSkipped(id: string, campaign_id: string, skip_reason: string, claimed_at: Date) {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.call_tasks.updateMany({
+        where: { id, status: 'in_progress', claimed_at },
+        data: { status: 'skipped', skip_reason, updated_at: new Date() },
+      });
+      if (count === 0) {
+        return false;
+      }
+      await tx.call_campaigns.update({
+        where: { id: campaign_id },
+        data: { skipped_tasks: { increment: 1 }, updated_at: new Date() },
+      });
+      return true;
+    });
+  },
+  // Ends a task its campaign ran out of time for and counts it on the campaign, under the same
+  // condition as markSkipped
+  markExpired(id: string, campaign_id: string, claimed_at: Date) {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.call_tasks.updateMany({
+        where: { id, status: 'in_progress', claimed_at },
+        data: { status: 'expired', updated_at: new Date() },
+      });
+      if (count === 0) {
+        return false;
+      }
+      await tx.call_campaigns.update({
+        where: { id: campaign_id },
+        data: { expired_tasks: { increment: 1 }, updated_at: new Date() },
+      });
+      return true;
+    });
+  },
+  // Tasks claimed by the scheduler whose job hasn't finished yet
+  findInProgressByCampaignId(campaign_id: string) {
+    return prisma.call_tasks.findMany({
+      where: { campaign_id, status: 'in_progress' },
+      select: { id: true, claimed_at: true },
+    });
+  },
+
+  // Tasks still in-progress past their claim's lease
+  findLeaseExpired() {
+    return prisma.call_tasks.findMany({
+      where: { status: 'in_progress', lease_expires_at: { lte: new Date() } },
+      select: { id: true, claimed_at: true },
+    });
+  },
+
+  // Takes over the lease of a claim before dialing, returns false if the task is no longer
+  // held by that claim (its lease expired and it was returned to pending or claimed again)
+  async renewLease(id: string, claimed_at: Date, claimed_by: string, lease_expires_at: Date) {
+    const { count } = await prisma.call_tasks.updateMany({
+      where: { id, status: 'in_progress', claimed_at },
+      data: { claimed_by, lease_expires_at, updated_at: new Date() },
+    });
+    return count > 0;
+  },
+
+  // Ends the tasks a cancelled campaign had yet to dial: its pending tasks and the claimed ones
+  // in `claimedIds`, whose queued jobs were removed. They are counted on the campaign as skipped.
+  async skipForCancelledCampaign(campaign_id: string, tx: Prisma.TransactionClient, claimedIds: string[] = []) {
+    const { count } = await tx.call_tasks.updateMany({
+      where: {
+        campaign_id,
+        OR: [{ status: 'pending' }, { id: { in: claimedIds }, status: 'in_progress' }],
+      },
+      data: { status: 'skipped', skip_reason: 'campaign_cancelled', updated_at: new Date() },
+    });
+    if (count > 0) {
+      await tx.call_campaigns.update({
+        where: { id: campaign_id },
+        data: { skipped_tasks: { increment: count }, updated_at: new Date() },
+      });
+    }
+    return count;
+  },
+
+  // Hands tasks back to pending while the claim of `claimed_at` still holds them, to be claimed
+  // again at `scheduled_at` (or their current one). The claim's lease is dropped with them.
+  release(ids: string[], claimed_at: Date, scheduled_at?: Date) {
+    return prisma.call_tasks.updateMany({
+      where: { id: { in: ids }, status: 'in_progress', claimed_at },
+      data: {
+        status: 'pending',
+        scheduled_at,
+        claimed_at: null,
+        lease_expires_at: null,
+        claimed_by: null,
+        updated_at: new Date(),
+      },
+    });
+  },
+
+  countByStatus(campaign_id: string) {
+    return prisma.call_tasks.groupBy({
+      by: ['status'],
+      where: { campaign_id },
+      _count: true,
+      orderBy: { status: 'asc' },
+    });
+  },
+
+  // Number of tasks per number of dial attempts (call logs) made for them
+  getAttemptsHistogram(campaign_id: string) {
+    return prisma.$queryRaw<{ attempts: number; tasks: number }[]>`
+      SELECT attempts, COUNT(*)::int AS tasks
+      FROM (
+        SELECT ct.id, COUNT(cl.id)::int AS attempts
+        FROM call_tasks ct
+        LEFT JOIN call_logs cl ON cl.call_task_id = ct.id
+        WHERE ct.campaign_id = ${campaign_id}::uuid
+        GROUP BY ct.id
+      ) task_attempts
+      GROUP BY attempts
+      ORDER BY attempts;
+    `;
+  },
+};
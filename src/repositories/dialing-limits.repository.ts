@@ -0,0 +1,36 @@
+import { dialing_limit_scope } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const dialingLimitRepository = {
+  findAll(scope?: dialing_limit_scope) {
+    return prisma.dialing_limits.findMany({
+      where: { scope },
+      orderBy: [{ scope: 'asc' }, { target: 'asc' }],
+    });
+  },
+
+  findByTarget(scope: dialing_limit_scope, target: string) {
+    return prisma.dialing_limits.findUnique({ where: { scope_target: { scope, target } } });
+  },
+
+  // The limits configured for any of the given targets, one query per dial
+  findForTargets(targets: { scope: dialing_limit_scope; target: string }[]) {
+    return prisma.dialing_limits.findMany({ where: { OR: targets } });
+  },
+
+  upsert(
+    scope: dialing_limit_scope,
+    target: string,
+    data: { max_concurrent_calls: number | null; max_calls_per_second: number | null }
+  ) {
+    return prisma.dialing_limits.upsert({
+      where: { scope_target: { scope, target } },
+      create: { scope, target, ...data },
+      update: { ...data, updated_at: new Date() },
+    });
+  },
+
+  delete(id: string) {
+    return prisma.dialing_limits.delete({ where: { id } });
+  },
+};
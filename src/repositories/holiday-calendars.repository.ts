@@ -0,0 +1,66 @@
+import { prisma } from '../lib/prisma';
+
+const withDates = {
+  holiday_calendar_dates: { orderBy: { start_date: 'asc' as const } },
+};
+
+export const holidayCalendarRepository = {
+  create(data: {
+    user_id: string;
+    name: string;
+    region?: string | null;
+    dates?: { name: string; start_date: Date; end_date: Date }[];
+  }) {
+    const { dates, ...calendar } = data;
+    return prisma.holiday_calendars.create({
+      data: {
+        ...calendar,
+        holiday_calendar_dates: dates ? { create: dates } : undefined,
+      },
+      include: withDates,
+    });
+  },
+
+  findById(id: string) {
+    return prisma.holiday_calendars.findUnique({ where: { id }, include: withDates });
+  },
+
+  findAllByUserId(user_id: string) {
+    return prisma.holiday_calendars.findMany({
+      where: { user_id },
+      orderBy: { created_at: 'desc' },
+      include: withDates,
+    });
+  },
+
+  findAll() {
+    return prisma.holiday_calendars.findMany({
+      orderBy: { created_at: 'desc' },
+      include: withDates,
+    });
+  },
+
+  update(id: string, data: { name?: string; region?: string | null }) {
+    return prisma.holiday_calendars.update({
+      where: { id },
+      data: { ...data, updated_at: new Date() },
+      include: withDates,
+    });
+  },
+
+  delete(id: string) {
+    return prisma.holiday_calendars.delete({ where: { id } });
+  },
+
+  createDate(calendar_id: string, data: { name: string; start_date: Date; end_date: Date }) {
+    return prisma.holiday_calendar_dates.create({ data: { calendar_id, ...data } });
+  },
+
+  findDateById(id: string) {
+    return prisma.holiday_calendar_dates.findUnique({ where: { id } });
+  },
+
+  deleteDate(id: string) {
+    return prisma.holiday_calendar_dates.delete({ where: { id } });
+  },
+};
@@ -0,0 +1,69 @@
+import { prisma } from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+
+// Everything clients see of an import
+const importSummarySelect = {
+  id: true,
+  user_id: true,
+  campaign_id: true,
+  format: true,
+  status: true,
+  total_rows: true,
+  processed_rows: true,
+  created_count: true,
+  updated_count: true,
+  attached_count: true,
+  error_count: true,
+  errors: true,
+  failure_reason: true,
+  started_at: true,
+  completed_at: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.phone_number_importsSelect;
+
+export const phoneNumberImportRepository = {
+  create(data: { user_id: string; campaign_id?: string | null; format: string; header?: string | null }) {
+    return prisma.phone_number_imports.create({ data, select: importSummarySelect });
+  },
+
+  findById(id: string) {
+    return prisma.phone_number_imports.findUnique({ where: { id }, select: importSummarySelect });
+  },
+
+  findByIdWithHeader(id: string) {
+    return prisma.phone_number_imports.findUnique({ where: { id } });
+  },
+
+  findAllByUserId(user_id: string) {
+    return prisma.phone_number_imports.findMany({
+      where: { user_id },
+      select: importSummarySelect,
+      orderBy: { created_at: 'desc' },
+    });
+  },
+
+  update(id: string, data: Prisma.phone_number_importsUpdateInput) {
+    return prisma.phone_number_imports.update({ where: { id }, data, select: importSummarySelect });
+  },
+
+  createChunk(data: { import_id: string; seq: number; first_line: number; content: string }) {
+    return prisma.phone_number_import_chunks.create({ data, select: { id: true } });
+  },
+
+  // The first chunk of an import that hasn't been imported yet
+  findNextChunk(import_id: string) {
+    return prisma.phone_number_import_chunks.findFirst({ where: { import_id }, orderBy: { seq: 'asc' } });
+  },
+
+  // Adds a chunk's counts to its import and drops the chunk, within the transaction that imported
+  // its rows, so a chunk is applied exactly once however often the import is retried
+  async completeChunk(tx: Prisma.TransactionClient, chunkId: string, data: Prisma.phone_number_importsUpdateInput) {
+    const chunk = await tx.phone_number_import_chunks.delete({ where: { id: chunkId } });
+    return tx.phone_number_imports.update({ where: { id: chunk.import_id }, data, select: importSummarySelect });
+  },
+
+  deleteChunks(import_id: string) {
+    return prisma.phone_number_import_chunks.deleteMany({ where: { import_id } });
+  },
+};
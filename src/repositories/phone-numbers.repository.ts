@@ -1,9 +1,19 @@
 import { prisma } from '../lib/prisma';
-import { phone_number_status } from '@prisma/client';
+import { phone_number_status, phone_numbers, Prisma } from '@prisma/client';
 
 export const phoneNumberRepository = {
-  create(data: { user_id: string; number: string; status?: phone_number_status }) {
-    return prisma.phone_numbers.create({ data });
+  create(
+    data: {
+      user_id: string;
+      number: string;
+      status?: phone_number_status;
+      country_code?: string | null;
+      number_type?: string | null;
+      time_zone?: string | null;
+    },
+    tx: Prisma.TransactionClient = prisma
+  ) {
+    return tx.phone_numbers.create({ data });
   },
 
   findById(id: string) {
@@ -25,18 +35,68 @@ export const phoneNumberRepository = {
     });
   },
 
+  findManyByIds(ids: string[], tx: Prisma.TransactionClient = prisma) {
+    return tx.phone_numbers.findMany({ where: { id: { in: ids } } });
+  },
+
+  findAllByUserIdAndStatus(user_id: string, status?: phone_number_status, tx: Prisma.TransactionClient = prisma) {
+    return tx.phone_numbers.findMany({
+      where: { user_id, status },
+      orderBy: { created_at: 'asc' },
+    });
+  },
+
   findAll() {
     return prisma.phone_numbers.findMany({
       orderBy: { created_at: 'desc' },
     });
   },
 
-  update(id: string, data: { number?: string; status?: phone_number_status }) {
-    return prisma.phone_numbers.update({ where: { id }, data });
+  update(
+    id: string,
+    data: {
+      number?: string;
+      status?: phone_number_status;
+      country_code?: string | null;
+      number_type?: string | null;
+      time_zone?: string | null;
+    },
+    tx: Prisma.TransactionClient = prisma
+  ) {
+    return tx.phone_numbers.update({ where: { id }, data });
+  },
+
+  delete(id: string, tx: Prisma.TransactionClient = prisma) {
+    return tx.phone_numbers.delete({ where: { id } });
+  },
+
+  findManyByUserIdAndNumbers(user_id: string, numbers: string[], tx: Prisma.TransactionClient = prisma) {
+    return tx.phone_numbers.findMany({ where: { user_id, number: { in: numbers } } });
   },
 
-  delete(id: string) {
-    return prisma.phone_numbers.delete({ where: { id } });
+  // Inserts numbers or updates the ones the user already has, returning the rows as written.
+  // A row's status only applies to new numbers, existing ones keep theirs so an import can't
+  // turn do_not_call back to valid. Numbers must be unique within a call.
+  upsertMany(
+    user_id: string,
+    rows: { number: string; status?: phone_number_status; country_code: string | null; number_type: string | null }[],
+    tx: Prisma.TransactionClient = prisma
+  ) {
+    const numbers = rows.map((row) => row.number);
+    const countryCodes = rows.map((row) => row.country_code);
+    const numberTypes = rows.map((row) => row.number_type);
+    const statuses = rows.map((row) => row.status ?? null);
+    return tx.$queryRaw<(phone_numbers & { created: boolean })[]>`
+      INSERT INTO phone_numbers (user_id, number, status, country_code, number_type)
+      SELECT ${user_id}::uuid, t.number, COALESCE(t.status, 'valid')::phone_number_status, t.country_code, t.number_type
+      FROM unnest(${numbers}::text[], ${statuses}::text[], ${countryCodes}::text[], ${numberTypes}::text[])
+        AS t(number, status, country_code, number_type)
+      ON CONFLICT (user_id, number) DO UPDATE
+        SET country_code = EXCLUDED.country_code,
+            number_type = EXCLUDED.number_type,
+            updated_at = NOW()
+      RETURNING *, (xmax = 0) AS created;
+    `;
   },
 };
 
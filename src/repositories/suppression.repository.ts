@@ -0,0 +1,87 @@
+import { prisma } from '../lib/prisma';
+import { Prisma, suppression_entries, suppression_match_type } from '@prisma/client';
+
+type SuppressionEntryInput = {
+  user_id: string | null;
+  match_type: suppression_match_type;
+  value: string;
+  reason?: string | null;
+  expires_at?: Date | null;
+};
+
+// Same normalization as normalizeDialString in lib/suppression, applied to stored phone numbers
+const normalizedPhoneNumber = Prisma.sql`(CASE WHEN btrim(pn.number) LIKE '+%' THEN '+' ELSE '' END || regexp_replace(pn.number, '\\D', '', 'g'))`;
+
+export const suppressionRepository = {
+  create(data: SuppressionEntryInput) {
+    return prisma.suppression_entries.create({ data });
+  },
+
+  // Entries already on the list are left untouched and not returned
+  createMany(data: SuppressionEntryInput[]) {
+    return prisma.suppression_entries.createManyAndReturn({ data, skipDuplicates: true });
+  },
+
+  findById(id: string) {
+    return prisma.suppression_entries.findUnique({ where: { id } });
+  },
+
+  findExisting(user_id: string | null, match_type: suppression_match_type, value: string) {
+    return prisma.suppression_entries.findFirst({ where: { user_id, match_type, value } });
+  },
+
+  // Entries that apply to a user: their own plus the tenant-wide ones
+  findAll(options: { user_id?: string; include_expired?: boolean }) {
+    const filters: Prisma.suppression_entriesWhereInput[] = [];
+    if (options.user_id) {
+      filters.push({ OR: [{ user_id: options.user_id }, { user_id: null }] });
+    }
+    if (!options.include_expired) {
+      filters.push({ OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }] });
+    }
+
+    return prisma.suppression_entries.findMany({
+      where: { AND: filters },
+      orderBy: { created_at: 'desc' },
+    });
+  },
+
+  delete(id: string) {
+    return prisma.suppression_entries.delete({ where: { id } });
+  },
+
+  // First active entry covering an already normalized number for the given user
+  async findActiveMatch(user_id: string, number: string): Promise<suppression_entries | null> {
+    const matches = await prisma.$queryRaw<suppression_entries[]>`
+      SELECT * FROM suppression_entries
+      WHERE (user_id IS NULL OR user_id = ${user_id}::uuid)
+        AND (expires_at IS NULL OR expires_at > NOW())
+        AND (
+          (match_type = 'number' AND value = ${number})
+          OR (match_type = 'prefix' AND ${number} LIKE value || '%')
+        )
+      ORDER BY created_at
+      LIMIT 1;
+    `;
+    return matches[0] ?? null;
+  },
+
+  // Pending call tasks whose number is covered by any of the given entries, per campaign
+  countPendingTasksByCampaign(entryIds: string[]) {
+    return prisma.$queryRaw<{ campaign_id: string; pending_tasks: number }[]>`
+      SELECT ct.campaign_id, COUNT(DISTINCT ct.id)::int AS pending_tasks
+      FROM call_tasks ct
+      JOIN phone_numbers pn ON pn.id = ct.phone_number_id
+      JOIN suppression_entries se ON se.id = ANY(${entryIds}::uuid[])
+        AND (se.user_id IS NULL OR se.user_id = ct.user_id)
+        AND (se.expires_at IS NULL OR se.expires_at > NOW())
+      WHERE ct.status = 'pending'
+        AND CASE se.match_type
+          WHEN 'prefix' THEN ${normalizedPhoneNumber} LIKE se.value || '%'
+          ELSE ${normalizedPhoneNumber} = se.value
+        END
+      GROUP BY ct.campaign_id
+      ORDER BY pending_tasks DESC;
+    `;
+  },
+};
@@ -1,7 +1,12 @@
 import { prisma } from '../lib/prisma';
 
 export const userRepository = {
-  create(data: { email: string; name: string }) {
+  create(data: {
+    email: string;
+    name: string;
+    telephony_provider?: string | null;
+    default_country?: string | null;
+  }) {
     return prisma.users.create({ data });
   },
 
@@ -19,7 +24,10 @@ export const userRepository = {
     });
   },
 
-  update(id: string, data: { name?: string; email?: string }) {
+  update(
+    id: string,
+    data: { name?: string; email?: string; telephony_provider?: string | null; default_country?: string | null }
+  ) {
     return prisma.users.update({ where: { id }, data });
   },
 
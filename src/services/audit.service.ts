@@ -0,0 +1,74 @@
+import { Prisma } from '@prisma/client';
+import { auditLogRepository } from '../repositories/audit-logs.repository';
+import { AuditEntityType, diffEntities, getCurrentActor } from '../lib/audit';
+
+type AuditEntry = {
+  user_id: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: string;
+  before: object | null;
+  after: object | null;
+};
+
+// The audit_logs row of an entry, null for an update that changes nothing
+function toAuditLog(entry: AuditEntry) {
+  const changes = diffEntities(entry.before, entry.after);
+  if (entry.action === 'update' && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  return {
+    user_id: entry.user_id,
+    entity_type: entry.entity_type,
+    entity_id: entry.entity_id,
+    action: entry.action,
+    actor: getCurrentActor(),
+    changes: changes as Prisma.InputJsonValue,
+  };
+}
+
+export const auditService = {
+  /**
+   * Records a mutation of a campaign, schedule or phone number with the current actor
+   * and the fields that changed. Updates that change nothing are not recorded. Pass the
+   * transaction that made the mutation so the two are committed together.
+   *
+   * @param entry.before - The entity before the change, null for a create.
+   * @param entry.after - The entity after the change, null for a delete.
+   */
+  async record(entry: AuditEntry, tx?: Prisma.TransactionClient) {
+    const auditLog = toAuditLog(entry);
+    if (!auditLog) {
+      return null;
+    }
+    return auditLogRepository.create(auditLog, tx);
+  },
+
+  /**
+   * Records the mutations of a bulk change in one insert, see record.
+   */
+  async recordMany(entries: AuditEntry[], tx?: Prisma.TransactionClient) {
+    const auditLogs = entries.map(toAuditLog).filter((auditLog) => auditLog !== null);
+    if (auditLogs.length === 0) {
+      return 0;
+    }
+    const { count } = await auditLogRepository.createMany(auditLogs, tx);
+    return count;
+  },
+
+  async getEntityHistory(entity_type: AuditEntityType, entity_id: string, filter: { from?: Date; to?: Date; limit: number }) {
+    return auditLogRepository.findMany({ entity_type, entity_id, ...filter });
+  },
+
+  async getAuditLog(filter: {
+    user_id?: string;
+    entity_type?: AuditEntityType;
+    entity_id?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+  }) {
+    return auditLogRepository.findMany(filter);
+  },
+};
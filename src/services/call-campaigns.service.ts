@@ -3,7 +3,31 @@ import { callScheduleRepository } from '../repositories/call-schedules.repositor
 import { userRepository } from '../repositories/users.repository';
 import { phoneNumberRepository } from '../repositories/phone-numbers.repository';
 import { prisma } from '../lib/prisma';
-import { getNextValidScheduleDate } from '../lib/schedule_utils';
+import {
+  call_campaigns,
+  call_schedules,
+  call_tasks,
+  campaign_status,
+  phone_number_status,
+  phone_numbers,
+  Prisma,
+} from '@prisma/client';
+import { expandScheduleWindows, getNextValidScheduleDate } from '../lib/schedule_utils';
+import { getScheduleTimeZone } from '../lib/contact_time_zone';
+import { callTaskRepository } from '../repositories/call-tasks.repository';
+import { holidayCalendarService } from './holiday-calendars.service';
+import { auditService } from './audit.service';
+import { RetryPolicy } from '../lib/retry_policy';
+import { getPhoneNumberSkipReason } from '../lib/dialing_eligibility';
+import { CampaignAction, getNextCampaignStatus, openCampaignStatuses } from '../lib/campaign_lifecycle';
+import { removeCallTaskJobs } from '../queues/callTaskQueue';
+import { callLogRepository } from '../repositories/call-logs.repository';
+import { ETA_HORIZON_DAYS, EtaUnavailableReason, estimateCompletion, getAttemptsPerTask } from '../lib/campaign_stats';
+import { CampaignStats } from '../types';
+import { fillMetricsBuckets, MetricsInterval, resolveMetricsRange } from '../lib/campaign_metrics';
+import { findCounterDiscrepancies, pickCampaignCounters } from '../lib/campaign_counters';
+import { getCampaignSlotScope, listSlots, parseCallSlotToken, releaseSlots } from '../lib/concurrency_slots';
+import { normalizePhoneNumber, resolveDefaultCountry } from '../lib/phone_number';
 
 // Custom error classes
 export class CallCampaignNotFoundError extends Error {
@@ -48,16 +72,172 @@ export class InvalidScheduleError extends Error {
   }
 }
 
+export class InvalidCampaignPeriodError extends Error {
+  constructor() {
+    super('ends_at must be after starts_at');
+    this.name = 'InvalidCampaignPeriodError';
+  }
+}
+
+export class CampaignEndedError extends Error {
+  constructor(id: string, endsAt: Date) {
+    super(`Call campaign ${id} ended at ${endsAt.toISOString()}`);
+    this.name = 'CampaignEndedError';
+  }
+}
+
+export class InvalidCampaignTransitionError extends Error {
+  constructor(id: string, status: campaign_status, action: CampaignAction) {
+    super(`Cannot ${action} call campaign ${id} while it is ${status}`);
+    this.name = 'InvalidCampaignTransitionError';
+  }
+}
+
+export class CampaignClosedError extends Error {
+  constructor(id: string, status: campaign_status) {
+    super(`Call campaign ${id} is ${status}, numbers can no longer be added`);
+    this.name = 'CampaignClosedError';
+  }
+}
+
+export class InvalidCallerIdError extends Error {
+  constructor(callerId: string) {
+    super(`Caller ID ${callerId} is not a valid phone number`);
+    this.name = 'InvalidCallerIdError';
+  }
+}
+
+export class ConcurrencySlotNotFoundError extends Error {
+  constructor(campaignId: string, callTaskId: string) {
+    super(`Call task ${callTaskId} holds no concurrency slot of campaign ${campaignId}`);
+    this.name = 'ConcurrencySlotNotFoundError';
+  }
+}
+
+// Caller IDs are stored in E.164 like phone numbers, national ones read in the user's default_country
+function normalizeCallerId(callerId: string | null | undefined, userDefaultCountry: string | null) {
+  if (callerId === undefined || callerId === null) {
+    return callerId;
+  }
+  const normalized = normalizePhoneNumber(callerId, resolveDefaultCountry(userDefaultCountry));
+  if (!normalized) {
+    throw new InvalidCallerIdError(callerId);
+  }
+  return normalized.number;
+}
+
+// The campaign's own columns, without the included schedule
+function auditFields<T extends { call_schedules?: unknown }>(campaign: T) {
+  const { call_schedules, ...fields } = campaign;
+  return fields;
+}
+
+function assertValidPeriod(startsAt?: Date | null, endsAt?: Date | null) {
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    throw new InvalidCampaignPeriodError();
+  }
+}
+
+// Numbers can't be added once the campaign is over, their tasks would never be dialed
+function assertAcceptsNumbers(campaign: { id: string; status: campaign_status; ends_at: Date | null }) {
+  if (!openCampaignStatuses.includes(campaign.status)) {
+    throw new CampaignClosedError(campaign.id, campaign.status);
+  }
+  if (campaign.ends_at && campaign.ends_at <= new Date()) {
+    throw new CampaignEndedError(campaign.id, campaign.ends_at);
+  }
+}
+
+export type BulkAddOutcome = 'created' | 'skipped' | 'duplicate' | 'not_owned' | 'not_found';
+
+export interface BulkAddItemResult {
+  phone_number_id: string;
+  result: BulkAddOutcome;
+  call_task_id?: string;
+  skip_reason?: string;
+}
+
+// Rows per createMany statement, keeps each insert well under Postgres' bind parameter limit
+const BULK_INSERT_CHUNK_SIZE = 5000;
+const BULK_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+// Records a campaign's added phone numbers as one entry with the number of tasks added and
+// skipped, within the transaction that added them
+function recordAddedPhoneNumbers(campaign: call_campaigns, tasks: call_tasks[], tx: Prisma.TransactionClient) {
+  const skipped = tasks.filter((task) => task.skip_reason).length;
+  return auditService.record(
+    {
+      user_id: campaign.user_id,
+      entity_type: 'call_campaign',
+      entity_id: campaign.id,
+      action: 'add_phone_numbers',
+      before: null,
+      after: { added_tasks: tasks.length - skipped, skipped_tasks: skipped },
+    },
+    tx
+  );
+}
+
+// Works out when a campaign's remaining attempts are done, dialing in its schedule's windows
+async function estimateCampaignCompletion(
+  campaign: call_campaigns & { call_schedules: call_schedules | null },
+  remainingAttempts: number,
+  averageCallSeconds: number | null
+): Promise<{ estimated_completion_at: Date | null; unavailable_reason: EtaUnavailableReason | null }> {
+  const now = new Date();
+  if (remainingAttempts === 0) {
+    return { estimated_completion_at: now, unavailable_reason: null };
+  }
+  if (!openCampaignStatuses.includes(campaign.status)) {
+    return { estimated_completion_at: null, unavailable_reason: 'campaign_closed' };
+  }
+  if (!averageCallSeconds) {
+    return { estimated_completion_at: null, unavailable_reason: 'no_call_data' };
+  }
+
+  const schedule = campaign.call_schedules;
+  const from = campaign.starts_at && campaign.starts_at > now ? campaign.starts_at : now;
+  const windows =
+    schedule &&
+    expandScheduleWindows(schedule, from, ETA_HORIZON_DAYS, {
+      holidayCalendar: await holidayCalendarService.getScheduleHolidayCalendar(schedule),
+    });
+  if (!windows) {
+    return { estimated_completion_at: null, unavailable_reason: 'no_schedule' };
+  }
+
+  const completesAt = estimateCompletion({
+    remainingAttempts,
+    averageCallSeconds,
+    concurrency: campaign.max_concurrent_calls,
+    windows: windows.filter((window) => !window.holiday),
+    from,
+  });
+  if (!completesAt) {
+    return { estimated_completion_at: null, unavailable_reason: 'beyond_horizon' };
+  }
+  if (campaign.ends_at && completesAt > campaign.ends_at) {
+    return { estimated_completion_at: null, unavailable_reason: 'after_campaign_end' };
+  }
+  return { estimated_completion_at: completesAt, unavailable_reason: null };
+}
+
 export const callCampaignService = {
   async createCallCampaign(input: {
     user_id: string;
     name: string;
     schedule_id: string;
-    is_paused?: boolean;
     max_concurrent_calls?: number;
     max_retries?: number;
     retry_delay_seconds?: number;
+    priority?: number;
+    retry_policy?: RetryPolicy;
+    caller_id?: string | null;
+    starts_at?: Date | null;
+    ends_at?: Date | null;
   }) {
+    assertValidPeriod(input.starts_at, input.ends_at);
+
     // Check if user exists
     const user = await userRepository.findById(input.user_id);
     if (!user) {
@@ -70,16 +250,39 @@ export const callCampaignService = {
       throw new CallScheduleNotFoundError(input.schedule_id);
     }
 
+    const caller_id = normalizeCallerId(input.caller_id, user.default_country);
+
     // Create the call campaign
-    const callCampaign = await callCampaignRepository.create({
-      user_id: input.user_id,
-      name: input.name,
-      schedule_id: input.schedule_id,
-      max_concurrent_calls: input.max_concurrent_calls,
-      max_retries: input.max_retries,
-      retry_delay_seconds: input.retry_delay_seconds,
+    return prisma.$transaction(async (tx) => {
+      const callCampaign = await callCampaignRepository.create(
+        {
+          user_id: input.user_id,
+          name: input.name,
+          schedule_id: input.schedule_id,
+          max_concurrent_calls: input.max_concurrent_calls,
+          max_retries: input.max_retries,
+          retry_delay_seconds: input.retry_delay_seconds,
+          priority: input.priority,
+          retry_policy: input.retry_policy,
+          caller_id,
+          starts_at: input.starts_at,
+          ends_at: input.ends_at,
+        },
+        tx
+      );
+      await auditService.record(
+        {
+          user_id: callCampaign.user_id,
+          entity_type: 'call_campaign',
+          entity_id: callCampaign.id,
+          action: 'create',
+          before: null,
+          after: callCampaign,
+        },
+        tx
+      );
+      return callCampaign;
     });
-    return callCampaign;
   },
 
   async getCallCampaign(id: string) {
@@ -108,17 +311,25 @@ export const callCampaignService = {
     id: string,
     input: {
       name?: string;
-      is_paused?: boolean;
       schedule_id?: string;
       max_concurrent_calls?: number;
       max_retries?: number;
       retry_delay_seconds?: number;
+      priority?: number;
+      retry_policy?: RetryPolicy;
+      caller_id?: string | null;
+      starts_at?: Date | null;
+      ends_at?: Date | null;
     }
   ) {
     const existing = await callCampaignRepository.findById(id);
     if (!existing) {
       throw new CallCampaignNotFoundError(id);
     }
+    assertValidPeriod(
+      input.starts_at !== undefined ? input.starts_at : existing.starts_at,
+      input.ends_at !== undefined ? input.ends_at : existing.ends_at
+    );
 
     // If updating schedule_id, check it exists
     if (input.schedule_id && input.schedule_id !== existing.schedule_id) {
@@ -128,8 +339,28 @@ export const callCampaignService = {
       }
     }
 
+    let caller_id = input.caller_id;
+    if (caller_id) {
+      const user = await userRepository.findById(existing.user_id);
+      caller_id = normalizeCallerId(caller_id, user?.default_country ?? null);
+    }
+
     // Perform update
-    return callCampaignRepository.update(id, input);
+    return prisma.$transaction(async (tx) => {
+      const updated = await callCampaignRepository.update(id, { ...input, caller_id }, tx);
+      await auditService.record(
+        {
+          user_id: existing.user_id,
+          entity_type: 'call_campaign',
+          entity_id: id,
+          action: 'update',
+          before: auditFields(existing),
+          after: auditFields(updated),
+        },
+        tx
+      );
+      return updated;
+    });
   },
 
   async deleteCallCampaign(id: string) {
@@ -138,70 +369,292 @@ export const callCampaignService = {
       throw new CallCampaignNotFoundError(id);
     }
 
-    return callCampaignRepository.delete(id);
+    return prisma.$transaction(async (tx) => {
+      const deleted = await callCampaignRepository.delete(id, tx);
+      await auditService.record(
+        {
+          user_id: existing.user_id,
+          entity_type: 'call_campaign',
+          entity_id: id,
+          action: 'delete',
+          before: auditFields(existing),
+          after: null,
+        },
+        tx
+      );
+      return deleted;
+    });
+  },
+
+  async getCampaignStatus(id: string): Promise<campaign_status> {
+    const campaign = await callCampaignRepository.findById(id);
+    if (!campaign) {
+      throw new CallCampaignNotFoundError(id);
+    }
+    return campaign.status;
+  },
+
+  /**
+   * Task, attempt and call duration statistics of a campaign, with an estimate of when its
+   * remaining tasks are done given max_concurrent_calls and the schedule's calling windows.
+   */
+  async getCampaignStats(id: string): Promise<CampaignStats> {
+    const campaign = await callCampaignRepository.findById(id);
+    if (!campaign) {
+      throw new CallCampaignNotFoundError(id);
+    }
+
+    const [taskBreakdown, attemptsHistogram, [calls]] = await Promise.all([
+      callTaskRepository.countByStatus(id),
+      callTaskRepository.getAttemptsHistogram(id),
+      callLogRepository.getCampaignCallStats(id),
+    ]);
+
+    const remainingTasks = taskBreakdown
+      .filter((row) => row.status === 'pending' || row.status === 'in_progress')
+      .reduce((sum, row) => sum + row._count, 0);
+    const estimatedAttempts = Math.ceil(remainingTasks * getAttemptsPerTask(attemptsHistogram));
+
+    return {
+      campaign: {
+        id: campaign.id,
+        name: campaign.name,
+        status: campaign.status,
+        max_concurrent_calls: campaign.max_concurrent_calls,
+        total_tasks: campaign.total_tasks,
+        completed_tasks: campaign.completed_tasks,
+        failed_tasks: campaign.failed_tasks,
+        skipped_tasks: campaign.skipped_tasks,
+        expired_tasks: campaign.expired_tasks,
+        retries_attempted: campaign.retries_attempted,
+        expired_leases: campaign.expired_leases,
+      },
+      task_breakdown: taskBreakdown.map((row) => ({ status: row.status, _count: row._count })),
+      total_call_logs: calls.total,
+      attempts_histogram: attemptsHistogram,
+      connect_rate: calls.finished > 0 ? calls.connected / calls.finished : null,
+      call_duration_seconds: {
+        average: calls.average_duration,
+        p50: calls.p50_duration,
+        p90: calls.p90_duration,
+        p99: calls.p99_duration,
+      },
+      eta: {
+        remaining_tasks: remainingTasks,
+        estimated_attempts: estimatedAttempts,
+        ...(await estimateCampaignCompletion(campaign, estimatedAttempts, calls.average_duration)),
+      },
+    };
   },
 
-  async getCampaignStatus(id: string): Promise<'paused' | 'pending' | 'in-progress' | 'completed' | 'failed'> {
-    // Get the campaign
+  /**
+   * Attempts, completions, failures, retries and average call duration of a campaign's calls,
+   * per bucket of the interval. Buckets without calls are included with zero counts.
+   */
+  async getCampaignMetrics(id: string, query: { interval?: MetricsInterval; from?: Date; to?: Date }) {
+    const campaign = await callCampaignRepository.findById(id);
+    if (!campaign) {
+      throw new CallCampaignNotFoundError(id);
+    }
+
+    const range = resolveMetricsRange(query);
+    const rows = await callLogRepository.getCallMetrics({ campaign_id: id }, range);
+    return {
+      interval: range.interval,
+      from: range.from,
+      to: range.to,
+      buckets: fillMetricsBuckets(rows, range),
+    };
+  },
+
+  /**
+   * Applies a lifecycle action (start, pause, resume, cancel, archive) to a campaign.
+   * Cancelling skips the campaign's pending tasks along with the status change, then removes
+   * its jobs still waiting in callTaskQueue and skips their tasks too, so nothing more is dialed.
+   */
+  async changeCampaignStatus(id: string, action: CampaignAction) {
     const campaign = await callCampaignRepository.findById(id);
     if (!campaign) {
       throw new CallCampaignNotFoundError(id);
     }
 
-    // If campaign is paused, return paused
-    if (campaign.is_paused) {
-      return 'paused';
+    const status = getNextCampaignStatus(campaign.status, action, campaign.starts_at);
+    if (!status) {
+      throw new InvalidCampaignTransitionError(id, campaign.status, action);
+    }
+    if (action === 'start' && !campaign.schedule_id) {
+      throw new InvalidScheduleError('Campaign does not have a valid schedule');
+    }
+    if ((action === 'start' || action === 'resume') && campaign.ends_at && campaign.ends_at <= new Date()) {
+      throw new CampaignEndedError(id, campaign.ends_at);
     }
 
-    // Use raw SQL query to efficiently aggregate task statuses
-    const result = await prisma.$queryRaw<
-      Array<{
-        total_tasks: bigint;
-        failed_count: bigint;
-        in_progress_count: bigint;
-        pending_count: bigint;
-        completed_count: bigint;
-      }>
-    >`
-      SELECT 
-        COUNT(*) as total_tasks,
-        COUNT(*) FILTER (WHERE status = 'failed') as failed_count,
-        COUNT(*) FILTER (WHERE status = 'in-progress') as in_progress_count,
-        COUNT(*) FILTER (WHERE status = 'pending') as pending_count,
-        COUNT(*) FILTER (WHERE status = 'completed') as completed_count
-      FROM call_tasks
-      WHERE campaign_id = ${id}::uuid
-    `;
+    const changed = await prisma.$transaction(async (tx) => {
+      // Only applied if nobody changed the status in the meantime
+      const updated = await callCampaignRepository.updateStatus(id, campaign.status, status, tx);
+      if (!updated) {
+        const current = await callCampaignRepository.findById(id, tx);
+        throw new InvalidCampaignTransitionError(id, current?.status ?? campaign.status, action);
+      }
+      if (action === 'cancel') {
+        await callTaskRepository.skipForCancelledCampaign(id, tx);
+      }
 
-    const stats = result[0];
-    const totalTasks = Number(stats.total_tasks);
-    const failedCount = Number(stats.failed_count);
-    const inProgressCount = Number(stats.in_progress_count);
-    const pendingCount = Number(stats.pending_count);
-    const completedCount = Number(stats.completed_count);
+      const after = await callCampaignRepository.findById(id, tx);
+      await auditService.record(
+        {
+          user_id: campaign.user_id,
+          entity_type: 'call_campaign',
+          entity_id: id,
+          action,
+          before: auditFields(campaign),
+          after: after && auditFields(after),
+        },
+        tx
+      );
+      return after;
+    });
 
-    // If no tasks exist, return paused as fallback
-    if (totalTasks === 0) {
-      return 'paused';
+    if (action === 'cancel') {
+      const claimedTasks = await callTaskRepository.findInProgressByCampaignId(id);
+      const removedTaskIds = await removeCallTaskJobs(claimedTasks);
+      // Tasks a call ended with a retry in the meantime are pending again and skipped as well
+      const skipped = await prisma.$transaction((tx) =>
+        callTaskRepository.skipForCancelledCampaign(id, tx, removedTaskIds)
+      );
+      console.log(`[CallCampaigns] Cancelled campaign ${id}, skipped ${skipped} queued tasks`);
+      return callCampaignRepository.findById(id);
     }
 
-    // Check if any task has failed
-    if (failedCount > 0) {
-      return 'failed';
+    return changed;
+  },
+
+  /**
+   * The campaign's audit trail, newest first: who created, changed, paused or cancelled it and when.
+   */
+  async getCampaignHistory(id: string, filter: { from?: Date; to?: Date; limit: number }) {
+    const campaign = await callCampaignRepository.findById(id);
+    if (!campaign) {
+      throw new CallCampaignNotFoundError(id);
     }
+    return auditService.getEntityHistory('call_campaign', id, filter);
+  },
 
-    // Check if any task is pending or in-progress
-    if (inProgressCount > 0 || pendingCount > 0) {
-      return 'in-progress';
+  /**
+   * Recomputes a campaign's counters from its call_tasks and reports the ones that drifted.
+   * With `repair` the stored counters are overwritten with the recomputed values. The campaign
+   * row stays locked while counting, so increments made meanwhile land on the repaired values.
+   */
+  async reconcileCampaignCounters(id: string, options: { repair: boolean }) {
+    const result = await prisma.$transaction(async (tx) => {
+      const stored = await callCampaignRepository.lockCounters(id, tx);
+      if (!stored) {
+        throw new CallCampaignNotFoundError(id);
+      }
+
+      const counters = pickCampaignCounters(stored);
+      const actual = await callCampaignRepository.computeCounters(id, tx);
+      const discrepancies = findCounterDiscrepancies(counters, actual);
+      const repaired = options.repair && discrepancies.length > 0;
+      if (repaired) {
+        await callCampaignRepository.updateCounters(id, actual, tx);
+        await auditService.record(
+          {
+            user_id: stored.user_id,
+            entity_type: 'call_campaign',
+            entity_id: id,
+            action: 'reconcile',
+            before: counters,
+            after: actual,
+          },
+          tx
+        );
+      }
+      return { counters, actual, discrepancies, repaired };
+    });
+
+    if (result.repaired) {
+      console.log(`[CallCampaigns] Repaired ${result.discrepancies.length} drifted counters of campaign ${id}`);
+    }
+
+    return {
+      campaign_id: id,
+      counters: result.actual,
+      discrepancies: result.discrepancies,
+      repaired: result.repaired,
+    };
+  },
+
+  /**
+   * Reconciles the counters of every campaign that isn't archived, see reconcileCampaignCounters.
+   * Returns the campaigns that had drifted.
+   */
+  async reconcileAllCampaignCounters(options: { repair: boolean }) {
+    const campaigns = await callCampaignRepository.findIdsForReconciliation();
+    const drifted = [];
+    for (const { id } of campaigns) {
+      try {
+        const result = await callCampaignService.reconcileCampaignCounters(id, options);
+        if (result.discrepancies.length > 0) {
+          drifted.push(result);
+        }
+      } catch (error) {
+        // Deleted since it was listed
+        if (!(error instanceof CallCampaignNotFoundError)) {
+          throw error;
+        }
+      }
     }
+    return drifted;
+  },
 
-    // Check if all tasks are completed
-    if (completedCount === totalTasks) {
-      return 'completed';
+  /**
+   * The call tasks currently holding one of the campaign's concurrency slots, with the worker
+   * that took each slot and when it expires unless refreshed.
+   */
+  async getConcurrencySlots(id: string) {
+    const campaign = await callCampaignRepository.findById(id);
+    if (!campaign) {
+      throw new CallCampaignNotFoundError(id);
     }
 
-    // Fallback
-    return 'paused';
+    const slots = await listSlots(getCampaignSlotScope(id));
+    return {
+      campaign_id: id,
+      max_concurrent_calls: campaign.max_concurrent_calls,
+      slots: slots.map((slot) => {
+        const { callTaskId, claimedAt } = parseCallSlotToken(slot.token);
+        return {
+          call_task_id: callTaskId,
+          claimed_at: claimedAt,
+          holder: slot.holder,
+          acquired_at: slot.acquired_at,
+          expires_at: slot.expires_at,
+        };
+      }),
+    };
+  },
+
+  /**
+   * Forces a call task's concurrency slot free, e.g. one held for a call that is known to be over.
+   * The task's slots in its user, caller ID and trunk limits are freed along with it, for every
+   * claim of the task that holds one.
+   */
+  async releaseConcurrencySlot(id: string, callTaskId: string) {
+    const campaign = await callCampaignRepository.findById(id);
+    if (!campaign) {
+      throw new CallCampaignNotFoundError(id);
+    }
+
+    const scope = getCampaignSlotScope(id);
+    const tokens = (await listSlots(scope))
+      .map((slot) => slot.token)
+      .filter((token) => parseCallSlotToken(token).callTaskId === callTaskId);
+    const released = await Promise.all(tokens.map((token) => releaseSlots(token)));
+    if (!released.some((scopes) => scopes.includes(scope))) {
+      throw new ConcurrencySlotNotFoundError(id, callTaskId);
+    }
+    console.log(`[CallCampaigns] Force-released the concurrency slot of call task ${callTaskId} in campaign ${id}`);
   },
 
   async addPhoneNumberToCampaign(campaignId: string, phoneNumberId: string) {
@@ -216,6 +669,7 @@ export const callCampaignService = {
     if (!phoneNumber) {
       throw new PhoneNumberNotFoundError(phoneNumberId);
     }
+    assertAcceptsNumbers(campaign);
 
     // Check if phone number belongs to the same user as the campaign
     if (phoneNumber.user_id !== campaign.user_id) {
@@ -236,6 +690,33 @@ export const callCampaignService = {
       throw new CallTaskAlreadyExistsError(campaignId, phoneNumberId);
     }
 
+    // Numbers marked do_not_call or invalid are recorded as skipped and never dialed
+    const skipReason = getPhoneNumberSkipReason(phoneNumber);
+    if (skipReason) {
+      return prisma.$transaction(async (tx) => {
+        const skippedTask = await tx.call_tasks.create({
+          data: {
+            user_id: campaign.user_id,
+            campaign_id: campaignId,
+            phone_number_id: phoneNumberId,
+            scheduled_at: new Date(),
+            status: 'skipped',
+            skip_reason: skipReason,
+            retry_count: 0,
+          },
+        });
+        await tx.call_campaigns.update({
+          where: { id: campaignId },
+          data: {
+            total_tasks: { increment: 1 },
+            skipped_tasks: { increment: 1 },
+          },
+        });
+        await recordAddedPhoneNumbers(campaign, [skippedTask], tx);
+        return skippedTask;
+      });
+    }
+
     // Get the schedule to calculate scheduled_at
     if (!campaign.schedule_id || !campaign.call_schedules) {
       throw new InvalidScheduleError('Campaign does not have a valid schedule');
@@ -243,35 +724,216 @@ export const callCampaignService = {
 
     const schedule = campaign.call_schedules;
 
-    // Calculate the next valid scheduled date
-    const scheduledAt = getNextValidScheduleDate(schedule);
+    // Calculate the next valid scheduled date, in the contact's local time if the schedule asks for it
+    const scheduledAt = getNextValidScheduleDate(schedule, new Date(), {
+      timeZone: getScheduleTimeZone(schedule, phoneNumber),
+      holidayCalendar: await holidayCalendarService.getScheduleHolidayCalendar(schedule),
+      startsAt: campaign.starts_at,
+      endsAt: campaign.ends_at,
+    });
     if (!scheduledAt) {
       throw new InvalidScheduleError(
         `Could not find a valid schedule slot for campaign ${campaignId} with schedule ${schedule.id}`
       );
     }
 
-    // Create the call_task
-    const callTask = await prisma.call_tasks.create({
-      data: {
-        user_id: campaign.user_id,
-        campaign_id: campaignId,
-        phone_number_id: phoneNumberId,
-        scheduled_at: scheduledAt,
-        status: 'pending',
-        retry_count: 0,
-      },
-    });
+    return prisma.$transaction(async (tx) => {
+      // Create the call_task
+      const callTask = await tx.call_tasks.create({
+        data: {
+          user_id: campaign.user_id,
+          campaign_id: campaignId,
+          phone_number_id: phoneNumberId,
+          scheduled_at: scheduledAt,
+          status: 'pending',
+          retry_count: 0,
+        },
+      });
 
-    // Update campaign total_tasks counter
-    await prisma.call_campaigns.update({
-      where: { id: campaignId },
-      data: {
-        total_tasks: { increment: 1 },
-      },
+      // Update campaign total_tasks counter
+      await tx.call_campaigns.update({
+        where: { id: campaignId },
+        data: {
+          total_tasks: { increment: 1 },
+        },
+      });
+
+      await recordAddedPhoneNumbers(campaign, [callTask], tx);
+      return callTask;
     });
+  },
+
+  /**
+   * Adds many phone numbers to a campaign at once, either an explicit list of IDs or
+   * the campaign owner's numbers matching a filter. Tasks are inserted with createMany
+   * and the campaign counters are updated once. Given a transaction, the numbers are read
+   * and the tasks added within it, e.g. right after an import upserted the numbers.
+   */
+  async addPhoneNumbersToCampaign(
+    campaignId: string,
+    selection: { phone_number_ids?: string[]; filter?: { status?: phone_number_status } },
+    tx?: Prisma.TransactionClient
+  ) {
+    const campaign = await callCampaignRepository.findById(campaignId, tx);
+    if (!campaign) {
+      throw new CallCampaignNotFoundError(campaignId);
+    }
+    assertAcceptsNumbers(campaign);
+
+    const results: BulkAddItemResult[] = [];
+    let candidates: phone_numbers[];
+
+    if (selection.phone_number_ids) {
+      // IDs repeated within the request are reported as duplicates
+      const requestedIds = new Set<string>();
+      for (const id of selection.phone_number_ids) {
+        if (requestedIds.has(id)) {
+          results.push({ phone_number_id: id, result: 'duplicate' });
+        }
+        requestedIds.add(id);
+      }
+
+      // Looked up in the same chunks as the inserts below, so no query carries every ID
+      const ids = [...requestedIds];
+      const phoneNumbers: phone_numbers[] = [];
+      for (let i = 0; i < ids.length; i += BULK_INSERT_CHUNK_SIZE) {
+        phoneNumbers.push(...(await phoneNumberRepository.findManyByIds(ids.slice(i, i + BULK_INSERT_CHUNK_SIZE), tx)));
+      }
+      const phoneNumbersById = new Map(phoneNumbers.map((phoneNumber) => [phoneNumber.id, phoneNumber]));
+
+      candidates = [];
+      for (const id of requestedIds) {
+        const phoneNumber = phoneNumbersById.get(id);
+        if (!phoneNumber) {
+          results.push({ phone_number_id: id, result: 'not_found' });
+        } else if (phoneNumber.user_id !== campaign.user_id) {
+          results.push({ phone_number_id: id, result: 'not_owned' });
+        } else {
+          candidates.push(phoneNumber);
+        }
+      }
+    } else {
+      candidates = await phoneNumberRepository.findAllByUserIdAndStatus(campaign.user_id, selection.filter?.status, tx);
+    }
+
+    // Numbers already in the campaign
+    const existingTasks: { id: string; phone_number_id: string }[] = [];
+    for (let i = 0; i < candidates.length; i += BULK_INSERT_CHUNK_SIZE) {
+      const chunkIds = candidates.slice(i, i + BULK_INSERT_CHUNK_SIZE).map((phoneNumber) => phoneNumber.id);
+      existingTasks.push(
+        ...(await (tx ?? prisma).call_tasks.findMany({
+          where: { campaign_id: campaignId, phone_number_id: { in: chunkIds } },
+          select: { id: true, phone_number_id: true },
+        }))
+      );
+    }
+    const existingTaskIds = new Map(existingTasks.map((task) => [task.phone_number_id, task.id]));
+    for (const [phone_number_id, call_task_id] of existingTaskIds) {
+      results.push({ phone_number_id, result: 'duplicate', call_task_id });
+    }
+
+    // Numbers marked do_not_call or invalid are recorded as skipped and never dialed
+    const rows = candidates
+      .filter((phoneNumber) => !existingTaskIds.has(phoneNumber.id))
+      .map((phoneNumber) => ({
+        phone_number_id: phoneNumber.id,
+        skip_reason: getPhoneNumberSkipReason(phoneNumber),
+        scheduled_at: new Date(),
+      }));
+
+    const dialable = rows.filter((row) => !row.skip_reason);
+    if (dialable.length > 0) {
+      if (!campaign.schedule_id || !campaign.call_schedules) {
+        throw new InvalidScheduleError('Campaign does not have a valid schedule');
+      }
+      const schedule = campaign.call_schedules;
+      const phoneNumbersById = new Map(candidates.map((phoneNumber) => [phoneNumber.id, phoneNumber]));
+
+      // One slot per time zone, shared by every contact in it
+      const now = new Date();
+      const holidayCalendar = await holidayCalendarService.getScheduleHolidayCalendar(schedule);
+      const scheduledAtByTimeZone = new Map<string, Date | null>();
+      for (const row of dialable) {
+        const timeZone = getScheduleTimeZone(schedule, phoneNumbersById.get(row.phone_number_id)!);
+        if (!scheduledAtByTimeZone.has(timeZone)) {
+          scheduledAtByTimeZone.set(
+            timeZone,
+            getNextValidScheduleDate(schedule, now, {
+              timeZone,
+              holidayCalendar,
+              startsAt: campaign.starts_at,
+              endsAt: campaign.ends_at,
+            })
+          );
+        }
+        const scheduledAt = scheduledAtByTimeZone.get(timeZone);
+        if (!scheduledAt) {
+          throw new InvalidScheduleError(
+            `Could not find a valid schedule slot for campaign ${campaignId} with schedule ${schedule.id}`
+          );
+        }
+        row.scheduled_at = scheduledAt;
+      }
+    }
+
+    const insertTasks = async (tx: Prisma.TransactionClient) => {
+      const created: call_tasks[] = [];
+      for (let i = 0; i < rows.length; i += BULK_INSERT_CHUNK_SIZE) {
+        const chunk = await tx.call_tasks.createManyAndReturn({
+          data: rows.slice(i, i + BULK_INSERT_CHUNK_SIZE).map((row) => ({
+            user_id: campaign.user_id,
+            campaign_id: campaignId,
+            phone_number_id: row.phone_number_id,
+            scheduled_at: row.scheduled_at,
+            status: row.skip_reason ? 'skipped' : 'pending',
+            skip_reason: row.skip_reason,
+            retry_count: 0,
+          })),
+          // A concurrent request may have added some of the numbers in the meantime
+          skipDuplicates: true,
+        });
+        created.push(...chunk);
+      }
+
+      if (created.length > 0) {
+        await tx.call_campaigns.update({
+          where: { id: campaignId },
+          data: {
+            total_tasks: { increment: created.length },
+            skipped_tasks: { increment: created.filter((task) => task.skip_reason).length },
+            updated_at: new Date(),
+          },
+        });
+        await recordAddedPhoneNumbers(campaign, created, tx);
+      }
+      return created;
+    };
+    const createdTasks = tx
+      ? await insertTasks(tx)
+      : await prisma.$transaction(insertTasks, { timeout: BULK_TRANSACTION_TIMEOUT_MS });
+
+    const createdByPhoneNumberId = new Map(createdTasks.map((task) => [task.phone_number_id, task]));
+    for (const row of rows) {
+      const task = createdByPhoneNumberId.get(row.phone_number_id);
+      if (!task) {
+        results.push({ phone_number_id: row.phone_number_id, result: 'duplicate' });
+      } else if (task.skip_reason) {
+        results.push({
+          phone_number_id: row.phone_number_id,
+          result: 'skipped',
+          call_task_id: task.id,
+          skip_reason: task.skip_reason,
+        });
+      } else {
+        results.push({ phone_number_id: row.phone_number_id, result: 'created', call_task_id: task.id });
+      }
+    }
 
-    return callTask;
+    const summary: Record<BulkAddOutcome, number> = { created: 0, skipped: 0, duplicate: 0, not_owned: 0, not_found: 0 };
+    for (const item of results) {
+      summary[item.result]++;
+    }
+
+    return { campaign_id: campaignId, summary, results };
   },
 };
-
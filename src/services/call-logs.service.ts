@@ -0,0 +1,345 @@
+import { call_log_status, call_tasks, call_campaigns, call_schedules, phone_numbers, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getCallSlotToken, releaseSlots } from '../lib/concurrency_slots';
+import { RETRY_CALL_TASK_PRIORITY } from '../lib/dispatch_priority';
+import { callLogRepository } from '../repositories/call-logs.repository';
+import { resolveRetryDecision, FailedCallOutcome } from '../lib/retry_policy';
+import { getNextValidScheduleDate } from '../lib/schedule_utils';
+import { getScheduleTimeZone } from '../lib/contact_time_zone';
+import { BlackoutCalendar } from '../lib/holidays';
+import { getTelephonyProvider, isTerminalCallStatus, ProviderCallStatus } from '../telephony';
+
+// Custom error classes
+export class CallLogNotFoundError extends Error {
+  constructor(identifier: string) {
+    super(`Call log ${identifier} not found`);
+    this.name = 'CallLogNotFoundError';
+  }
+}
+
+// How each provider status is recorded on call_logs
+const callLogStatusByProviderStatus: Record<ProviderCallStatus, call_log_status> = {
+  queued: 'initiated',
+  ringing: 'initiated',
+  answered: 'in_progress',
+  completed: 'completed',
+  busy: 'busy',
+  no_answer: 'no_answer',
+  voicemail: 'voicemail',
+  rejected: 'rejected',
+  invalid_number: 'invalid_number',
+  carrier_error: 'carrier_error',
+  failed: 'failed',
+};
+
+// Call logs only move forward: initiated -> in_progress -> terminal.
+// An update that doesn't raise the rank is a duplicate or arrived out of order and is ignored.
+const callLogStatusRank: Record<call_log_status, number> = {
+  initiated: 0,
+  in_progress: 1,
+  completed: 2,
+  failed: 2,
+  busy: 2,
+  no_answer: 2,
+  voicemail: 2,
+  rejected: 2,
+  invalid_number: 2,
+  carrier_error: 2,
+};
+
+export type CallTaskOutcome = 'completed' | 'retry_scheduled' | 'failed' | 'expired';
+
+export interface CallStatusUpdateResult {
+  applied: boolean;
+  callLogId: string;
+  callTaskId: string;
+  campaignId: string;
+  status: call_log_status;
+  // Unset while the call is ongoing, and when the task had already moved on to another claim
+  taskOutcome?: CallTaskOutcome;
+}
+
+// Moves the task on from the claim that placed the call. The claim's lease may have run out
+// before the outcome arrived, in which case the task was already handed back (and maybe claimed
+// and dialed again) and the outcome leaves it and its campaign's counters alone.
+async function updateClaimedTask(
+  tx: Prisma.TransactionClient,
+  callTask: call_tasks,
+  claimedAt: Date | null,
+  data: Prisma.call_tasksUpdateManyMutationInput
+): Promise<boolean> {
+  const { count } = await tx.call_tasks.updateMany({
+    // Logs written before claims were recorded on them match any claim
+    where: { id: callTask.id, status: 'in_progress', claimed_at: claimedAt ?? undefined },
+    data: { ...data, updated_at: new Date() },
+  });
+  if (count === 0) {
+    console.warn(`[CallLogs] Task ${callTask.id} is no longer held by the claim that placed the call, leaving it as is`);
+  }
+  return count > 0;
+}
+
+async function completeCallTask(
+  tx: Prisma.TransactionClient,
+  callTask: call_tasks,
+  claimedAt: Date | null
+): Promise<CallTaskOutcome | undefined> {
+  if (!(await updateClaimedTask(tx, callTask, claimedAt, { status: 'completed' }))) {
+    return undefined;
+  }
+  await tx.call_campaigns.update({
+    where: { id: callTask.campaign_id },
+    data: { completed_tasks: { increment: 1 }, updated_at: new Date() },
+  });
+  return 'completed';
+}
+
+// The retry would fall after the campaign's ends_at, the task expires instead
+async function expireCallTask(
+  tx: Prisma.TransactionClient,
+  callTask: call_tasks,
+  claimedAt: Date | null,
+  outcome: FailedCallOutcome
+): Promise<CallTaskOutcome | undefined> {
+  if (!(await updateClaimedTask(tx, callTask, claimedAt, { status: 'expired' }))) {
+    return undefined;
+  }
+  await tx.call_campaigns.update({
+    where: { id: callTask.campaign_id },
+    data: { expired_tasks: { increment: 1 }, updated_at: new Date() },
+  });
+  console.log(`[CallLogs] Task ${callTask.id} ended with ${outcome}, no retry possible before its campaign ends`);
+  return 'expired';
+}
+
+async function failCallTask(
+  tx: Prisma.TransactionClient,
+  callTask: call_tasks,
+  claimedAt: Date | null,
+  campaign: call_campaigns & {
+    call_schedules: (call_schedules & { holiday_calendars: BlackoutCalendar | null }) | null;
+  },
+  phoneNumber: phone_numbers,
+  outcome: FailedCallOutcome
+): Promise<CallTaskOutcome | undefined> {
+  // The campaign's retry policy decides per outcome whether (and when) to call again
+  const decision = resolveRetryDecision(campaign.retry_policy, outcome, {
+    retryCount: callTask.retry_count,
+    maxRetries: campaign.max_retries,
+    defaultDelaySeconds: campaign.retry_delay_seconds,
+  });
+
+  if (decision.markNumberInvalid) {
+    await tx.phone_numbers.update({
+      where: { id: callTask.phone_number_id },
+      data: { status: 'invalid', updated_at: new Date() },
+    });
+    console.log(`[CallLogs] Phone number ${callTask.phone_number_id} marked invalid after task ${callTask.id}`);
+  }
+
+  if (decision.retry) {
+    // The retry waits out its delay and then for the schedule's next window in the contact's time zone
+    const retryAfter = new Date(Date.now() + decision.delaySeconds * 1000);
+    const schedule = campaign.call_schedules;
+    const newScheduledAt = schedule
+      ? getNextValidScheduleDate(schedule, retryAfter, {
+          timeZone: getScheduleTimeZone(schedule, phoneNumber),
+          holidayCalendar: schedule.holiday_calendars,
+          startsAt: campaign.starts_at,
+          endsAt: campaign.ends_at,
+        })
+      : retryAfter;
+
+    if (newScheduledAt && campaign.ends_at && newScheduledAt >= campaign.ends_at) {
+      // Campaigns without a schedule retry after the delay, which may fall after the end
+      return expireCallTask(tx, callTask, claimedAt, outcome);
+    }
+    if (newScheduledAt) {
+      const rescheduled = await updateClaimedTask(tx, callTask, claimedAt, {
+        status: 'pending', // Set back to pending for the scheduler to pick up again
+        retry_count: { increment: 1 },
+        priority: RETRY_CALL_TASK_PRIORITY, // Dialed before the campaign's new calls
+        scheduled_at: newScheduledAt,
+      });
+      if (!rescheduled) {
+        return undefined;
+      }
+      await tx.call_campaigns.update({
+        where: { id: campaign.id },
+        data: { retries_attempted: { increment: 1 }, updated_at: new Date() },
+      });
+      console.log(`[CallLogs] Task ${callTask.id} ended with ${outcome}, rescheduled for retry at ${newScheduledAt.toISOString()}`);
+      return 'retry_scheduled';
+    }
+
+    if (campaign.ends_at) {
+      // No window opens again before the campaign ends
+      return expireCallTask(tx, callTask, claimedAt, outcome);
+    }
+    // The schedule never opens again, there is no window left to retry in
+    console.log(`[CallLogs] Task ${callTask.id} ended with ${outcome}, schedule ${schedule?.id} has no upcoming windows to retry in`);
+  }
+
+  // Not retryable under the policy or retries exhausted, mark as permanently failed
+  if (!(await updateClaimedTask(tx, callTask, claimedAt, { status: 'failed' }))) {
+    return undefined;
+  }
+  await tx.call_campaigns.update({
+    where: { id: campaign.id },
+    data: { failed_tasks: { increment: 1 }, updated_at: new Date() },
+  });
+  console.log(`[CallLogs] Task ${callTask.id} has failed permanently (${outcome}) after ${callTask.retry_count} retries.`);
+  return 'failed';
+}
+
+/**
+ * Records a provider status on a call log and, once the call has ended, advances
+ * its call task and campaign counters. Safe to call repeatedly with the same status.
+ */
+async function applyCallStatus(
+  callLogId: string,
+  providerStatus: ProviderCallStatus,
+  occurredAt: Date = new Date()
+): Promise<CallStatusUpdateResult> {
+  const status = callLogStatusByProviderStatus[providerStatus];
+  const terminal = isTerminalCallStatus(providerStatus);
+
+  return prisma.$transaction(async (tx) => {
+    const callLog = await tx.call_logs.findUnique({
+      where: { id: callLogId },
+      include: {
+        call_tasks: {
+          include: {
+            call_campaigns: {
+              include: {
+                call_schedules: { include: { holiday_calendars: { include: { holiday_calendar_dates: true } } } },
+              },
+            },
+            phone_numbers: true,
+          },
+        },
+      },
+    });
+    if (!callLog) {
+      throw new CallLogNotFoundError(callLogId);
+    }
+
+    const { call_tasks: callTask } = callLog;
+    const previousStatuses = (Object.keys(callLogStatusRank) as call_log_status[]).filter(
+      (candidate) => callLogStatusRank[candidate] < callLogStatusRank[status]
+    );
+
+    // Conditional update so concurrent deliveries of the same status apply only once
+    const { count } = await tx.call_logs.updateMany({
+      where: { id: callLogId, status: { in: previousStatuses } },
+      data: {
+        status,
+        ended_at: terminal ? occurredAt : undefined,
+        updated_at: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return {
+        applied: false,
+        callLogId,
+        callTaskId: callTask.id,
+        campaignId: callTask.campaign_id,
+        status: callLog.status,
+      };
+    }
+
+    let taskOutcome: CallTaskOutcome | undefined;
+    if (terminal) {
+      taskOutcome =
+        status === 'completed'
+          ? await completeCallTask(tx, callTask, callLog.task_claimed_at)
+          : await failCallTask(
+              tx,
+              callTask,
+              callLog.task_claimed_at,
+              callTask.call_campaigns,
+              callTask.phone_numbers,
+              status as FailedCallOutcome
+            );
+    }
+
+    return { applied: true, callLogId, callTaskId: callTask.id, campaignId: callTask.campaign_id, status, taskOutcome };
+  });
+}
+
+/**
+ * Ends a claim whose lease ran out while its task was still in-progress, because its job was
+ * lost or its worker died mid-call. The attempt counts as a failed call, so the task is retried
+ * after the retry delay in the schedule's next window, or expires or fails like one. Returns
+ * undefined when the claim renewed its lease or moved the task on in the meantime.
+ */
+async function reclaimExpiredLease(callTaskId: string, claimedAt: Date | null): Promise<CallTaskOutcome | undefined> {
+  return prisma.$transaction(async (tx) => {
+    // Drops the lease while it is still expired; a worker renewing it at the same time waits for
+    // this transaction and then finds the task moved on
+    const { count } = await tx.call_tasks.updateMany({
+      where: { id: callTaskId, status: 'in_progress', claimed_at: claimedAt, lease_expires_at: { lte: new Date() } },
+      data: { lease_expires_at: null, claimed_by: null, updated_at: new Date() },
+    });
+    if (count === 0) {
+      return undefined;
+    }
+
+    const callTask = await tx.call_tasks.findUniqueOrThrow({
+      where: { id: callTaskId },
+      include: {
+        call_campaigns: {
+          include: {
+            call_schedules: { include: { holiday_calendars: { include: { holiday_calendar_dates: true } } } },
+          },
+        },
+        phone_numbers: true,
+      },
+    });
+    const taskOutcome = await failCallTask(
+      tx,
+      callTask,
+      claimedAt,
+      callTask.call_campaigns,
+      callTask.phone_numbers,
+      'failed'
+    );
+    await tx.call_campaigns.update({
+      where: { id: callTask.campaign_id },
+      data: { expired_leases: { increment: 1 }, updated_at: new Date() },
+    });
+    return taskOutcome;
+  });
+}
+
+export const callLogService = {
+  applyCallStatus,
+  reclaimExpiredLease,
+
+  async handleStatusCallback(providerName: string, payload: unknown): Promise<CallStatusUpdateResult> {
+    const provider = getTelephonyProvider(providerName);
+    const event = provider.parseStatusCallback(payload);
+
+    // The worker stores external_call_id once dial() returns, callbacks that arrive before
+    // then are matched by the call log ID the provider echoes
+    const callLog = event.callLogId
+      ? await callLogRepository.findById(event.callLogId)
+      : await callLogRepository.findByExternalCallId(event.externalCallId);
+    if (!callLog || (callLog.external_call_id && callLog.external_call_id !== event.externalCallId)) {
+      throw new CallLogNotFoundError(event.callLogId ?? event.externalCallId);
+    }
+
+    const result = await applyCallStatus(callLog.id, event.status, event.occurredAt);
+
+    // For callback-driven providers the worker hands its concurrency slots over to the
+    // call when it dials, so they are released once the call has ended. That holds even
+    // when the task already moved on to another claim and the outcome left it as is; the
+    // slots of that other claim are its own and stay held.
+    if (result.applied && isTerminalCallStatus(event.status) && provider.sendsStatusCallbacks && callLog.task_claimed_at) {
+      await releaseSlots(getCallSlotToken(result.callTaskId, callLog.task_claimed_at));
+    }
+
+    return result;
+  },
+};
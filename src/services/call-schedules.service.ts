@@ -1,6 +1,15 @@
 import { callScheduleRepository } from '../repositories/call-schedules.repository';
 import { userRepository } from '../repositories/users.repository';
+import { holidayCalendarRepository } from '../repositories/holiday-calendars.repository';
 import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { auditService } from './audit.service';
+import {
+  expandScheduleWindows,
+  findDstTransitions,
+  getNextValidScheduleDate,
+  parseScheduleRules,
+} from '../lib/schedule_utils';
 
 // Custom error classes
 export class CallScheduleNotFoundError extends Error {
@@ -17,27 +26,95 @@ export class UserNotFoundError extends Error {
   }
 }
 
+export class HolidayCalendarNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Holiday calendar with id ${id} not found`);
+    this.name = 'HolidayCalendarNotFoundError';
+  }
+}
+
+export class InvalidHolidayCalendarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidHolidayCalendarError';
+  }
+}
+
+export class InvalidSchedulePeriodError extends Error {
+  constructor() {
+    super('valid_until must be after valid_from');
+    this.name = 'InvalidSchedulePeriodError';
+  }
+}
+
+function assertValidPeriod(validFrom?: Date | null, validUntil?: Date | null) {
+  if (validFrom && validUntil && validUntil <= validFrom) {
+    throw new InvalidSchedulePeriodError();
+  }
+}
+
+// A schedule can only use a holiday calendar of its own user
+async function assertHolidayCalendarUsable(holidayCalendarId: string | null | undefined, user_id: string) {
+  if (!holidayCalendarId) {
+    return;
+  }
+  const calendar = await holidayCalendarRepository.findById(holidayCalendarId);
+  if (!calendar) {
+    throw new HolidayCalendarNotFoundError(holidayCalendarId);
+  }
+  if (calendar.user_id !== user_id) {
+    throw new InvalidHolidayCalendarError('Holiday calendar does not belong to the schedule owner');
+  }
+}
+
 export const callScheduleService = {
   async createCallSchedule(input: {
     user_id: string;
     name: string;
     time_zone: string;
     schedule_rules: Prisma.InputJsonValue;
+    use_contact_time_zone?: boolean;
+    holiday_calendar_id?: string | null;
+    valid_from?: Date | null;
+    valid_until?: Date | null;
   }) {
+    assertValidPeriod(input.valid_from, input.valid_until);
+
     // Check if user exists
     const user = await userRepository.findById(input.user_id);
     if (!user) {
       throw new UserNotFoundError(input.user_id);
     }
+    await assertHolidayCalendarUsable(input.holiday_calendar_id, input.user_id);
 
     // Create the call schedule
-    const callSchedule = await callScheduleRepository.create({
-      user_id: input.user_id,
-      name: input.name,
-      time_zone: input.time_zone,
-      schedule_rules: input.schedule_rules,
+    return prisma.$transaction(async (tx) => {
+      const callSchedule = await callScheduleRepository.create(
+        {
+          user_id: input.user_id,
+          name: input.name,
+          time_zone: input.time_zone,
+          schedule_rules: input.schedule_rules,
+          use_contact_time_zone: input.use_contact_time_zone,
+          holiday_calendar_id: input.holiday_calendar_id,
+          valid_from: input.valid_from,
+          valid_until: input.valid_until,
+        },
+        tx
+      );
+      await auditService.record(
+        {
+          user_id: callSchedule.user_id,
+          entity_type: 'call_schedule',
+          entity_id: callSchedule.id,
+          action: 'create',
+          before: null,
+          after: callSchedule,
+        },
+        tx
+      );
+      return callSchedule;
     });
-    return callSchedule;
   },
 
   async getCallSchedule(id: string) {
@@ -68,15 +145,38 @@ export const callScheduleService = {
       name?: string;
       time_zone?: string;
       schedule_rules?: Prisma.InputJsonValue;
+      use_contact_time_zone?: boolean;
+      holiday_calendar_id?: string | null;
+      valid_from?: Date | null;
+      valid_until?: Date | null;
     }
   ) {
     const existing = await callScheduleRepository.findById(id);
     if (!existing) {
       throw new CallScheduleNotFoundError(id);
     }
+    assertValidPeriod(
+      input.valid_from !== undefined ? input.valid_from : existing.valid_from,
+      input.valid_until !== undefined ? input.valid_until : existing.valid_until
+    );
+    await assertHolidayCalendarUsable(input.holiday_calendar_id, existing.user_id);
 
     // Perform update
-    return callScheduleRepository.update(id, input);
+    return prisma.$transaction(async (tx) => {
+      const updated = await callScheduleRepository.update(id, input, tx);
+      await auditService.record(
+        {
+          user_id: existing.user_id,
+          entity_type: 'call_schedule',
+          entity_id: id,
+          action: 'update',
+          before: existing,
+          after: updated,
+        },
+        tx
+      );
+      return updated;
+    });
   },
 
   async deleteCallSchedule(id: string) {
@@ -85,7 +185,69 @@ export const callScheduleService = {
       throw new CallScheduleNotFoundError(id);
     }
 
-    return callScheduleRepository.delete(id);
+    return prisma.$transaction(async (tx) => {
+      const deleted = await callScheduleRepository.delete(id, tx);
+      await auditService.record(
+        {
+          user_id: existing.user_id,
+          entity_type: 'call_schedule',
+          entity_id: id,
+          action: 'delete',
+          before: existing,
+          after: null,
+        },
+        tx
+      );
+      return deleted;
+    });
   },
-};
 
+  /**
+   * Expands a schedule into the concrete windows of the coming days, in UTC and local time,
+   * flagging DST transitions and holidays.
+   *
+   * @param options.from - Start of the preview, defaults to now.
+   * @param options.days - Number of days to expand.
+   * @param options.time_zone - Evaluate in this time zone instead, e.g. a contact's for use_contact_time_zone schedules.
+   */
+  async previewCallSchedule(id: string, options: { from?: Date; days: number; time_zone?: string }) {
+    const schedule = await callScheduleRepository.findById(id);
+    if (!schedule) {
+      throw new CallScheduleNotFoundError(id);
+    }
+
+    const from = options.from ?? new Date();
+    const timeZone = options.time_zone ?? schedule.time_zone;
+    const holidayCalendar = schedule.holiday_calendar_id
+      ? await holidayCalendarRepository.findById(schedule.holiday_calendar_id)
+      : null;
+
+    const windows = expandScheduleWindows(schedule, from, options.days, { timeZone, holidayCalendar }) ?? [];
+    const lastWindowEnd = windows.length > 0 ? windows[windows.length - 1].end : from;
+    const previewEnd = new Date(Math.max(from.getTime() + options.days * 24 * 60 * 60 * 1000, lastWindowEnd.getTime()));
+    const nextSlot = getNextValidScheduleDate(schedule, from, { timeZone, holidayCalendar });
+
+    const warnings: string[] = [];
+    if (!parseScheduleRules(schedule.schedule_rules)) {
+      warnings.push('schedule_rules are invalid, no calls can be scheduled');
+    } else if (!nextSlot) {
+      warnings.push(
+        `No calling slot after ${from.toISOString()}, numbers added to campaigns using this schedule are rejected`
+      );
+    }
+    if (windows.length > 0 && windows.every((window) => window.holiday)) {
+      warnings.push('Every window in the preview falls on a holiday or blackout date');
+    }
+
+    return {
+      schedule_id: schedule.id,
+      time_zone: timeZone,
+      from,
+      days: options.days,
+      next_slot: nextSlot,
+      windows,
+      dst_transitions: findDstTransitions(timeZone, from, previewEnd),
+      warnings,
+    };
+  },
+};
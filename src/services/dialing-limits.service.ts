@@ -0,0 +1,132 @@
+import { dialing_limit_scope } from '@prisma/client';
+import { dialingLimitRepository } from '../repositories/dialing-limits.repository';
+import { userRepository } from '../repositories/users.repository';
+import { normalizePhoneNumber, resolveDefaultCountry } from '../lib/phone_number';
+import {
+  getCallerIdSlotScope,
+  getTrunkSlotScope,
+  getUserSlotScope,
+  listSlots,
+  parseCallSlotToken,
+  SlotLimit,
+} from '../lib/concurrency_slots';
+import { isTelephonyProviderName, telephonyProviderNames } from '../telephony';
+
+// Custom error classes
+export class DialingLimitNotFoundError extends Error {
+  constructor(scope: string, target: string) {
+    super(`No ${scope} dialing limit for ${target}`);
+    this.name = 'DialingLimitNotFoundError';
+  }
+}
+
+export class InvalidDialingLimitTargetError extends Error {
+  constructor(scope: string, target: string, reason: string) {
+    super(`Invalid ${scope} dialing limit target ${target}: ${reason}`);
+    this.name = 'InvalidDialingLimitTargetError';
+  }
+}
+
+const slotScopeOf: Record<dialing_limit_scope, (target: string) => string> = {
+  user: getUserSlotScope,
+  caller_id: getCallerIdSlotScope,
+  trunk: getTrunkSlotScope,
+};
+
+// Targets are stored in the form the worker looks them up by: user IDs, caller IDs in E.164
+// and telephony provider names
+async function normalizeTarget(scope: dialing_limit_scope, target: string): Promise<string> {
+  switch (scope) {
+    case 'user': {
+      const user = await userRepository.findById(target);
+      if (!user) {
+        throw new InvalidDialingLimitTargetError(scope, target, 'user not found');
+      }
+      return user.id;
+    }
+    case 'caller_id': {
+      const normalized = normalizePhoneNumber(target, resolveDefaultCountry());
+      if (!normalized) {
+        throw new InvalidDialingLimitTargetError(scope, target, 'not a valid phone number');
+      }
+      return normalized.number;
+    }
+    case 'trunk':
+      if (!isTelephonyProviderName(target)) {
+        throw new InvalidDialingLimitTargetError(scope, target, `expected one of ${telephonyProviderNames.join(', ')}`);
+      }
+      return target;
+  }
+}
+
+export const dialingLimitService = {
+  async getDialingLimits(scope?: dialing_limit_scope) {
+    return dialingLimitRepository.findAll(scope);
+  },
+
+  /**
+   * A limit with the calls currently holding one of its slots.
+   */
+  async getDialingLimit(scope: dialing_limit_scope, target: string) {
+    const limit = await dialingLimitRepository.findByTarget(scope, await normalizeTarget(scope, target));
+    if (!limit) {
+      throw new DialingLimitNotFoundError(scope, target);
+    }
+
+    const slots = await listSlots(slotScopeOf[scope](limit.target));
+    return {
+      ...limit,
+      slots: slots.map((slot) => {
+        const { callTaskId, claimedAt } = parseCallSlotToken(slot.token);
+        return {
+          call_task_id: callTaskId,
+          claimed_at: claimedAt,
+          holder: slot.holder,
+          acquired_at: slot.acquired_at,
+          expires_at: slot.expires_at,
+        };
+      }),
+    };
+  },
+
+  /**
+   * Creates or replaces the limit of a user, caller ID or trunk. A null maximum leaves that
+   * side unlimited. Lowering a limit below the calls in progress only holds back new dials.
+   */
+  async setDialingLimit(
+    scope: dialing_limit_scope,
+    target: string,
+    input: { max_concurrent_calls: number | null; max_calls_per_second: number | null }
+  ) {
+    return dialingLimitRepository.upsert(scope, await normalizeTarget(scope, target), input);
+  },
+
+  async deleteDialingLimit(scope: dialing_limit_scope, target: string) {
+    const limit = await dialingLimitRepository.findByTarget(scope, await normalizeTarget(scope, target));
+    if (!limit) {
+      throw new DialingLimitNotFoundError(scope, target);
+    }
+    await dialingLimitRepository.delete(limit.id);
+  },
+
+  /**
+   * The slot limits a call has to fit in besides its campaign's, for the user placing it,
+   * the caller ID it is placed from (when the campaign sets one) and the trunk it goes out on.
+   */
+  async getSlotLimitsForCall(call: { user_id: string; caller_id: string | null; trunk: string }): Promise<SlotLimit[]> {
+    const targets: { scope: dialing_limit_scope; target: string }[] = [
+      { scope: 'user', target: call.user_id },
+      { scope: 'trunk', target: call.trunk },
+    ];
+    if (call.caller_id) {
+      targets.push({ scope: 'caller_id', target: call.caller_id });
+    }
+
+    const limits = await dialingLimitRepository.findForTargets(targets);
+    return limits.map((limit) => ({
+      scope: slotScopeOf[limit.scope](limit.target),
+      maxConcurrent: limit.max_concurrent_calls,
+      maxPerSecond: limit.max_calls_per_second,
+    }));
+  },
+};
@@ -0,0 +1,140 @@
+import { call_schedules } from '@prisma/client';
+import { holidayCalendarRepository } from '../repositories/holiday-calendars.repository';
+import { userRepository } from '../repositories/users.repository';
+import { isSupportedHolidayRegion } from '../lib/holidays';
+
+// Custom error classes
+export class HolidayCalendarNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Holiday calendar with id ${id} not found`);
+    this.name = 'HolidayCalendarNotFoundError';
+  }
+}
+
+export class HolidayCalendarDateNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Blackout date with id ${id} not found`);
+    this.name = 'HolidayCalendarDateNotFoundError';
+  }
+}
+
+export class UnsupportedHolidayRegionError extends Error {
+  constructor(region: string) {
+    super(`No bundled holidays for region ${region}`);
+    this.name = 'UnsupportedHolidayRegionError';
+  }
+}
+
+export class UserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`User with id ${id} not found`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+type BlackoutDateInput = { name: string; start_date: string; end_date?: string };
+
+// Dates are calendar days (YYYY-MM-DD), a single day when end_date is omitted
+function toBlackoutDate(input: BlackoutDateInput) {
+  return {
+    name: input.name,
+    start_date: new Date(`${input.start_date}T00:00:00Z`),
+    end_date: new Date(`${input.end_date ?? input.start_date}T00:00:00Z`),
+  };
+}
+
+function assertSupportedRegion(region?: string | null) {
+  if (region && !isSupportedHolidayRegion(region)) {
+    throw new UnsupportedHolidayRegionError(region);
+  }
+}
+
+export const holidayCalendarService = {
+  async createHolidayCalendar(input: {
+    user_id: string;
+    name: string;
+    region?: string | null;
+    dates?: BlackoutDateInput[];
+  }) {
+    const user = await userRepository.findById(input.user_id);
+    if (!user) {
+      throw new UserNotFoundError(input.user_id);
+    }
+    assertSupportedRegion(input.region);
+
+    return holidayCalendarRepository.create({
+      user_id: input.user_id,
+      name: input.name,
+      region: input.region,
+      dates: input.dates?.map(toBlackoutDate),
+    });
+  },
+
+  async getHolidayCalendar(id: string) {
+    const calendar = await holidayCalendarRepository.findById(id);
+    if (!calendar) {
+      throw new HolidayCalendarNotFoundError(id);
+    }
+    return calendar;
+  },
+
+  async getHolidayCalendarsByUserId(user_id: string) {
+    const user = await userRepository.findById(user_id);
+    if (!user) {
+      throw new UserNotFoundError(user_id);
+    }
+
+    return holidayCalendarRepository.findAllByUserId(user_id);
+  },
+
+  async getAllHolidayCalendars() {
+    return holidayCalendarRepository.findAll();
+  },
+
+  async updateHolidayCalendar(id: string, input: { name?: string; region?: string | null }) {
+    const existing = await holidayCalendarRepository.findById(id);
+    if (!existing) {
+      throw new HolidayCalendarNotFoundError(id);
+    }
+    assertSupportedRegion(input.region);
+
+    return holidayCalendarRepository.update(id, input);
+  },
+
+  async deleteHolidayCalendar(id: string) {
+    const existing = await holidayCalendarRepository.findById(id);
+    if (!existing) {
+      throw new HolidayCalendarNotFoundError(id);
+    }
+
+    return holidayCalendarRepository.delete(id);
+  },
+
+  async addBlackoutDate(calendarId: string, input: BlackoutDateInput) {
+    const calendar = await holidayCalendarRepository.findById(calendarId);
+    if (!calendar) {
+      throw new HolidayCalendarNotFoundError(calendarId);
+    }
+
+    return holidayCalendarRepository.createDate(calendarId, toBlackoutDate(input));
+  },
+
+  async deleteBlackoutDate(calendarId: string, dateId: string) {
+    const date = await holidayCalendarRepository.findDateById(dateId);
+    if (!date || date.calendar_id !== calendarId) {
+      throw new HolidayCalendarDateNotFoundError(dateId);
+    }
+
+    return holidayCalendarRepository.deleteDate(dateId);
+  },
+
+  /**
+   * The holiday calendar attached to a schedule, with its blackout dates, or null if there is none.
+   */
+  async getScheduleHolidayCalendar(schedule: Pick<call_schedules, 'holiday_calendar_id'>) {
+    if (!schedule.holiday_calendar_id) {
+      return null;
+    }
+    return holidayCalendarRepository.findById(schedule.holiday_calendar_id);
+  },
+};
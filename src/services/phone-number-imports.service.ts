@@ -0,0 +1,335 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { phoneNumberImportRepository } from '../repositories/phone-number-imports.repository';
+import { phoneNumberRepository } from '../repositories/phone-numbers.repository';
+import { userRepository } from '../repositories/users.repository';
+import { callCampaignRepository } from '../repositories/call-campaigns.repository';
+import { callCampaignService } from './call-campaigns.service';
+import { auditService } from './audit.service';
+import { enqueuePhoneNumberImport } from '../queues/phoneNumberImportQueue';
+import { ContactImportFormat, ContactRow, parseContactHeader, parseContactRows } from '../lib/contact_import';
+import { readLines } from '../lib/csv';
+import { resolveDefaultCountry } from '../lib/phone_number';
+
+// Rows per staged chunk, each upserted in one statement
+const IMPORT_BATCH_SIZE = 500;
+// A chunk's upsert and campaign attach share one transaction
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+// Largest upload accepted, in bytes
+const IMPORT_MAX_BYTES = Number(process.env.PHONE_IMPORT_MAX_BYTES ?? 20 * 1024 * 1024);
+// Row-level errors kept on the import, error_count still counts all of them
+const MAX_STORED_ERRORS = 1000;
+// Uploads up to this many rows are imported within the request, larger ones by the import worker
+const INLINE_MAX_ROWS = Number(process.env.PHONE_IMPORT_INLINE_MAX_ROWS ?? 1000);
+
+// Custom error classes
+export class PhoneNumberImportNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Phone number import with id ${id} not found`);
+    this.name = 'PhoneNumberImportNotFoundError';
+  }
+}
+
+export class UserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`User with id ${id} not found`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+export class CallCampaignNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Call campaign with id ${id} not found`);
+    this.name = 'CallCampaignNotFoundError';
+  }
+}
+
+export class InvalidImportCampaignError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImportCampaignError';
+  }
+}
+
+export class EmptyImportError extends Error {
+  constructor() {
+    super('File is empty');
+    this.name = 'EmptyImportError';
+  }
+}
+
+export class ImportTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`File exceeds the ${maxBytes} byte limit`);
+    this.name = 'ImportTooLargeError';
+  }
+}
+
+type ImportError = { row: number; message: string };
+
+export const phoneNumberImportService = {
+  /**
+   * Stages an upload in chunks of rows as it streams in, then imports it, right away for
+   * small files and through the phone-number-imports queue otherwise. A CSV upload whose
+   * header has no number column is recorded as failed.
+   *
+   * @returns The import and whether it continues in the background.
+   */
+  async createImport(input: {
+    user_id: string;
+    campaign_id?: string;
+    format: ContactImportFormat;
+    content: AsyncIterable<Buffer | string>;
+  }) {
+    const user = await userRepository.findById(input.user_id);
+    if (!user) {
+      throw new UserNotFoundError(input.user_id);
+    }
+
+    if (input.campaign_id) {
+      const campaign = await callCampaignRepository.findById(input.campaign_id);
+      if (!campaign) {
+        throw new CallCampaignNotFoundError(input.campaign_id);
+      }
+      if (campaign.user_id !== input.user_id) {
+        throw new InvalidImportCampaignError('Campaign does not belong to the importing user');
+      }
+      if (!campaign.schedule_id) {
+        throw new InvalidImportCampaignError('Campaign does not have a valid schedule');
+      }
+    }
+
+    // The import is recorded once the first line arrives, with the CSV header when there is one
+    let importId: string | undefined;
+    let headerSeen = input.format === 'ndjson';
+    let chunk: { first_line: number; lines: string[]; rows: number } | undefined;
+    let seq = 0;
+    let totalRows = 0;
+    let bytes = 0;
+
+    const stageChunk = async () => {
+      if (chunk && chunk.rows > 0) {
+        await phoneNumberImportRepository.createChunk({
+          import_id: importId!,
+          seq: seq++,
+          first_line: chunk.first_line,
+          content: chunk.lines.join('\n'),
+        });
+      }
+      chunk = undefined;
+    };
+
+    try {
+      for await (const { line, lineNumber } of readLines(input.content)) {
+        bytes += Buffer.byteLength(line) + 1;
+        if (bytes > IMPORT_MAX_BYTES) {
+          throw new ImportTooLargeError(IMPORT_MAX_BYTES);
+        }
+        if (line.trim() === '' && !chunk) {
+          continue;
+        }
+
+        if (!importId) {
+          const created = await phoneNumberImportRepository.create({
+            user_id: input.user_id,
+            campaign_id: input.campaign_id ?? null,
+            format: input.format,
+            header: headerSeen ? null : line,
+          });
+          importId = created.id;
+        }
+        if (!headerSeen) {
+          if (!parseContactHeader(line)) {
+            const phoneNumberImport = await phoneNumberImportService.markFailed(
+              importId,
+              new Error('Header must contain a number column')
+            );
+            return { phoneNumberImport, background: false };
+          }
+          headerSeen = true;
+          continue;
+        }
+
+        // Blank lines stay in the chunk so its lines keep their numbers
+        chunk ??= { first_line: lineNumber, lines: [], rows: 0 };
+        chunk.lines.push(line);
+        if (line.trim() !== '') {
+          chunk.rows++;
+          totalRows++;
+        }
+        if (chunk.rows >= IMPORT_BATCH_SIZE) {
+          await stageChunk();
+        }
+      }
+      await stageChunk();
+    } catch (error) {
+      if (importId) {
+        await phoneNumberImportService.markFailed(importId, error as Error);
+      }
+      throw error;
+    }
+
+    if (!importId) {
+      throw new EmptyImportError();
+    }
+    const staged = await phoneNumberImportRepository.update(importId, { total_rows: totalRows, updated_at: new Date() });
+
+    if (totalRows > INLINE_MAX_ROWS) {
+      await enqueuePhoneNumberImport({ importId });
+      return { phoneNumberImport: staged, background: true };
+    }
+
+    try {
+      return { phoneNumberImport: await phoneNumberImportService.processImport(importId), background: false };
+    } catch (error) {
+      return { phoneNumberImport: await phoneNumberImportService.markFailed(importId, error as Error), background: false };
+    }
+  },
+
+  async getImport(id: string) {
+    const phoneNumberImport = await phoneNumberImportRepository.findById(id);
+    if (!phoneNumberImport) {
+      throw new PhoneNumberImportNotFoundError(id);
+    }
+    return phoneNumberImport;
+  },
+
+  async getImportsByUserId(user_id: string) {
+    const user = await userRepository.findById(user_id);
+    if (!user) {
+      throw new UserNotFoundError(user_id);
+    }
+    return phoneNumberImportRepository.findAllByUserId(user_id);
+  },
+
+  /**
+   * Imports the staged chunks of an import in order. Each chunk's numbers are upserted, audited
+   * and added to the campaign, and the chunk's counts recorded, in one transaction that also
+   * deletes the chunk, so a retried job resumes with the first chunk not yet imported.
+   */
+  async processImport(id: string) {
+    const phoneNumberImport = await phoneNumberImportRepository.findByIdWithHeader(id);
+    if (!phoneNumberImport) {
+      throw new PhoneNumberImportNotFoundError(id);
+    }
+    if (phoneNumberImport.status === 'completed' || phoneNumberImport.status === 'failed') {
+      return phoneNumberImportService.getImport(id);
+    }
+
+    let progress = await phoneNumberImportRepository.update(id, {
+      status: 'processing',
+      started_at: phoneNumberImport.started_at ?? new Date(),
+      updated_at: new Date(),
+    });
+
+    const format = phoneNumberImport.format as ContactImportFormat;
+    const header = format === 'csv' ? parseContactHeader(phoneNumberImport.header ?? '') : undefined;
+    if (header === null) {
+      throw new Error('Header must contain a number column');
+    }
+    const user = await userRepository.findById(phoneNumberImport.user_id);
+    const defaultCountry = resolveDefaultCountry(user?.default_country);
+
+    // First row of each number in the file, later rows with the same number are reported as
+    // duplicates. A resumed import only knows the numbers of the chunks it imports itself.
+    const firstRowByNumber = new Map<string, number>();
+    for (;;) {
+      const chunk = await phoneNumberImportRepository.findNextChunk(id);
+      if (!chunk) {
+        break;
+      }
+
+      const contacts: ContactRow[] = [];
+      const errors = [...(progress.errors as ImportError[])];
+      let rows = 0;
+      let errorCount = 0;
+      for (const parsed of parseContactRows(chunk.content, format, defaultCountry, {
+        header,
+        firstLineNumber: chunk.first_line,
+      })) {
+        rows++;
+        if ('error' in parsed) {
+          errorCount++;
+          if (errors.length < MAX_STORED_ERRORS) {
+            errors.push({ row: parsed.row, message: parsed.error });
+          }
+        } else if (firstRowByNumber.has(parsed.contact.number)) {
+          // The same number twice in one statement can't be upserted, the first row wins
+          errorCount++;
+          if (errors.length < MAX_STORED_ERRORS) {
+            errors.push({ row: parsed.row, message: `Duplicate of row ${firstRowByNumber.get(parsed.contact.number)}` });
+          }
+        } else {
+          firstRowByNumber.set(parsed.contact.number, parsed.row);
+          contacts.push(parsed.contact);
+        }
+      }
+
+      progress = await prisma.$transaction(async (tx) => {
+        let createdCount = 0;
+        let updatedCount = 0;
+        let attachedCount = 0;
+        if (contacts.length > 0) {
+          const numbers = contacts.map((contact) => contact.number);
+          const existing = await phoneNumberRepository.findManyByUserIdAndNumbers(phoneNumberImport.user_id, numbers, tx);
+          const existingByNumber = new Map(existing.map((phoneNumber) => [phoneNumber.number, phoneNumber]));
+
+          const upserted = await phoneNumberRepository.upsertMany(phoneNumberImport.user_id, contacts, tx);
+          createdCount = upserted.filter((row) => row.created).length;
+          updatedCount = upserted.filter((row) => !row.created).length;
+          await auditService.recordMany(
+            upserted.map(({ created, ...phoneNumber }) => ({
+              user_id: phoneNumber.user_id,
+              entity_type: 'phone_number' as const,
+              entity_id: phoneNumber.id,
+              action: created ? 'create' : 'update',
+              before: created ? null : (existingByNumber.get(phoneNumber.number) ?? null),
+              after: phoneNumber,
+            })),
+            tx
+          );
+
+          if (phoneNumberImport.campaign_id) {
+            const { summary } = await callCampaignService.addPhoneNumbersToCampaign(
+              phoneNumberImport.campaign_id,
+              { phone_number_ids: upserted.map((row) => row.id) },
+              tx
+            );
+            attachedCount = summary.created + summary.skipped;
+          }
+        }
+
+        return phoneNumberImportRepository.completeChunk(tx, chunk.id, {
+          processed_rows: { increment: rows },
+          created_count: { increment: createdCount },
+          updated_count: { increment: updatedCount },
+          attached_count: { increment: attachedCount },
+          error_count: { increment: errorCount },
+          errors: errors as Prisma.InputJsonValue,
+          updated_at: new Date(),
+        });
+      }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+    }
+
+    console.log(
+      `[PhoneNumberImports] Import ${id} completed: ${progress.created_count} created, ${progress.updated_count} updated, ${progress.error_count} errors`
+    );
+    return phoneNumberImportRepository.update(id, {
+      status: 'completed',
+      completed_at: new Date(),
+      updated_at: new Date(),
+    });
+  },
+
+  async markFailed(id: string, error: Error) {
+    console.error(`[PhoneNumberImports] Import ${id} failed:`, error.message);
+    // Rows not imported yet are dropped with their staged chunks
+    await phoneNumberImportRepository.deleteChunks(id);
+    return phoneNumberImportRepository.update(id, {
+      status: 'failed',
+      failure_reason: error.message,
+      completed_at: new Date(),
+      updated_at: new Date(),
+    });
+  },
+};
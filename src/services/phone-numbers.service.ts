@@ -1,6 +1,9 @@
 import { phoneNumberRepository } from '../repositories/phone-numbers.repository';
 import { userRepository } from '../repositories/users.repository';
-import { phone_number_status } from '@prisma/client';
+import { phone_number_status, phone_numbers, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { normalizePhoneNumber, resolveDefaultCountry } from '../lib/phone_number';
+import { auditService } from './audit.service';
 
 // Custom error classes
 export class PhoneNumberNotFoundError extends Error {
@@ -17,6 +20,13 @@ export class PhoneNumberAlreadyExistsError extends Error {
   }
 }
 
+export class InvalidPhoneNumberError extends Error {
+  constructor(number: string) {
+    super(`${number} is not a valid phone number; use international format (+<country code><number>) or set the user's default_country`);
+    this.name = 'InvalidPhoneNumberError';
+  }
+}
+
 export class UserNotFoundError extends Error {
   constructor(id: string) {
     super(`User with id ${id} not found`);
@@ -24,27 +34,69 @@ export class UserNotFoundError extends Error {
   }
 }
 
+function recordUpdate(before: phone_numbers, after: phone_numbers, tx: Prisma.TransactionClient) {
+  return auditService.record(
+    {
+      user_id: before.user_id,
+      entity_type: 'phone_number',
+      entity_id: before.id,
+      action: 'update',
+      before,
+      after,
+    },
+    tx
+  );
+}
+
 export const phoneNumberService = {
-  async createPhoneNumber(input: { user_id: string; number: string; status?: phone_number_status }) {
+  async createPhoneNumber(input: {
+    user_id: string;
+    number: string;
+    status?: phone_number_status;
+    time_zone?: string | null;
+  }) {
     // Check if user exists
     const user = await userRepository.findById(input.user_id);
     if (!user) {
       throw new UserNotFoundError(input.user_id);
     }
 
+    // Numbers are stored in E.164 so differently formatted duplicates are caught
+    const normalized = normalizePhoneNumber(input.number, resolveDefaultCountry(user.default_country));
+    if (!normalized) {
+      throw new InvalidPhoneNumberError(input.number);
+    }
+
     // Check if phone number already exists for this user
-    const existing = await phoneNumberRepository.findByUserIdAndNumber(input.user_id, input.number);
+    const existing = await phoneNumberRepository.findByUserIdAndNumber(input.user_id, normalized.number);
     if (existing) {
-      throw new PhoneNumberAlreadyExistsError(input.number);
+      throw new PhoneNumberAlreadyExistsError(normalized.number);
     }
 
     // Create the phone number
-    const phoneNumber = await phoneNumberRepository.create({
-      user_id: input.user_id,
-      number: input.number,
-      status: input.status || 'valid',
+    return prisma.$transaction(async (tx) => {
+      const phoneNumber = await phoneNumberRepository.create(
+        {
+          user_id: input.user_id,
+          ...normalized,
+          status: input.status || 'valid',
+          time_zone: input.time_zone,
+        },
+        tx
+      );
+      await auditService.record(
+        {
+          user_id: phoneNumber.user_id,
+          entity_type: 'phone_number',
+          entity_id: phoneNumber.id,
+          action: 'create',
+          before: null,
+          after: phoneNumber,
+        },
+        tx
+      );
+      return phoneNumber;
     });
-    return phoneNumber;
   },
 
   async getPhoneNumber(id: string) {
@@ -69,22 +121,47 @@ export const phoneNumberService = {
     return phoneNumberRepository.findAll();
   },
 
-  async updatePhoneNumber(id: string, input: { number?: string; status?: phone_number_status }) {
+  async updatePhoneNumber(
+    id: string,
+    input: { number?: string; status?: phone_number_status; time_zone?: string | null }
+  ) {
     const existing = await phoneNumberRepository.findById(id);
     if (!existing) {
       throw new PhoneNumberNotFoundError(id);
     }
 
+    if (!input.number) {
+      return prisma.$transaction(async (tx) => {
+        const updated = await phoneNumberRepository.update(id, { status: input.status, time_zone: input.time_zone }, tx);
+        await recordUpdate(existing, updated, tx);
+        return updated;
+      });
+    }
+
+    const user = await userRepository.findById(existing.user_id);
+    const normalized = normalizePhoneNumber(input.number, resolveDefaultCountry(user?.default_country));
+    if (!normalized) {
+      throw new InvalidPhoneNumberError(input.number);
+    }
+
     // If updating number, check it's not already taken by this user
-    if (input.number && input.number !== existing.number) {
-      const numberTaken = await phoneNumberRepository.findByUserIdAndNumber(existing.user_id, input.number);
+    if (normalized.number !== existing.number) {
+      const numberTaken = await phoneNumberRepository.findByUserIdAndNumber(existing.user_id, normalized.number);
       if (numberTaken) {
-        throw new PhoneNumberAlreadyExistsError(input.number);
+        throw new PhoneNumberAlreadyExistsError(normalized.number);
       }
     }
 
     // Perform update
-    return phoneNumberRepository.update(id, input);
+    return prisma.$transaction(async (tx) => {
+      const updated = await phoneNumberRepository.update(
+        id,
+        { ...normalized, status: input.status, time_zone: input.time_zone },
+        tx
+      );
+      await recordUpdate(existing, updated, tx);
+      return updated;
+    });
   },
 
   async deletePhoneNumber(id: string) {
@@ -93,7 +170,21 @@ export const phoneNumberService = {
       throw new PhoneNumberNotFoundError(id);
     }
 
-    return phoneNumberRepository.delete(id);
+    return prisma.$transaction(async (tx) => {
+      const deleted = await phoneNumberRepository.delete(id, tx);
+      await auditService.record(
+        {
+          user_id: existing.user_id,
+          entity_type: 'phone_number',
+          entity_id: id,
+          action: 'delete',
+          before: existing,
+          after: null,
+        },
+        tx
+      );
+      return deleted;
+    });
   },
 };
 
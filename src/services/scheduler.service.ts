@@ -0,0 +1,11 @@
+import { getSchedulerStatus } from '../lib/scheduler_state';
+
+export const schedulerService = {
+  /**
+   * The call scheduler's current leader and its last and next run, as recorded in Redis by the
+   * leader. Empty until a scheduler has run.
+   */
+  async getStatus() {
+    return getSchedulerStatus();
+  },
+};
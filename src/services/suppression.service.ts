@@ -0,0 +1,154 @@
+import { Prisma, suppression_match_type } from '@prisma/client';
+import { suppressionRepository } from '../repositories/suppression.repository';
+import { userRepository } from '../repositories/users.repository';
+import { normalizeDialString, normalizeSuppressionValue, parseSuppressionCsv } from '../lib/suppression';
+import { resolveDefaultCountry } from '../lib/phone_number';
+
+// Custom error classes
+export class SuppressionEntryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Suppression entry with id ${id} not found`);
+    this.name = 'SuppressionEntryNotFoundError';
+  }
+}
+
+export class SuppressionEntryAlreadyExistsError extends Error {
+  constructor(value: string) {
+    super(`Suppression entry for ${value} already exists`);
+    this.name = 'SuppressionEntryAlreadyExistsError';
+  }
+}
+
+export class UserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`User with id ${id} not found`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+export class InvalidSuppressionValueError extends Error {
+  constructor(matchType: suppression_match_type, value: string) {
+    super(
+      matchType === 'prefix'
+        ? `Suppression prefix ${value} must start with a country calling code`
+        : `Suppression value ${value} is not a valid phone number; use international format (+<country code><number>) or set the user's default_country`
+    );
+    this.name = 'InvalidSuppressionValueError';
+  }
+}
+
+export interface AffectedTasksSummary {
+  pending_tasks: number;
+  campaigns: { campaign_id: string; pending_tasks: number }[];
+}
+
+// Pending tasks that will now be skipped at dial time, reported back to the caller
+async function summarizeAffectedTasks(entryIds: string[]): Promise<AffectedTasksSummary> {
+  if (entryIds.length === 0) {
+    return { pending_tasks: 0, campaigns: [] };
+  }
+
+  const campaigns = await suppressionRepository.countPendingTasksByCampaign(entryIds);
+  return {
+    pending_tasks: campaigns.reduce((total, campaign) => total + campaign.pending_tasks, 0),
+    campaigns,
+  };
+}
+
+async function ensureUserExists(user_id: string | null | undefined) {
+  if (!user_id) {
+    return null;
+  }
+  const user = await userRepository.findById(user_id);
+  if (!user) {
+    throw new UserNotFoundError(user_id);
+  }
+  return user;
+}
+
+export const suppressionService = {
+  async createEntry(input: {
+    user_id?: string | null;
+    match_type?: suppression_match_type;
+    value: string;
+    reason?: string | null;
+    expires_at?: Date | null;
+  }) {
+    const user = await ensureUserExists(input.user_id);
+
+    // Stored in E.164 like phone numbers, tenant-wide entries read national numbers in DEFAULT_PHONE_COUNTRY
+    const match_type = input.match_type ?? 'number';
+    const value = normalizeSuppressionValue(match_type, input.value, resolveDefaultCountry(user?.default_country));
+    if (!value) {
+      throw new InvalidSuppressionValueError(match_type, input.value);
+    }
+
+    const user_id = input.user_id ?? null;
+    const existing = await suppressionRepository.findExisting(user_id, match_type, value);
+    if (existing) {
+      throw new SuppressionEntryAlreadyExistsError(value);
+    }
+
+    let entry;
+    try {
+      entry = await suppressionRepository.create({
+        user_id,
+        match_type,
+        value,
+        reason: input.reason ?? null,
+        expires_at: input.expires_at ?? null,
+      });
+    } catch (error) {
+      // A concurrent request created the same entry after the check above
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new SuppressionEntryAlreadyExistsError(value);
+      }
+      throw error;
+    }
+
+    return { entry, affected_tasks: await summarizeAffectedTasks([entry.id]) };
+  },
+
+  async importCsv(csv: string, user_id?: string | null) {
+    const user = await ensureUserExists(user_id);
+
+    const { entries, errors } = parseSuppressionCsv(csv, resolveDefaultCountry(user?.default_country));
+    const created = await suppressionRepository.createMany(
+      entries.map((entry) => ({ ...entry, user_id: user_id ?? null }))
+    );
+
+    return {
+      imported: created.length,
+      duplicates: entries.length - created.length, // already listed, or repeated within the file
+      errors,
+      affected_tasks: await summarizeAffectedTasks(created.map((entry) => entry.id)),
+    };
+  },
+
+  async getEntry(id: string) {
+    const entry = await suppressionRepository.findById(id);
+    if (!entry) {
+      throw new SuppressionEntryNotFoundError(id);
+    }
+    return entry;
+  },
+
+  async getEntries(options: { user_id?: string; include_expired?: boolean }) {
+    await ensureUserExists(options.user_id);
+    return suppressionRepository.findAll(options);
+  },
+
+  async deleteEntry(id: string) {
+    const existing = await suppressionRepository.findById(id);
+    if (!existing) {
+      throw new SuppressionEntryNotFoundError(id);
+    }
+
+    return suppressionRepository.delete(id);
+  },
+
+  // The entry blocking this user from dialing the number, if any
+  findActiveMatch(user_id: string, number: string) {
+    return suppressionRepository.findActiveMatch(user_id, normalizeDialString(number));
+  },
+};
@@ -1,4 +1,8 @@
 import { userRepository } from '../repositories/users.repository';
+import { auditService } from './audit.service';
+import { AuditEntityType } from '../lib/audit';
+import { callLogRepository } from '../repositories/call-logs.repository';
+import { fillMetricsBuckets, MetricsInterval, resolveMetricsRange } from '../lib/campaign_metrics';
 
 // Custom error classes
 export class UserNotFoundError extends Error {
@@ -16,7 +20,12 @@ export class UserAlreadyExistsError extends Error {
 }
 
 export const userService = {
-  async createUser(input: { email: string; name: string }) {
+  async createUser(input: {
+    email: string;
+    name: string;
+    telephony_provider?: string | null;
+    default_country?: string | null;
+  }) {
     // Check if user already exists with this email
     const existing = await userRepository.findByEmail(input.email);
     if (existing) {
@@ -47,7 +56,10 @@ export const userService = {
     return userRepository.findAll();
   },
 
-  async updateUser(id: string, input: { name?: string; email?: string }) {
+  async updateUser(
+    id: string,
+    input: { name?: string; email?: string; telephony_provider?: string | null; default_country?: string | null }
+  ) {
     const existing = await userRepository.findById(id);
     if (!existing) {
       throw new UserNotFoundError(id);
@@ -73,5 +85,38 @@ export const userService = {
 
     return userRepository.delete(id);
   },
-};
 
+  /**
+   * Audit feed of everything changed on the user's campaigns, schedules and phone numbers, newest first.
+   */
+  async getUserAuditFeed(
+    id: string,
+    filter: { entity_type?: AuditEntityType; entity_id?: string; from?: Date; to?: Date; limit: number }
+  ) {
+    const user = await userRepository.findById(id);
+    if (!user) {
+      throw new UserNotFoundError(id);
+    }
+
+    return auditService.getAuditLog({ user_id: id, ...filter });
+  },
+
+  /**
+   * Call metrics of all of the user's campaigns together, per bucket of the interval.
+   */
+  async getUserMetrics(id: string, query: { interval?: MetricsInterval; from?: Date; to?: Date }) {
+    const user = await userRepository.findById(id);
+    if (!user) {
+      throw new UserNotFoundError(id);
+    }
+
+    const range = resolveMetricsRange(query);
+    const rows = await callLogRepository.getCallMetrics({ user_id: id }, range);
+    return {
+      interval: range.interval,
+      from: range.from,
+      to: range.to,
+      buckets: fillMetricsBuckets(rows, range),
+    };
+  },
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { createFakeTelephonyProvider } from '../fake.provider';
+import { TelephonyProviderError, isTerminalCallStatus } from '../telephony.provider';
+
+describe('fake telephony provider', () => {
+  // Helper to build a provider with a controllable clock
+  const createProvider = (successRate: number) => {
+    let clock = 1_000_000;
+    const provider = createFakeTelephonyProvider({
+      successRate,
+      callDurationMs: 2000,
+      now: () => clock,
+    });
+    return { provider, advance: (ms: number) => { clock += ms; } };
+  };
+
+  it('should report the call as answered until its duration elapses', async () => {
+    const { provider, advance } = createProvider(1);
+    const { externalCallId, status } = await provider.dial({ callLogId: 'log-1', to: '+15551234567', attempt: 0 });
+
+    expect(status).toBe('queued');
+    expect((await provider.fetchStatus(externalCallId)).status).toBe('answered');
+
+    advance(2000);
+    expect((await provider.fetchStatus(externalCallId)).status).toBe('completed');
+  });
+
+  it('should end every call unsuccessfully when the success rate is zero', async () => {
+    const { provider, advance } = createProvider(0);
+    const { externalCallId } = await provider.dial({ callLogId: 'log-2', to: '+15551234567', attempt: 0 });
+
+    advance(2000);
+    const { status } = await provider.fetchStatus(externalCallId);
+    expect(status).not.toBe('completed');
+    expect(isTerminalCallStatus(status)).toBe(true);
+  });
+
+  it('should produce the same outcome for the same number and attempt', async () => {
+    const outcomes = [];
+    for (let i = 0; i < 2; i++) {
+      const { provider, advance } = createProvider(0.5);
+      const { externalCallId } = await provider.dial({ callLogId: `log-${i}`, to: '+15557654321', attempt: 1 });
+      advance(2000);
+      outcomes.push((await provider.fetchStatus(externalCallId)).status);
+    }
+
+    expect(outcomes[0]).toBe(outcomes[1]);
+  });
+
+  it('should mark a hung up call as failed', async () => {
+    const { provider } = createProvider(1);
+    const { externalCallId } = await provider.dial({ callLogId: 'log-3', to: '+15551234567', attempt: 0 });
+
+    await provider.hangUp(externalCallId);
+    expect((await provider.fetchStatus(externalCallId)).status).toBe('failed');
+  });
+
+  it('should throw for unknown calls', async () => {
+    const { provider } = createProvider(1);
+    await expect(provider.fetchStatus('fake-missing')).rejects.toBeInstanceOf(TelephonyProviderError);
+  });
+});
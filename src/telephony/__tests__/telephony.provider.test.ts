@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseStatusCallbackPayload, InvalidStatusCallbackError } from '../telephony.provider';
+
+describe('parseStatusCallbackPayload', () => {
+  it('should parse a callback with a timestamp', () => {
+    const event = parseStatusCallbackPayload('http', {
+      external_call_id: 'call-1',
+      status: 'completed',
+      timestamp: '2024-01-15T14:00:00Z',
+    });
+
+    expect(event).toEqual({
+      externalCallId: 'call-1',
+      status: 'completed',
+      occurredAt: new Date('2024-01-15T14:00:00Z'),
+    });
+  });
+
+  it('should pass on the echoed call log id', () => {
+    const event = parseStatusCallbackPayload('http', {
+      external_call_id: 'call-1',
+      call_log_id: '123e4567-e89b-12d3-a456-426614174000',
+      status: 'ringing',
+    });
+
+    expect(event.callLogId).toBe('123e4567-e89b-12d3-a456-426614174000');
+  });
+
+  it('should accept hyphenated and upper case statuses', () => {
+    expect(parseStatusCallbackPayload('http', { external_call_id: 'call-1', status: 'no-answer' }).status).toBe('no_answer');
+    expect(parseStatusCallbackPayload('http', { external_call_id: 'call-1', status: 'BUSY' }).status).toBe('busy');
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(() => parseStatusCallbackPayload('http', { external_call_id: 'call-1', status: 'exploded' })).toThrow(
+      InvalidStatusCallbackError
+    );
+  });
+
+  it('should reject payloads without an external call id', () => {
+    expect(() => parseStatusCallbackPayload('http', { status: 'completed' })).toThrow(InvalidStatusCallbackError);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  TelephonyProvider,
+  TelephonyProviderError,
+  ProviderCallStatus,
+  DialRequest,
+  parseStatusCallbackPayload,
+} from './telephony.provider';
+
+export interface FakeTelephonyProviderOptions {
+  successRate?: number;    // 0..1, share of dials that end up completed
+  callDurationMs?: number; // How long a call stays in progress before reaching its outcome
+  now?: () => number;      // Clock override, used by tests
+}
+
+interface FakeCall {
+  outcome: ProviderCallStatus;
+  completesAt: number;
+  hungUp: boolean;
+}
+
+// Unsuccessful outcomes the simulator spreads failed dials across
+const failureOutcomes: ProviderCallStatus[] = ['no_answer', 'busy', 'voicemail', 'failed', 'carrier_error'];
+
+/**
+ * Stable 32-bit FNV-1a hash, so a given number/attempt pair always gets the same outcome.
+ */
+function hash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * In-memory simulator. Outcomes are deterministic per dialed number and attempt,
+ * which keeps worker runs reproducible without a carrier.
+ */
+export function createFakeTelephonyProvider(options: FakeTelephonyProviderOptions = {}): TelephonyProvider {
+  const successRate = options.successRate ?? 0.9;
+  const callDurationMs = options.callDurationMs ?? 2000;
+  const now = options.now ?? Date.now;
+  const calls = new Map<string, FakeCall>();
+
+  const decideOutcome = (request: DialRequest): ProviderCallStatus => {
+    const h = hash(`${request.to}:${request.attempt}`);
+    if (h % 100 < Math.round(successRate * 100)) {
+      return 'completed';
+    }
+    return failureOutcomes[(h >>> 8) % failureOutcomes.length];
+  };
+
+  const getCall = (externalCallId: string): FakeCall => {
+    const call = calls.get(externalCallId);
+    if (!call) {
+      throw new TelephonyProviderError('fake', `Unknown call ${externalCallId}`);
+    }
+    return call;
+  };
+
+  return {
+    name: 'fake',
+    sendsStatusCallbacks: false,
+
+    async dial(request) {
+      const externalCallId = `fake-${request.callLogId}`;
+      calls.set(externalCallId, {
+        outcome: decideOutcome(request),
+        completesAt: now() + callDurationMs,
+        hungUp: false,
+      });
+      console.log(`[FakeTelephony] Dialing ${request.to} (attempt ${request.attempt}) as ${externalCallId}`);
+      return { externalCallId, status: 'queued' };
+    },
+
+    async hangUp(externalCallId) {
+      const call = getCall(externalCallId);
+      call.hungUp = true;
+    },
+
+    async fetchStatus(externalCallId) {
+      const call = getCall(externalCallId);
+      if (!call.hungUp && now() < call.completesAt) {
+        return { externalCallId, status: 'answered' };
+      }
+      // Finished calls are forgotten once they have been observed in a terminal state
+      calls.delete(externalCallId);
+      return { externalCallId, status: call.hungUp ? 'failed' : call.outcome };
+    },
+
+    parseStatusCallback(payload) {
+      return parseStatusCallbackPayload('fake', payload);
+    },
+  };
+}
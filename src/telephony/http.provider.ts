@@ -0,0 +1,79 @@
+import {
+  TelephonyProvider,
+  TelephonyProviderError,
+  ProviderCallStatus,
+  parseStatusCallbackPayload,
+} from './telephony.provider';
+
+export interface HttpTelephonyProviderOptions {
+  baseUrl: string;            // e.g. http://localhost:4010
+  statusCallbackUrl?: string; // e.g. http://localhost:3000/webhooks/telephony/http
+  timeoutMs?: number;         // Per request timeout
+}
+
+interface CallResponseBody {
+  external_call_id: string;
+  status: ProviderCallStatus;
+}
+
+/**
+ * Talks to an HTTP telephony API exposing POST /calls, GET /calls/:id and
+ * POST /calls/:id/hangup. When a status callback URL is configured the API is
+ * expected to POST status changes there, echoing the call_log_id it was dialed
+ * with so early callbacks can be matched. The local stand-in in stub-server.ts
+ * implements the same contract for integration tests.
+ */
+export function createHttpTelephonyProvider(options: HttpTelephonyProviderOptions): TelephonyProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const timeoutMs = options.timeoutMs ?? 10000;
+
+  async function request(method: string, path: string, body?: unknown): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new TelephonyProviderError('http', `${method} ${path} failed: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw new TelephonyProviderError('http', `${method} ${path} responded with ${response.status}`);
+    }
+    return response;
+  }
+
+  return {
+    name: 'http',
+    sendsStatusCallbacks: Boolean(options.statusCallbackUrl),
+
+    async dial(dialRequest) {
+      const response = await request('POST', '/calls', {
+        call_log_id: dialRequest.callLogId,
+        to: dialRequest.to,
+        from: dialRequest.from,
+        attempt: dialRequest.attempt,
+        status_callback_url: options.statusCallbackUrl,
+      });
+      const body = (await response.json()) as CallResponseBody;
+      return { externalCallId: body.external_call_id, status: body.status };
+    },
+
+    async hangUp(externalCallId) {
+      await request('POST', `/calls/${encodeURIComponent(externalCallId)}/hangup`);
+    },
+
+    async fetchStatus(externalCallId) {
+      const response = await request('GET', `/calls/${encodeURIComponent(externalCallId)}`);
+      const body = (await response.json()) as CallResponseBody;
+      return { externalCallId: body.external_call_id, status: body.status };
+    },
+
+    parseStatusCallback(payload) {
+      return parseStatusCallbackPayload('http', payload);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { TelephonyProvider, UnknownTelephonyProviderError } from './telephony.provider';
+import { createFakeTelephonyProvider } from './fake.provider';
+import { createHttpTelephonyProvider } from './http.provider';
+
+export * from './telephony.provider';
+
+// Factories for every provider a deployment can select, keyed by provider name
+const providerFactories: Record<string, () => TelephonyProvider> = {
+  fake: () =>
+    createFakeTelephonyProvider({
+      successRate: Number(process.env.TELEPHONY_FAKE_SUCCESS_RATE ?? 0.9),
+      callDurationMs: Number(process.env.TELEPHONY_FAKE_CALL_DURATION_MS ?? 2000),
+    }),
+  http: () =>
+    createHttpTelephonyProvider({
+      baseUrl: process.env.TELEPHONY_HTTP_URL ?? 'http://localhost:4010',
+      statusCallbackUrl: process.env.TELEPHONY_STATUS_CALLBACK_URL,
+    }),
+};
+
+// Providers keep per-call state, so each process shares a single instance per name
+const providers = new Map<string, TelephonyProvider>();
+
+export const telephonyProviderNames = Object.keys(providerFactories);
+
+export function isTelephonyProviderName(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(providerFactories, name);
+}
+
+/**
+ * Resolves a provider by name. Callers pass the user's override when set;
+ * otherwise the deployment-wide TELEPHONY_PROVIDER (default "fake") applies.
+ */
+export function getTelephonyProvider(name?: string | null): TelephonyProvider {
+  const providerName = name || process.env.TELEPHONY_PROVIDER || 'fake';
+
+  let provider = providers.get(providerName);
+  if (!provider) {
+    if (!isTelephonyProviderName(providerName)) {
+      throw new UnknownTelephonyProviderError(providerName);
+    }
+    provider = providerFactories[providerName]();
+    providers.set(providerName, provider);
+  }
+  return provider;
+}
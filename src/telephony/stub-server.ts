@@ -0,0 +1,109 @@
+import 'dotenv/config';
+import express from 'express';
+import 'express-async-errors';
+import { createFakeTelephonyProvider } from './fake.provider';
+import { TelephonyProviderError, ProviderCallStatus } from './telephony.provider';
+
+// POST a status change to the callback URL the caller registered when dialing. The call_log_id
+// sent when dialing is echoed, so the caller can match callbacks that beat its dial response.
+async function sendStatusCallback(
+  url: string,
+  call: { externalCallId: string; callLogId: string },
+  status: ProviderCallStatus
+): Promise<void> {
+  try {
+    await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.TELEPHONY_WEBHOOK_SECRET ? { 'x-webhook-secret': process.env.TELEPHONY_WEBHOOK_SECRET } : {}),
+      },
+      body: JSON.stringify({
+        external_call_id: call.externalCallId,
+        call_log_id: call.callLogId,
+        status,
+        timestamp: new Date().toISOString(),
+      }),
+    });
+  } catch (error) {
+    console.error(`[TelephonyStub] Status callback to ${url} failed:`, (error as Error).message);
+  }
+}
+
+/**
+ * Local HTTP stand-in for a carrier API, backed by the fake provider.
+ * Point TELEPHONY_PROVIDER=http at it to exercise the worker pipeline end to end.
+ */
+export function createTelephonyStubApp() {
+  const callDurationMs = Number(process.env.TELEPHONY_FAKE_CALL_DURATION_MS ?? 2000);
+  const provider = createFakeTelephonyProvider({
+    successRate: Number(process.env.TELEPHONY_FAKE_SUCCESS_RATE ?? 0.9),
+    callDurationMs,
+  });
+
+  const app = express();
+  app.use(express.json());
+
+  app.post('/calls', async (req, res) => {
+    const { call_log_id, to, from, attempt, status_callback_url } = req.body;
+    if (typeof call_log_id !== 'string' || typeof to !== 'string') {
+      res.status(400).json({ error: 'call_log_id and to are required' });
+      return;
+    }
+    const result = await provider.dial({
+      callLogId: call_log_id,
+      to,
+      from: typeof from === 'string' ? from : undefined,
+      attempt: Number(attempt ?? 0),
+    });
+
+    // Play the call out asynchronously, the way a carrier reports progress
+    if (typeof status_callback_url === 'string') {
+      const { externalCallId } = result;
+      const call = { externalCallId, callLogId: call_log_id };
+      setImmediate(() => sendStatusCallback(status_callback_url, call, 'ringing'));
+      setTimeout(async () => {
+        try {
+          const { status } = await provider.fetchStatus(externalCallId);
+          if (status === 'completed') {
+            await sendStatusCallback(status_callback_url, call, 'answered');
+          }
+          await sendStatusCallback(status_callback_url, call, status);
+        } catch (error) {
+          // The call was already observed in a terminal state through GET /calls/:id
+          console.error(`[TelephonyStub] Could not report outcome of ${externalCallId}:`, (error as Error).message);
+        }
+      }, callDurationMs);
+    }
+
+    res.status(201).json({ external_call_id: result.externalCallId, status: result.status });
+  });
+
+  app.get('/calls/:id', async (req, res) => {
+    const result = await provider.fetchStatus(req.params.id);
+    res.json({ external_call_id: result.externalCallId, status: result.status });
+  });
+
+  app.post('/calls/:id/hangup', async (req, res) => {
+    await provider.hangUp(req.params.id);
+    res.status(204).send();
+  });
+
+  app.use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    if (err instanceof TelephonyProviderError) {
+      res.status(404).json({ error: err.message });
+      return;
+    }
+    console.error('[TelephonyStub] Error:', err);
+    res.status(500).json({ error: 'Internal Server Error', message: err instanceof Error ? err.message : String(err) });
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  const port = Number(process.env.TELEPHONY_STUB_PORT ?? 4010);
+  createTelephonyStubApp().listen(port, () => {
+    console.log(`📞 Telephony stand-in running on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+// Common contract every telephony backend (carrier, simulator, stand-in) implements
+
+/**
+ * Call states reported by a provider. Providers map their own vocabulary onto these.
+ */
+export const providerCallStatuses = [
+  'queued',
+  'ringing',
+  'answered',
+  'busy',
+  'no_answer',
+  'voicemail',
+  'rejected',
+  'invalid_number',
+  'carrier_error',
+  'completed',
+  'failed',
+] as const;
+
+export type ProviderCallStatus = (typeof providerCallStatuses)[number];
+
+export const TERMINAL_CALL_STATUSES: ReadonlySet<ProviderCallStatus> = new Set([
+  'busy',
+  'no_answer',
+  'voicemail',
+  'rejected',
+  'invalid_number',
+  'carrier_error',
+  'completed',
+  'failed',
+]);
+
+export function isTerminalCallStatus(status: ProviderCallStatus): boolean {
+  return TERMINAL_CALL_STATUSES.has(status);
+}
+
+export interface DialRequest {
+  callLogId: string; // Echoed back on status callbacks, which may arrive before dial() returns
+  to: string;
+  from?: string; // Caller ID in E.164, the provider's default number when omitted
+  attempt: number; // 0 for the first call, incremented on every retry
+}
+
+export interface DialResult {
+  externalCallId: string;
+  status: ProviderCallStatus;
+}
+
+export interface CallStatusResult {
+  externalCallId: string;
+  status: ProviderCallStatus;
+}
+
+export interface CallStatusEvent {
+  externalCallId: string;
+  callLogId?: string; // The DialRequest's callLogId, when the provider echoes it
+  status: ProviderCallStatus;
+  occurredAt: Date;
+}
+
+export interface TelephonyProvider {
+  readonly name: string;
+  // When true the outcome arrives through /webhooks/telephony/:provider and the worker
+  // returns right after dialing; otherwise the worker polls fetchStatus until the call ends
+  readonly sendsStatusCallbacks: boolean;
+  dial(request: DialRequest): Promise<DialResult>;
+  hangUp(externalCallId: string): Promise<void>;
+  fetchStatus(externalCallId: string): Promise<CallStatusResult>;
+  parseStatusCallback(payload: unknown): CallStatusEvent;
+}
+
+// Custom error classes
+export class TelephonyProviderError extends Error {
+  constructor(provider: string, message: string) {
+    super(`[${provider}] ${message}`);
+    this.name = 'TelephonyProviderError';
+  }
+}
+
+export class UnknownTelephonyProviderError extends Error {
+  constructor(name: string) {
+    super(`Telephony provider ${name} is not registered`);
+    this.name = 'UnknownTelephonyProviderError';
+  }
+}
+
+export class InvalidStatusCallbackError extends Error {
+  constructor(provider: string, message: string) {
+    super(`Invalid status callback for ${provider}: ${message}`);
+    this.name = 'InvalidStatusCallbackError';
+  }
+}
+
+// Wire format shared by the built-in providers, e.g. { external_call_id, call_log_id, status: 'no-answer', timestamp }
+const statusCallbackSchema = z.object({
+  external_call_id: z.string().min(1),
+  call_log_id: z.string().uuid().optional(),
+  status: z
+    .string()
+    .transform((status) => status.toLowerCase().replace(/-/g, '_'))
+    .pipe(z.enum(providerCallStatuses)),
+  timestamp: z.coerce.date().optional(),
+});
+
+/**
+ * Parses the JSON status callback format used by the fake and HTTP providers.
+ */
+export function parseStatusCallbackPayload(provider: string, payload: unknown): CallStatusEvent {
+  const result = statusCallbackSchema.safeParse(payload);
+  if (!result.success) {
+    throw new InvalidStatusCallbackError(
+      provider,
+      result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+    );
+  }
+
+  return {
+    externalCallId: result.data.external_call_id,
+    callLogId: result.data.call_log_id,
+    status: result.data.status,
+    occurredAt: result.data.timestamp ?? new Date(),
+  };
+}
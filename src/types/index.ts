@@ -1,8 +1,21 @@
+import { RetryPolicy } from '../lib/retry_policy';
+import { EtaUnavailableReason } from '../lib/campaign_stats';
+
 // Common types used across the application
 
-export type CampaignStatus = 'pending' | 'in_progress' | 'paused' | 'completed' | 'failed';
-export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
-export type CallLogStatus = 'initiated' | 'in_progress' | 'completed' | 'failed';
+export type CampaignStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled' | 'archived';
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped' | 'expired';
+export type CallLogStatus =
+  | 'initiated'
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  | 'busy'
+  | 'no_answer'
+  | 'voicemail'
+  | 'rejected'
+  | 'invalid_number'
+  | 'carrier_error';
 export type PhoneNumberStatus = 'valid' | 'invalid' | 'do_not_call';
 
 export interface CreateUserRequest {
@@ -17,6 +30,7 @@ export interface CreateCampaignRequest {
   max_concurrent_calls?: number;
   max_retries?: number;
   retry_delay_seconds?: number;
+  retry_policy?: RetryPolicy;
 }
 
 export interface StartCampaignResponse {
@@ -29,15 +43,38 @@ export interface CampaignStats {
     id: string;
     name: string;
     status: CampaignStatus;
+    max_concurrent_calls: number;
     total_tasks: number;
     completed_tasks: number;
     failed_tasks: number;
+    skipped_tasks: number;
+    expired_tasks: number;
     retries_attempted: number;
+    expired_leases: number;
   };
   task_breakdown: Array<{
     status: TaskStatus;
     _count: number;
   }>;
   total_call_logs: number;
+  // Number of tasks per number of dial attempts made for them
+  attempts_histogram: Array<{
+    attempts: number;
+    tasks: number;
+  }>;
+  // Share of finished calls that were answered, null before the first one finishes
+  connect_rate: number | null;
+  call_duration_seconds: {
+    average: number | null;
+    p50: number | null;
+    p90: number | null;
+    p99: number | null;
+  };
+  eta: {
+    remaining_tasks: number;
+    estimated_attempts: number;
+    estimated_completion_at: Date | null;
+    unavailable_reason: EtaUnavailableReason | null;
+  };
 }
 
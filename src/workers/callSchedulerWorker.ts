@@ -2,61 +2,360 @@ import 'dotenv/config';
 import { prisma } from '../lib/prisma';
 import { call_tasks } from '@prisma/client';
 import { enqueueCallTasks } from '../queues/callTaskQueue';
+import { callTaskRepository } from '../repositories/call-tasks.repository';
+import { callLogService, CallTaskOutcome } from '../services/call-logs.service';
+import { CALL_TASK_LEASE_SECONDS, getLeaseHolderId } from '../lib/task_lease';
+import { getCallTaskJobPriority, orderForDispatch } from '../lib/dispatch_priority';
+import {
+  acquireSchedulerLeadership,
+  getLastSchedulerTick,
+  planNextSchedulerRun,
+  recordSchedulerRun,
+  releaseSchedulerLeadership,
+  SCHEDULER_INTERVAL_SECONDS,
+  SCHEDULER_JITTER_SECONDS,
+  SCHEDULER_LEADER_TTL_SECONDS,
+  SchedulerRunPlan,
+} from '../lib/scheduler_state';
 
-const SCHEDULE_WINDOW_MINUTES = 1; // 1 minutes
+const SCHEDULE_PLAN_OPTIONS = {
+  intervalMs: SCHEDULER_INTERVAL_SECONDS * 1000,
+  jitterMs: SCHEDULER_JITTER_SECONDS * 1000,
+};
+// Tasks due before the next run are claimed ahead, with a minute of margin; their jobs are
+// delayed until their scheduled_at
+const SCHEDULE_LOOKAHEAD_SECONDS = SCHEDULER_INTERVAL_SECONDS + SCHEDULER_JITTER_SECONDS + 60;
+// The leader renews its lock well before it lapses, standbys check it as often
+const LEADER_RENEW_INTERVAL_MS = (SCHEDULER_LEADER_TTL_SECONDS * 1000) / 3;
+// Tasks claimed per transaction, and batches per tick; the rest is claimed on the next tick
+const SCHEDULER_CLAIM_BATCH_SIZE = Number(process.env.SCHEDULER_CLAIM_BATCH_SIZE ?? 500);
+const SCHEDULER_MAX_BATCHES_PER_TICK = Number(process.env.SCHEDULER_MAX_BATCHES_PER_TICK ?? 20);
+const leaderId = getLeaseHolderId();
 let isShuttingDown = false;
 
-async function checkAndScheduleCampaigns() {
-  if (isShuttingDown) return;
+// A task as claimed by claimBatch, which always sets claimed_at
+type ClaimedCallTask = Omit<call_tasks, 'claimed_at'> & { claimed_at: Date; campaign_priority: number };
 
-  console.log('[call-scheduler] Checking active campaigns...');
+/**
+ * Claims up to `batchSize` due tasks in one transaction. This SQL is the core of the atomic
+ * claiming logic: it first locks the running campaigns no other scheduler replica is claiming
+ * for (FOR UPDATE SKIP LOCKED), then takes at most each campaign's headroom, max_concurrent_calls
+ * minus its tasks already in-progress, so a campaign never has more calls queued than it may dial.
+ * Tasks go by campaign priority, campaigns of the same priority taking turns, and by task priority
+ * and scheduled_at within a campaign. Each claim takes a lease; if the task is still in-progress
+ * when it runs out, step 1 reclaims it.
+ */
+async function claimBatch(batchSize: number) {
+  return prisma.$transaction(async (tx) => {
+    // Committed before the claim below reads the in-progress counts, which it does in a new snapshot
+    const campaigns = await tx.$queryRaw<{ id: string }[]>`
+    SELECT cc.id FROM call_campaigns cc
+    JOIN call_schedules cs ON cc.schedule_id = cs.id
+    WHERE cc.status = 'running'
+    AND (cc.starts_at IS NULL OR cc.starts_at <= NOW())
+    AND (cc.ends_at IS NULL OR cc.ends_at > NOW())
+    AND (cs.valid_from IS NULL OR cs.valid_from <= NOW())
+    AND (cs.valid_until IS NULL OR cs.valid_until > NOW())
+    FOR UPDATE OF cc SKIP LOCKED;
+    `;
+    if (campaigns.length === 0) {
+      return [];
+    }
 
-  try {
-    // 1. Find active campaigns that need processing
-    // 2. Enqueue tasks to callTaskQueue
-
-    // This SQL query is the core of the atomic claiming logic.
-    // It finds, locks, updates, and returns the tasks in a single, non-blocking operation.
-    const callsToRun = await prisma.$queryRaw<call_tasks[]>`
-    UPDATE call_tasks
-    SET status = 'in-progress', updated_at = NOW()
-    WHERE id IN (
+    return tx.$queryRaw<ClaimedCallTask[]>`
+    WITH headroom AS (
+        SELECT cc.id, cc.priority,
+            GREATEST(cc.max_concurrent_calls - (
+                SELECT COUNT(*) FROM call_tasks ct
+                WHERE ct.campaign_id = cc.id AND ct.status = 'in-progress'
+            ), 0) AS slots
+        FROM call_campaigns cc
+        WHERE cc.id = ANY(${campaigns.map((campaign) => campaign.id)}::uuid[])
+    ),
+    candidates AS (
+        SELECT due.id, h.priority AS campaign_priority, due.priority, due.scheduled_at,
+            ROW_NUMBER() OVER (PARTITION BY due.campaign_id, due.priority ORDER BY due.scheduled_at) AS turn
+        FROM headroom h
+        CROSS JOIN LATERAL (
+            SELECT ct.id, ct.campaign_id, ct.priority, ct.scheduled_at FROM call_tasks ct
+            JOIN phone_numbers pn ON ct.phone_number_id = pn.id
+            WHERE ct.campaign_id = h.id
+            AND ct.status = 'pending'
+            AND pn.status = 'valid'
+            AND ct.scheduled_at <= NOW() + ${SCHEDULE_LOOKAHEAD_SECONDS} * INTERVAL '1 second'
+            ORDER BY ct.priority DESC, ct.scheduled_at ASC
+            LIMIT h.slots
+        ) due
+    )
+    UPDATE call_tasks claimed
+    SET status = 'in-progress',
+        claimed_at = date_trunc('milliseconds', NOW()), -- JS dates hold milliseconds, the job matches on it
+        lease_expires_at = NOW() + ${CALL_TASK_LEASE_SECONDS} * INTERVAL '1 second',
+        claimed_by = ${getLeaseHolderId()},
+        updated_at = NOW()
+    FROM call_campaigns campaign
+    WHERE campaign.id = claimed.campaign_id
+    AND claimed.id IN (
         SELECT ct.id FROM call_tasks ct
-        JOIN call_campaigns cc ON ct.campaign_id = cc.id
-        WHERE cc.is_paused = FALSE AND cc.schedule_id IS NOT NULL
+        WHERE ct.id IN (
+            SELECT id FROM candidates
+            ORDER BY campaign_priority DESC, priority DESC, turn ASC, scheduled_at ASC
+            LIMIT ${batchSize}
+        )
         AND ct.status = 'pending'
-        AND ct.scheduled_at <= NOW() + INTERVAL '${SCHEDULE_WINDOW_MINUTES + 1} minutes'
-        ORDER BY ct.scheduled_at ASC
         FOR UPDATE SKIP LOCKED
     )
-    RETURNING *;
+    RETURNING claimed.*, campaign.priority AS campaign_priority;
     `;
+  });
+}
 
-    if (callsToRun.length === 0) {
-      console.log('[call-scheduler] No tasks to claim');
-      return;
+// Tasks claimed and enqueued in one run of the scheduler; claimed tasks that failed to
+// enqueue are handed back to pending and count as claimed but not enqueued
+interface SchedulerTickStats {
+  claimed: number;
+  enqueued: number;
+  batches: number;
+  error: string | null;
+  // Set when the leader lock was lost during the run, which then stopped claiming
+  leadershipLost: boolean;
+}
+
+async function checkAndScheduleCampaigns(): Promise<SchedulerTickStats> {
+  const stats: SchedulerTickStats = { claimed: 0, enqueued: 0, batches: 0, error: null, leadershipLost: false };
+  if (isShuttingDown) return stats;
+
+  console.log('[call-scheduler] Checking active campaigns...');
+
+  try {
+    // 1. Reschedule tasks whose lease expired, as after a failed call
+    // 2. Expire pending tasks of campaigns that have ended
+    // 3. Move campaigns along their lifecycle: scheduled -> running -> completed
+    // 4. Skip due tasks whose number has become do_not_call or invalid
+    // 5. Claim due tasks of running campaigns in batches, within each campaign's headroom
+    // 6. Enqueue each batch to callTaskQueue by priority
+
+    // A task still in-progress past its lease lost its job (Redis, a failed enqueue) or its
+    // worker died mid-call. The attempt counts as a failed call: the task is rescheduled like
+    // one, or fails or expires once it can't be retried.
+    const reclaimed: Partial<Record<CallTaskOutcome, number>> = {};
+    for (const callTask of await callTaskRepository.findLeaseExpired()) {
+      const outcome = await callLogService.reclaimExpiredLease(callTask.id, callTask.claimed_at);
+      if (outcome) {
+        reclaimed[outcome] = (reclaimed[outcome] ?? 0) + 1;
+      }
+    }
+    const retriedCount = reclaimed.retry_scheduled ?? 0;
+    const endedCount = (reclaimed.failed ?? 0) + (reclaimed.expired ?? 0);
+    if (retriedCount + endedCount > 0) {
+      console.warn(
+        `[call-scheduler] ${retriedCount + endedCount} tasks had an expired lease: ${retriedCount} rescheduled for retry, ${reclaimed.failed ?? 0} failed, ${reclaimed.expired ?? 0} expired`
+      );
+    }
+
+    // Tasks still pending at the campaign's ends_at will never be dialed.
+    // Expired tasks are counted on their campaigns in the same statement.
+    const expired = await prisma.$queryRaw<{ expired: number }[]>`
+    WITH expired_tasks AS (
+        UPDATE call_tasks ct
+        SET status = 'expired', updated_at = NOW()
+        FROM call_campaigns cc
+        WHERE ct.campaign_id = cc.id
+        AND ct.status = 'pending'
+        AND cc.ends_at <= NOW()
+        RETURNING ct.campaign_id
+    )
+    UPDATE call_campaigns cc
+    SET expired_tasks = cc.expired_tasks + e.expired, updated_at = NOW()
+    FROM (SELECT campaign_id, COUNT(*)::int AS expired FROM expired_tasks GROUP BY campaign_id) e
+    WHERE cc.id = e.campaign_id
+    RETURNING e.expired;
+    `;
+    const expiredCount = expired.reduce((sum, row) => sum + row.expired, 0);
+    if (expiredCount > 0) {
+      console.log(`[call-scheduler] ${expiredCount} tasks expired (campaign ended)`);
+    }
+
+    // Scheduled campaigns start running at their starts_at
+    const started = await prisma.$executeRaw`
+    UPDATE call_campaigns
+    SET status = 'running', updated_at = NOW()
+    WHERE status = 'scheduled'
+    AND (starts_at IS NULL OR starts_at <= NOW());
+    `;
+    if (started > 0) {
+      console.log(`[call-scheduler] ${started} scheduled campaigns started`);
     }
 
-    await enqueueCallTasks(callsToRun.map((callTask) => ({ callTaskId: callTask.id, callScheduledAt: callTask.scheduled_at.toISOString() })));
-    console.log(`[call-scheduler] ${callsToRun.length} tasks claimed and enqueued`);
+    // Running campaigns complete at their ends_at, or once every task has finished
+    const completed = await prisma.$executeRaw`
+    UPDATE call_campaigns cc
+    SET status = 'completed', updated_at = NOW()
+    WHERE cc.status = 'running'
+    AND (
+        cc.ends_at <= NOW()
+        OR (
+            cc.total_tasks > 0
+            AND NOT EXISTS (
+                SELECT 1 FROM call_tasks ct
+                WHERE ct.campaign_id = cc.id AND ct.status IN ('pending', 'in-progress')
+            )
+        )
+    );
+    `;
+    if (completed > 0) {
+      console.log(`[call-scheduler] ${completed} campaigns completed`);
+    }
+
+    // Numbers can be flagged after their task was created, so enforce the status again here.
+    // Skipped tasks are counted on their campaigns in the same statement.
+    const skipped = await prisma.$queryRaw<{ skipped: number }[]>`
+    WITH skipped_tasks AS (
+        UPDATE call_tasks ct
+        SET status = 'skipped', skip_reason = pn.status::text, updated_at = NOW()
+        FROM phone_numbers pn
+        WHERE ct.phone_number_id = pn.id
+        AND ct.status = 'pending'
+        AND pn.status <> 'valid'
+        AND ct.scheduled_at <= NOW() + ${SCHEDULE_LOOKAHEAD_SECONDS} * INTERVAL '1 second'
+        RETURNING ct.campaign_id
+    )
+    UPDATE call_campaigns cc
+    SET skipped_tasks = cc.skipped_tasks + s.skipped, updated_at = NOW()
+    FROM (SELECT campaign_id, COUNT(*)::int AS skipped FROM skipped_tasks GROUP BY campaign_id) s
+    WHERE cc.id = s.campaign_id
+    RETURNING s.skipped;
+    `;
+    const skippedCount = skipped.reduce((sum, row) => sum + row.skipped, 0);
+    if (skippedCount > 0) {
+      console.log(`[call-scheduler] ${skippedCount} tasks skipped (do_not_call or invalid number)`);
+    }
+
+    // Claim due tasks batch by batch, enqueueing each batch before claiming the next
+    while (stats.batches < SCHEDULER_MAX_BATCHES_PER_TICK && !isShuttingDown) {
+      // A long run can outlast the lock's TTL, so it is renewed before every batch; once another
+      // replica has taken over, this one stops so the two don't claim side by side
+      if (!(await acquireSchedulerLeadership(leaderId))) {
+        stats.leadershipLost = true;
+        console.warn('[call-scheduler] Lost the leader lock during the run, stopping before the next batch');
+        break;
+      }
+
+      const callsToRun = await claimBatch(SCHEDULER_CLAIM_BATCH_SIZE);
+      if (callsToRun.length === 0) {
+        break;
+      }
+      stats.batches++;
+      stats.claimed += callsToRun.length;
+
+      // Jobs carry their campaign's and the task's priority; campaigns of the same priority take turns.
+      // A batch that fails to enqueue goes straight back to pending, nothing was dialed so it isn't
+      // a retry; tasks it can't hand back are left to their lease running out (step 1).
+      try {
+        await enqueueCallTasks(
+          orderForDispatch(callsToRun).map((callTask) => ({
+            callTaskId: callTask.id,
+            callScheduledAt: callTask.scheduled_at.toISOString(),
+            claimedAt: callTask.claimed_at.toISOString(),
+            priority: getCallTaskJobPriority(callTask.campaign_priority, callTask.priority),
+          }))
+        );
+        stats.enqueued += callsToRun.length;
+      } catch (error) {
+        console.error(`[call-scheduler] Failed to enqueue a batch of ${callsToRun.length} claimed tasks:`, error);
+        // Tasks of a batch are claimed in one statement and share its claimed_at
+        const released = await callTaskRepository.release(
+          callsToRun.map((callTask) => callTask.id),
+          callsToRun[0].claimed_at
+        );
+        console.warn(`[call-scheduler] Released ${released.count} of ${callsToRun.length} claimed tasks back to pending`);
+        break;
+      }
+
+      if (callsToRun.length < SCHEDULER_CLAIM_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (stats.claimed === 0) {
+      console.log('[call-scheduler] No tasks to claim');
+    } else {
+      console.log(`[call-scheduler] ${stats.claimed} tasks claimed, ${stats.enqueued} enqueued in ${stats.batches} batches`);
+    }
   } catch (error) {
     console.error('[call-scheduler] Error checking campaigns:', error);
+    stats.error = (error as Error).message;
   }
+  return stats;
 }
 
-async function main() {
-  console.log('[call-scheduler] Starting scheduler (runs every 2 minutes)...');
+// Runs the planned tick, records it for GET /admin/scheduler and plans the next one.
+// Returns null when the leader lock was lost during the tick, the new leader plans from then on.
+async function runSchedulerTick(plan: SchedulerRunPlan): Promise<SchedulerRunPlan | null> {
+  if (plan.missedTicks > 0) {
+    console.warn(`[call-scheduler] Catching up on ${plan.missedTicks} missed ticks`);
+  }
 
-  // Run immediately on startup
-  await checkAndScheduleCampaigns();
+  const startedAt = new Date();
+  const stats = await checkAndScheduleCampaigns();
+  const finishedAt = new Date();
+  if (stats.leadershipLost) {
+    console.warn(`[call-scheduler] Tick cut short: ${stats.claimed} tasks claimed, ${stats.enqueued} enqueued`);
+    return null;
+  }
+  const next = planNextSchedulerRun(plan.tickAt, finishedAt, SCHEDULE_PLAN_OPTIONS);
 
-  // Then run every 2 minutes
-  while (!isShuttingDown) {
-    await new Promise(resolve => setTimeout(resolve, SCHEDULE_WINDOW_MINUTES * 60 * 1000));
+  await recordSchedulerRun(
+    {
+      tick_at: plan.tickAt,
+      started_at: startedAt,
+      finished_at: finishedAt,
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      missed_ticks: plan.missedTicks,
+      tasks_claimed: stats.claimed,
+      tasks_enqueued: stats.enqueued,
+      batches: stats.batches,
+      error: stats.error,
+    },
+    next,
+    { intervalSeconds: SCHEDULER_INTERVAL_SECONDS, jitterSeconds: SCHEDULER_JITTER_SECONDS }
+  );
+  return next;
+}
+
+async function main() {
+  console.log(
+    `[call-scheduler] Starting scheduler ${leaderId} (runs every ${SCHEDULER_INTERVAL_SECONDS}s with up to ${SCHEDULER_JITTER_SECONDS}s jitter)...`
+  );
 
-    if (!isShuttingDown) {
-      await checkAndScheduleCampaigns();
+  // Every replica competes for the leader lock; only the leader runs ticks, the others stand by.
+  // The leader renews the lock between ticks and before each claim batch within a tick.
+  let plan: SchedulerRunPlan | null = null;
+  while (!isShuttingDown) {
+    try {
+      if (await acquireSchedulerLeadership(leaderId)) {
+        if (!plan) {
+          // Continue the cadence of the previous leader, catching up right away if it lapsed
+          plan = planNextSchedulerRun(await getLastSchedulerTick(), new Date(), SCHEDULE_PLAN_OPTIONS);
+          console.log(`[call-scheduler] Became leader, next run at ${plan.runAt.toISOString()}`);
+        }
+        if (plan.runAt <= new Date()) {
+          plan = await runSchedulerTick(plan);
+          if (!plan) {
+            console.warn('[call-scheduler] Lost the leader lock, standing by');
+          }
+        }
+      } else if (plan) {
+        plan = null;
+        console.warn('[call-scheduler] Lost the leader lock, standing by');
+      }
+    } catch (error) {
+      console.error('[call-scheduler] Error in scheduler loop:', error);
     }
+
+    // Sleep until the next run, waking up in time to renew the lock
+    const untilNextRunMs = plan ? Math.max(plan.runAt.getTime() - Date.now(), 0) : Infinity;
+    await new Promise(resolve => setTimeout(resolve, Math.min(untilNextRunMs, LEADER_RENEW_INTERVAL_MS)));
   }
 
   console.log('[call-scheduler] Scheduler loop ended');
@@ -66,6 +365,7 @@ async function main() {
 process.on('SIGTERM', async () => {
   console.log('[call-scheduler] SIGTERM received, shutting down gracefully...');
   isShuttingDown = true;
+  await releaseSchedulerLeadership(leaderId);
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -73,6 +373,7 @@ process.on('SIGTERM', async () => {
 process.on('SIGINT', async () => {
   console.log('[call-scheduler] SIGINT received, shutting down gracefully...');
   isShuttingDown = true;
+  await releaseSchedulerLeadership(leaderId);
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -1,28 +1,54 @@
 import 'dotenv/config';
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import { redisConnection } from '../lib/redis';
 import { prisma } from '../lib/prisma';
 import { CallTaskJobData } from '../queues/callTaskQueue';
-import { Redis } from 'ioredis';
 import { call_logs } from '@prisma/client';
 import { getNextValidScheduleDate } from '../lib/schedule_utils';
+import { getScheduleTimeZone } from '../lib/contact_time_zone';
+import { getTelephonyProvider, isTerminalCallStatus, ProviderCallStatus, TelephonyProvider } from '../telephony';
+import { callLogService } from '../services/call-logs.service';
+import { callTaskRepository } from '../repositories/call-tasks.repository';
+import { getPhoneNumberSkipReason } from '../lib/dialing_eligibility';
+import { suppressionService } from '../services/suppression.service';
+import { CALL_TASK_LEASE_SECONDS, getLeaseExpiry, getLeaseHolderId } from '../lib/task_lease';
+import {
+  acquireSlots,
+  CALL_SLOT_TTL_MS,
+  getCallSlotToken,
+  getCampaignSlotScope,
+  refreshSlots,
+  releaseSlots,
+} from '../lib/concurrency_slots';
+import { dialingLimitService } from '../services/dialing-limits.service';
 
-const redis = new Redis(redisConnection);
+const CALL_STATUS_POLL_INTERVAL_MS = Number(process.env.CALL_STATUS_POLL_INTERVAL_MS ?? 1000);
+const CALL_MAX_DURATION_MS = Number(process.env.CALL_MAX_DURATION_MS ?? 10 * 60 * 1000);
+// Leases are renewed while a call is polled well before they run out
+const LEASE_RENEW_INTERVAL_MS = (CALL_TASK_LEASE_SECONDS * 1000) / 3;
+// A job turned away by a calls-per-second limit is tried again after this delay plus up to the jitter
+const RATE_LIMIT_RETRY_DELAY_MS = Number(process.env.RATE_LIMIT_RETRY_DELAY_MS ?? 1000);
+const RATE_LIMIT_RETRY_JITTER_MS = Number(process.env.RATE_LIMIT_RETRY_JITTER_MS ?? 500);
+// Coarse per-worker throttle, the per-user, caller ID and trunk limits are enforced in Redis
+const CALL_WORKER_MAX_JOBS_PER_MINUTE = Number(process.env.CALL_WORKER_MAX_JOBS_PER_MINUTE ?? 50);
 
 const worker = new Worker<CallTaskJobData>(
   'call-tasks',
-  async (job: Job<CallTaskJobData>) => {
-    const { callTaskId } = job.data;
+  async (job: Job<CallTaskJobData>, token?: string) => {
+    const { callTaskId, claimedAt } = job.data;
     console.log(`[Worker] Processing job ${job.id} for call task ${callTaskId}`);
 
     // Fetch the full task details, including its campaign and phone number
     const callTask = await prisma.call_tasks.findUnique({
       where: { id: callTaskId },
       include: {
+        users: true,
         phone_numbers: true,
         call_campaigns: {
           include: {
-            call_schedules: true,
+            call_schedules: {
+              include: { holiday_calendars: { include: { holiday_calendar_dates: true } } },
+            },
           },
         },
       },
@@ -36,114 +62,184 @@ const worker = new Worker<CallTaskJobData>(
       return { status: 'error', reason: 'task_not_found' };
     }
 
-    const { call_campaigns: campaign, phone_numbers: phoneNumber, user_id } = callTask;
-    const concurrencyKey = `campaign:${campaign.id}:active_calls`;
+    // The job belongs to one claim of the task. If that claim's lease ran out the task was
+    // handed back (and maybe claimed again), so only the current claim may dial it.
+    const renewLease = (extraMs?: number) =>
+      callTaskRepository.renewLease(callTaskId, new Date(claimedAt), getLeaseHolderId(), getLeaseExpiry(extraMs));
+    if (!(await renewLease())) {
+      console.warn(`[Worker] Dropping job ${job.id}, call task ${callTaskId} is no longer held by the claim of ${claimedAt}`);
+      return { status: 'stale_claim' };
+    }
+
+    const { call_campaigns: campaign, phone_numbers: phoneNumber, users: user, user_id } = callTask;
+
+    // The campaign may have been cancelled after the task was claimed, its tasks end unanswered
+    if (campaign.status === 'cancelled') {
+      await callTaskRepository.markSkipped(callTaskId, campaign.id, 'campaign_cancelled', new Date(claimedAt));
+      console.log(`[Worker] Skipped call task ${callTaskId}, campaign ${campaign.id} is cancelled`);
+      return { status: 'skipped', reason: 'campaign_cancelled' };
+    }
+
+    // Or paused, hand the task back so it is picked up again once the campaign runs
+    if (campaign.status !== 'running') {
+      await callTaskRepository.release([callTaskId], new Date(claimedAt));
+      console.log(`[Worker] Released call task ${callTaskId}, campaign ${campaign.id} is ${campaign.status}`);
+      return { status: 'released', reason: campaign.status };
+    }
+
+    // Last line of defence: the number may have been flagged after the task was claimed
+    const skipReason = getPhoneNumberSkipReason(phoneNumber);
+    if (skipReason) {
+      await callTaskRepository.markSkipped(callTaskId, campaign.id, skipReason, new Date(claimedAt));
+      console.log(`[Worker] Skipped call task ${callTaskId}, phone number is ${skipReason}`);
+      return { status: 'skipped', reason: skipReason };
+    }
+
+    // The task may have been claimed just before the campaign ended
+    if (campaign.ends_at && campaign.ends_at <= new Date()) {
+      await callTaskRepository.markExpired(callTaskId, campaign.id, new Date(claimedAt));
+      console.log(`[Worker] Expired call task ${callTaskId}, campaign ${campaign.id} ended at ${campaign.ends_at.toISOString()}`);
+      return { status: 'expired' };
+    }
+
+    // Suppression entries can be added at any time, so they are checked right before every dial
+    const suppression = await suppressionService.findActiveMatch(user_id, phoneNumber.number);
+    if (suppression) {
+      await callTaskRepository.markSkipped(callTaskId, campaign.id, 'suppressed', new Date(claimedAt));
+      console.log(`[Worker] Skipped call task ${callTaskId}, number matches suppression entry ${suppression.id}`);
+      return { status: 'skipped', reason: 'suppressed' };
+    }
+
+    // For the duration of its call the task holds a slot of its campaign and of every dialing
+    // limit set for its user, caller ID and trunk (the provider it goes out through)
+    const provider = getTelephonyProvider(user.telephony_provider);
+    const slotLimits = [
+      { scope: getCampaignSlotScope(campaign.id), maxConcurrent: campaign.max_concurrent_calls, maxPerSecond: null },
+      ...(await dialingLimitService.getSlotLimitsForCall({
+        user_id,
+        caller_id: campaign.caller_id,
+        trunk: provider.name,
+      })),
+    ];
+    // The slots belong to this claim, a later claim of the task takes its own
+    const slotToken = getCallSlotToken(callTaskId, new Date(claimedAt));
+    let callLog: call_logs | undefined;
+    let slotAcquired = false;
+    // Set once the call itself owns the slots; the status callback releases them when the call ends
+    let slotHandedOver = false;
 
     try {
-      const activeCalls = await redis.incr(concurrencyKey);
-      if (activeCalls > campaign.max_concurrent_calls) {
-        await redis.decr(concurrencyKey);
-        // recalculate next scheduled_at time and then update call_tasks set
-        // scheduled_at = next_scheduled_at where id = callTaskId
-        // set the task status to 'pending'
-        const newScheduledAt = getNextValidScheduleDate(campaign.call_schedules, new Date());
-        await prisma.call_tasks.update({
-          where: { id: callTaskId },
-          data: {
-            status: 'pending', // Set back to pending for the scheduler to pick up again
-            scheduled_at: newScheduledAt as Date,
-            updated_at: new Date(),
-          },
-        });
+      const slots = await acquireSlots(slotToken, slotLimits, getLeaseHolderId());
+      slotAcquired = slots.acquired;
+      if (!slots.acquired) {
+        console.log(`[Worker] No room for call task ${callTaskId} in ${slots.scope} (${slots.reason} limit reached)`);
+        if (slots.reason === 'rate') {
+          // A calls-per-second limit frees up within the second: keep the claim and run the job
+          // again shortly, jittered so the turned-away jobs don't all come back at once
+          const delayMs = RATE_LIMIT_RETRY_DELAY_MS + Math.floor(Math.random() * RATE_LIMIT_RETRY_JITTER_MS);
+          await job.moveToDelayed(Date.now() + delayMs, token);
+          throw new DelayedError();
+        }
+
+        // Put the task back for the scheduler at the next slot of the campaign's schedule,
+        // or right away when the campaign has none
+        const schedule = campaign.call_schedules;
+        const newScheduledAt = schedule
+          ? getNextValidScheduleDate(schedule, new Date(), {
+              timeZone: getScheduleTimeZone(schedule, phoneNumber),
+              holidayCalendar: schedule.holiday_calendars,
+              startsAt: campaign.starts_at,
+              endsAt: campaign.ends_at,
+            })
+          : new Date();
+        if (!newScheduledAt && campaign.ends_at) {
+          // No window opens again before the campaign ends
+          await callTaskRepository.markExpired(callTaskId, campaign.id, new Date(claimedAt));
+          console.log(`[Worker] Expired call task ${callTaskId}, no slot left before campaign ${campaign.id} ends`);
+          return { status: 'expired' };
+        }
+        if (!newScheduledAt) {
+          // The schedule never opens again, the task can't be dialed
+          await callTaskRepository.markSkipped(callTaskId, campaign.id, 'no_schedule_slot', new Date(claimedAt));
+          console.log(`[Worker] Skipped call task ${callTaskId}, schedule ${schedule?.id} has no upcoming windows`);
+          return { status: 'skipped', reason: 'no_schedule_slot' };
+        }
+        // Set back to pending for the scheduler to pick up again
+        await callTaskRepository.release([callTaskId], new Date(claimedAt), newScheduledAt);
 
-        return { status: 'error', reason: 'campaign_max_concurrent_calls_reached' };
+        return { status: 'error', reason: 'concurrency_limit_reached', scope: slots.scope };
       }
 
-      const callLog = await prisma.call_logs.create({
+      callLog = await prisma.call_logs.create({
         data: {
           user_id: user_id,
+          campaign_id: campaign.id,
           call_task_id: callTaskId,
           phone_number_id: phoneNumber.id,
           dialed_number: phoneNumber.number,
+          attempt: callTask.retry_count,
+          task_claimed_at: new Date(claimedAt), // The outcome only moves the task while this claim holds it
           status: 'initiated',
           started_at: new Date(),
-          // In a real system, we'll get this from the telephony API
-          external_call_id: `mock-${Date.now()}-${Math.random()}`,
         },
       });
 
       console.log(`[Worker] Created call log ${callLog.id} for ${phoneNumber.number}`);
 
-      // Simulate the external API call
-      await simulateCall(callLog);
-
-      // SUCCESS PATH
-      await prisma.$transaction([
-        // Update call log to completed
-        prisma.call_logs.update({
-          where: { id: callLog.id },
-          data: { status: 'completed', ended_at: new Date() },
-        }),
-        // Update task to completed
-        prisma.call_tasks.update({
-          where: { id: callTaskId },
-          data: { status: 'completed', updated_at: new Date() },
-        }),
-        // Increment completed tasks on the campaign
-        prisma.call_campaigns.update({
-          where: { id: campaign.id },
-          data: { completed_tasks: { increment: 1 }, updated_at: new Date() },
-        }),
-      ]);
-
-      console.log(`[Worker] Successfully completed call task ${callTaskId}`);
-      return { status: 'success', callLogId: callLog.id };
+      // Place the call through the user's (or the deployment's) telephony provider
+      const dialResult = await provider.dial({
+        callLogId: callLog.id,
+        to: phoneNumber.number,
+        from: campaign.caller_id ?? undefined,
+        attempt: callTask.retry_count,
+      });
+      await prisma.call_logs.update({
+        where: { id: callLog.id },
+        data: { external_call_id: dialResult.externalCallId, updated_at: new Date() },
+      });
+
+      if (provider.sendsStatusCallbacks) {
+        // The outcome arrives on /webhooks/telephony/:provider, don't hold the job for the whole call.
+        // Nobody heartbeats the slots or the lease from here on, so they are held for as long as a call may last.
+        await refreshSlots(slotToken, CALL_MAX_DURATION_MS + CALL_SLOT_TTL_MS);
+        await renewLease(CALL_MAX_DURATION_MS);
+        slotHandedOver = true;
+        console.log(`[Worker] Dialed ${dialResult.externalCallId} for call task ${callTaskId}, awaiting status callbacks`);
+        return { status: 'dialed', callLogId: callLog.id };
+      }
+
+      const finalStatus = await waitForCallCompletion(provider, dialResult.externalCallId, callLog.id, {
+        refreshSlots: () => refreshSlots(slotToken),
+        renewLease: () => renewLease(),
+      });
+      const result = await callLogService.applyCallStatus(callLog.id, finalStatus);
+
+      if (result.taskOutcome === 'completed') {
+        console.log(`[Worker] Successfully completed call task ${callTaskId}`);
+        return { status: 'success', callLogId: callLog.id };
+      }
+      return { status: 'error', reason: result.taskOutcome ?? (result.applied ? 'stale_claim' : 'call_status_already_recorded') };
     } catch (error) {
+      if (error instanceof DelayedError) {
+        throw error;
+      }
+
       // FAILURE PATH
       console.error(`[Worker] Error processing call task ${callTaskId}:`, (error as Error).message);
 
-      // Check if we should retry or mark as failed permanently
-      if (callTask.retry_count < campaign.max_retries) {
-        // Reschedule for a future retry
-        const retry_after_seconds = campaign.retry_delay_seconds * 1000;
-        const newScheduledAt = new Date(Date.now() + retry_after_seconds * 1000);
-        await prisma.$transaction([
-          prisma.call_tasks.update({
-            where: { id: callTaskId },
-            data: {
-              status: 'pending', // Set back to pending for the scheduler to pick up again
-              retry_count: { increment: 1 },
-              scheduled_at: newScheduledAt,
-              updated_at: new Date(),
-            },
-          }),
-          prisma.call_campaigns.update({
-            where: { id: campaign.id },
-            data: { retries_attempted: { increment: 1 }, updated_at: new Date() },
-          }),
-        ]);
-        console.log(`[Worker] Task ${callTaskId} failed, rescheduled for retry at ${newScheduledAt.toISOString()}`);
-        return { status: 'error', reason: 'retryable_error' };
+      if (!callLog) {
+        // Nothing was dialed, let BullMQ retry the job
+        throw error;
       }
 
-       // All retries exhausted, mark as permanently failed
-       await prisma.$transaction([
-        prisma.call_tasks.update({
-          where: { id: callTaskId },
-          data: { status: 'failed', updated_at: new Date() },
-        }),
-        prisma.call_campaigns.update({
-          where: { id: campaign.id },
-          data: { failed_tasks: { increment: 1 }, updated_at: new Date() },
-        }),
-      ]);
-
-      console.log(`[Worker] Task ${callTaskId} has failed permanently after ${callTask.retry_count} retries.`);
-
-      return { status: 'error', reason: 'max_retries_exhausted' };
+      // Record the attempt as failed, which retries the task or fails it permanently
+      const result = await callLogService.applyCallStatus(callLog.id, 'failed');
+      return { status: 'error', reason: result.taskOutcome ?? (result.applied ? 'stale_claim' : 'call_status_already_recorded') };
     } finally {
-      await redis.decr(concurrencyKey);
-      console.log(`[Worker] Released concurrency slot for campaign ${campaign.id}`);
+      if (slotAcquired && !slotHandedOver) {
+        await releaseSlots(slotToken);
+        console.log(`[Worker] Released concurrency slots of call task ${callTaskId}`);
+      }
     }
   },
   {
@@ -152,32 +248,55 @@ const worker = new Worker<CallTaskJobData>(
     // Maximum number of jobs that can be processed in a given time period
     // In distributed job processing
     limiter: {
-      max: 50, // Max 50 jobs
+      max: CALL_WORKER_MAX_JOBS_PER_MINUTE,
       duration: 1*60*1000, // per minute
     },
   }
 );
 
-// Simulate a call (replace with actual call service)
-async function simulateCall(callLog: call_logs): Promise<void> {
-  return new Promise(async (resolve, reject) => {
-    // Update call log to in_progress
-    await prisma.call_logs.update({
-      where: { id: callLog.id },
-      data: { status: 'in_progress', updated_at: new Date() },
-    });
+// Poll the provider until the call reaches a terminal state, hanging up calls that overrun.
+// Intermediate statuses (e.g. answered) are recorded on the call log as they are observed.
+// The heartbeat keeps the call's concurrency slots alive on every poll and renews the task's
+// lease a few times per lease period, so calls longer than the lease keep their claim.
+async function waitForCallCompletion(
+  provider: TelephonyProvider,
+  externalCallId: string,
+  callLogId: string,
+  heartbeat: { refreshSlots: () => Promise<boolean>; renewLease: () => Promise<boolean> }
+): Promise<ProviderCallStatus> {
+  const deadline = Date.now() + CALL_MAX_DURATION_MS;
+  let lastStatus: ProviderCallStatus | undefined;
+  let slotLost = false;
+  let leaseLost = false;
+  let leaseRenewedAt = Date.now();
 
-    setTimeout(() => {
-      // Simulate 90% success rate
-      if (Math.random() < 0.9) {
-        console.log(`[Simulator] Call to ${callLog.dialed_number} completed successfully`);
-        resolve();
-      } else {
-        console.log(`[Simulator] Call to ${callLog.dialed_number} failed`);
-        reject(new Error('Call failed'));
+  while (Date.now() < deadline) {
+    const { status } = await provider.fetchStatus(externalCallId);
+    if (isTerminalCallStatus(status)) {
+      return status;
+    }
+    if (status !== lastStatus) {
+      await callLogService.applyCallStatus(callLogId, status);
+      lastStatus = status;
+    }
+    if (!slotLost && !(await heartbeat.refreshSlots())) {
+      slotLost = true;
+      console.warn(`[Worker] Concurrency slots of call ${externalCallId} expired while the call was running`);
+    }
+    if (!leaseLost && Date.now() - leaseRenewedAt >= LEASE_RENEW_INTERVAL_MS) {
+      leaseRenewedAt = Date.now();
+      if (!(await heartbeat.renewLease())) {
+        // The outcome won't move the task, it was already handed to another claim
+        leaseLost = true;
+        console.warn(`[Worker] Lease of call ${externalCallId}'s task expired while the call was running`);
       }
-    }, 2000); // Simulate 2 second call duration
-  });
+    }
+    await new Promise(resolve => setTimeout(resolve, CALL_STATUS_POLL_INTERVAL_MS));
+  }
+
+  console.warn(`[Worker] Call ${externalCallId} exceeded ${CALL_MAX_DURATION_MS}ms, hanging up`);
+  await provider.hangUp(externalCallId);
+  return 'failed';
 }
 
 // Event handlers
@@ -0,0 +1,74 @@
+import 'dotenv/config';
+import { prisma } from '../lib/prisma';
+import { callCampaignService } from '../services/call-campaigns.service';
+
+const RECONCILE_INTERVAL_MINUTES = Number(process.env.COUNTER_RECONCILE_INTERVAL_MINUTES ?? 60);
+// Without it drifted counters are only reported
+const REPAIR_COUNTERS = process.env.COUNTER_RECONCILE_REPAIR === 'true';
+let isShuttingDown = false;
+
+async function reconcileCounters() {
+  if (isShuttingDown) return;
+
+  console.log('[counter-reconciliation] Reconciling campaign counters...');
+
+  try {
+    const drifted = await callCampaignService.reconcileAllCampaignCounters({ repair: REPAIR_COUNTERS });
+    for (const result of drifted) {
+      const details = result.discrepancies
+        .map((discrepancy) => `${discrepancy.counter} ${discrepancy.stored} -> ${discrepancy.actual}`)
+        .join(', ');
+      console.warn(
+        `[counter-reconciliation] Campaign ${result.campaign_id} counters drifted (${details})${result.repaired ? ', repaired' : ''}`
+      );
+    }
+    console.log(`[counter-reconciliation] ${drifted.length} campaigns had drifted counters`);
+  } catch (error) {
+    console.error('[counter-reconciliation] Error reconciling counters:', error);
+  }
+}
+
+async function main() {
+  console.log(
+    `[counter-reconciliation] Starting reconciliation (runs every ${RECONCILE_INTERVAL_MINUTES} minutes, repair ${REPAIR_COUNTERS ? 'on' : 'off'})...`
+  );
+
+  // Run immediately on startup
+  await reconcileCounters();
+
+  while (!isShuttingDown) {
+    await new Promise(resolve => setTimeout(resolve, RECONCILE_INTERVAL_MINUTES * 60 * 1000));
+
+    if (!isShuttingDown) {
+      await reconcileCounters();
+    }
+  }
+
+  console.log('[counter-reconciliation] Reconciliation loop ended');
+}
+
+// Graceful shutdown
+process.on('SIGTERM', async () => {
+  console.log('[counter-reconciliation] SIGTERM received, shutting down gracefully...');
+  isShuttingDown = true;
+  await prisma.$disconnect();
+  process.exit(0);
+});
+
+process.on('SIGINT', async () => {
+  console.log('[counter-reconciliation] SIGINT received, shutting down gracefully...');
+  isShuttingDown = true;
+  await prisma.$disconnect();
+  process.exit(0);
+});
+
+// Handle unhandled rejections
+process.on('unhandledRejection', (error) => {
+  console.error('[counter-reconciliation] Unhandled rejection:', error);
+});
+
+// Start the reconciliation loop
+main().catch((error) => {
+  console.error('[counter-reconciliation] Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+import 'dotenv/config';
+import { Worker, Job } from 'bullmq';
+import { redisConnection } from '../lib/redis';
+import { prisma } from '../lib/prisma';
+import { PhoneNumberImportJobData } from '../queues/phoneNumberImportQueue';
+import { phoneNumberImportService } from '../services/phone-number-imports.service';
+
+const worker = new Worker<PhoneNumberImportJobData>(
+  'phone-number-imports',
+  async (job: Job<PhoneNumberImportJobData>) => {
+    const { importId } = job.data;
+    console.log(`[ImportWorker] Processing job ${job.id} for import ${importId}`);
+
+    const phoneNumberImport = await phoneNumberImportService.processImport(importId);
+    return { status: phoneNumberImport.status, processedRows: phoneNumberImport.processed_rows };
+  },
+  {
+    connection: redisConnection,
+    // Imports are large sequential writes, run a couple at a time
+    concurrency: Number(process.env.PHONE_IMPORT_WORKER_CONCURRENCY ?? 2),
+  }
+);
+
+// Event handlers
+worker.on('completed', (job) => {
+  console.log(`[ImportWorker] Job ${job.id} completed successfully`);
+});
+
+worker.on('failed', async (job, err) => {
+  console.error(`[ImportWorker] Job ${job?.id} failed:`, err.message);
+
+  // Out of retries, record the failure on the import so clients polling it see it
+  if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+    await phoneNumberImportService.markFailed(job.data.importId, err);
+  }
+});
+
+worker.on('error', (err) => {
+  console.error('[ImportWorker] Worker error:', err);
+});
+
+worker.on('ready', () => {
+  console.log('[ImportWorker] Worker is ready and waiting for jobs');
+});
+
+// Graceful shutdown
+process.on('SIGTERM', async () => {
+  console.log('[ImportWorker] SIGTERM received, closing worker...');
+  await worker.close();
+  await prisma.$disconnect();
+  process.exit(0);
+});
+
+process.on('SIGINT', async () => {
+  console.log('[ImportWorker] SIGINT received, closing worker...');
+  await worker.close();
+  await prisma.$disconnect();
+  process.exit(0);
+});